@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { AlfaFrensManager } from '../src/alfafrens-client';
 import { IAgentRuntime } from '@elizaos/core';
 import { AlfaFrensApi } from '../src/api';
+import { AlfaFrensAuthenticationError } from '../src/errors';
 import { AlfaFrensAIInteraction } from '../src/extensions/ai-interaction';
 import { AlfaFrensMessage } from '../src/types';
 
@@ -92,7 +93,6 @@ describe('AlfaFrensManager', () => {
             await manager.stop(mockRuntime);
             expect(manager.isRunning).toBe(false);
             expect(manager.aiInteraction?.stop).toHaveBeenCalled();
-            expect(mockRuntime.cacheManager.set).toHaveBeenCalledWith('alfafrens_last_processed_time', expect.any(Number));
         });
 
         it('should not stop if not running', async () => {
@@ -140,4 +140,71 @@ describe('AlfaFrensManager', () => {
             })).rejects.toThrow('API error');
         });
     });
-}); 
\ No newline at end of file
+
+    describe('multiple channels', () => {
+        let multiChannelRuntime: IAgentRuntime;
+
+        beforeEach(() => {
+            multiChannelRuntime = {
+                ...mockRuntime,
+                registerAction: vi.fn(),
+                getSetting: vi.fn((key: string) => {
+                    if (key === 'ALFAFRENS_CHANNELS') {
+                        return JSON.stringify([
+                            { channelId: 'channel-a' },
+                            { channelId: 'channel-b', apiKey: 'key-b', pollInterval: 60 }
+                        ]);
+                    }
+                    return mockRuntime.getSetting(key);
+                })
+            } as unknown as IAgentRuntime;
+        });
+
+        it('should create one API client and interaction per channel', () => {
+            const multiManager = new AlfaFrensManager(multiChannelRuntime);
+
+            expect([...multiManager.channels.keys()]).toEqual(['channel-a', 'channel-b']);
+            expect(multiManager.config.channelId).toBe('channel-a');
+            expect(AlfaFrensApi).toHaveBeenCalledWith('key-b', 'channel-b', undefined, expect.any(Object));
+        });
+
+        it('should start every channel with its own poll interval', async () => {
+            const multiManager = new AlfaFrensManager(multiChannelRuntime);
+            await multiManager.initialize(multiChannelRuntime).catch(() => undefined);
+
+            expect(multiManager.channels.get('channel-a')!.aiInteraction.start).toHaveBeenCalledWith(15);
+            expect(multiManager.channels.get('channel-b')!.aiInteraction.start).toHaveBeenCalledWith(60);
+        });
+
+        it('should route messages by room ID', async () => {
+            const multiManager = new AlfaFrensManager(multiChannelRuntime);
+            const channelB = multiManager.channels.get('channel-b')!;
+            vi.mocked(channelB.api.getMessages).mockResolvedValueOnce([]);
+
+            await multiManager.getMessages({ roomId: 'channel-b' });
+
+            expect(channelB.api.getMessages).toHaveBeenCalled();
+            expect(multiManager.channels.get('channel-a')!.api.getMessages).not.toHaveBeenCalled();
+        });
+
+        it('should only stop the channel whose API key was rejected', async () => {
+            const multiManager = new AlfaFrensManager(multiChannelRuntime);
+            const channelB = multiManager.channels.get('channel-b')!;
+            vi.mocked(channelB.aiInteraction.stop).mockResolvedValue(undefined);
+            vi.mocked(channelB.api.sendMessage).mockRejectedValueOnce(
+                new AlfaFrensAuthenticationError('Unauthorized', { status: 401, path: '/send', method: 'POST', attempts: 1 })
+            );
+
+            await expect(multiManager.sendMessage({ content: 'hi', roomId: 'channel-b' })).rejects.toThrow('Unauthorized');
+
+            expect(channelB.aiInteraction.stop).toHaveBeenCalled();
+            expect(multiManager.channels.get('channel-a')!.aiInteraction.stop).not.toHaveBeenCalled();
+        });
+
+        it('should reject unknown rooms', async () => {
+            const multiManager = new AlfaFrensManager(multiChannelRuntime);
+
+            await expect(multiManager.getMessages({ roomId: 'unknown' })).rejects.toThrow('Unknown AlfaFrens channel: unknown');
+        });
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { AlfaFrensAnnouncer } from '../src/extensions/announcements';
+
+describe('AlfaFrensAnnouncer', () => {
+    let cache: Map<string, unknown>;
+    let settings: Record<string, string>;
+    let mockRuntime: IAgentRuntime;
+    const client = { sendMessage: vi.fn() };
+
+    beforeEach(() => {
+        client.sendMessage.mockReset().mockResolvedValue([]);
+        cache = new Map();
+        settings = {};
+        mockRuntime = {
+            getSetting: vi.fn((key: string) => settings[key] || null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, value); })
+            }
+        } as unknown as IAgentRuntime;
+    });
+
+    it('should send the configured startup text', async () => {
+        settings.ALFAFRENS_STARTUP_MESSAGE = 'Hello subscribers!';
+        const announcer = new AlfaFrensAnnouncer(client, mockRuntime);
+
+        await expect(announcer.announce('startup', 'channel')).resolves.toBe(true);
+        expect(client.sendMessage).toHaveBeenCalledWith({ content: 'Hello subscribers!', roomId: 'channel' });
+    });
+
+    it('should stay quiet if the channel was announced within the window', async () => {
+        cache.set('alfafrens/channel/announcements/startup', { sentAt: Date.now() - 60000 });
+        const announcer = new AlfaFrensAnnouncer(client, mockRuntime);
+
+        await expect(announcer.announce('startup', 'channel')).resolves.toBe(false);
+        expect(client.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not send the shutdown message unless enabled', async () => {
+        const announcer = new AlfaFrensAnnouncer(client, mockRuntime);
+
+        await expect(announcer.announce('shutdown', 'channel')).resolves.toBe(false);
+        expect(client.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when sending fails', async () => {
+        client.sendMessage.mockRejectedValueOnce(new Error('API error'));
+        const announcer = new AlfaFrensAnnouncer(client, mockRuntime);
+
+        await expect(announcer.announce('startup', 'channel')).resolves.toBe(false);
+        expect(cache.has('alfafrens/channel/announcements/startup')).toBe(false);
+    });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AlfaFrensApi, parseRetryAfter } from '../src/api';
+import {
+    AlfaFrensAuthenticationError,
+    AlfaFrensNetworkError,
+    AlfaFrensRateLimitError,
+    AlfaFrensServerError
+} from '../src/errors';
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+        status,
+        statusText: status === 200 ? 'OK' : 'Error',
+        headers: { 'Content-Type': 'application/json', ...headers }
+    });
+
+const connectionRefused = () =>
+    Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNREFUSED' } });
+
+describe('AlfaFrensApi', () => {
+    const fetchMock = vi.fn();
+    const retryPolicy = {
+        maxAttempts: 3,
+        baseDelayMs: 1,
+        maxDelayMs: 5,
+        deadlineMs: 1000,
+        requestTimeoutMs: 1000
+    };
+    let api: AlfaFrensApi;
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        vi.stubGlobal('fetch', fetchMock);
+        api = new AlfaFrensApi('test-api-key', 'test-channel', 'https://api.example.com', retryPolicy);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('retries', () => {
+        it('should retry GET requests on retryable status codes', async () => {
+            fetchMock
+                .mockResolvedValueOnce(jsonResponse(502, { error: 'bad gateway' }))
+                .mockResolvedValueOnce(jsonResponse(200, []));
+
+            await expect(api.getMessages({ since: 0 })).resolves.toEqual([]);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('should give up after the maximum number of attempts', async () => {
+            fetchMock.mockImplementation(async () => jsonResponse(503, { error: 'unavailable' }));
+
+            await expect(api.getMessages({ since: 0 })).rejects.toThrow();
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not retry non-retryable status codes', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse(400, { error: 'bad request' }));
+
+            await expect(api.getMessages({ since: 0 })).rejects.toThrow();
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry postMessage after the server responded', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse(502, { error: 'bad gateway' }));
+
+            await expect(api.sendMessage('hello')).rejects.toThrow();
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry postMessage when the connection failed before a response', async () => {
+            fetchMock
+                .mockRejectedValueOnce(connectionRefused())
+                .mockResolvedValueOnce(jsonResponse(200, { status: 'success', messageId: '1', timestamp: 'now' }));
+
+            await expect(api.sendMessage('hello')).resolves.toMatchObject({ messageId: '1' });
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('should stop retrying when Retry-After exceeds the deadline', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse(429, { error: 'slow down' }, { 'Retry-After': '60' }));
+
+            await expect(api.getMessages({ since: 0 })).rejects.toThrow();
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('errors', () => {
+        it('should raise an authentication error with request details', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse(401, { error: 'invalid api key' }));
+
+            const error = await api.getMessages({ since: 1000 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(AlfaFrensAuthenticationError);
+            expect(error).toMatchObject({
+                status: 401,
+                body: { error: 'invalid api key' },
+                path: '/api/ai/getChannelMessages?since=1000',
+                attempts: 1
+            });
+        });
+
+        it('should raise a rate limit error carrying Retry-After', async () => {
+            fetchMock.mockResolvedValueOnce(jsonResponse(429, 'slow down', { 'Retry-After': '60' }));
+
+            const error = await api.getMessages({ since: 0 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(AlfaFrensRateLimitError);
+            expect(error.retryAfterMs).toBe(60000);
+        });
+
+        it('should report the number of attempts for server errors', async () => {
+            fetchMock.mockImplementation(async () => jsonResponse(500, { error: 'boom' }));
+
+            const error = await api.getMessages({ since: 0 }).catch(e => e);
+
+            expect(error).toBeInstanceOf(AlfaFrensServerError);
+            expect(error.attempts).toBe(3);
+        });
+
+        it('should wrap connection failures in a network error', async () => {
+            fetchMock.mockRejectedValue(connectionRefused());
+
+            const error = await api.sendMessage('hello').catch(e => e);
+
+            expect(error).toBeInstanceOf(AlfaFrensNetworkError);
+            expect(error.method).toBe('POST');
+        });
+    });
+
+    describe('parseRetryAfter', () => {
+        it('should parse seconds', () => {
+            expect(parseRetryAfter('2')).toBe(2000);
+        });
+
+        it('should parse HTTP dates', () => {
+            const date = new Date(Date.now() + 5000).toUTCString();
+            expect(parseRetryAfter(date)).toBeGreaterThan(3000);
+        });
+
+        it('should ignore missing or invalid values', () => {
+            expect(parseRetryAfter(null)).toBeUndefined();
+            expect(parseRetryAfter('soon')).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BoundedQueue, ConcurrencyLimiter, RecurringJob } from '../src/extensions/concurrency';
+
+const deferred = () => {
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+};
+
+describe('RecurringJob', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should not start a run while the previous one is in progress', async () => {
+        const run = deferred();
+        const task = vi.fn(() => run.promise);
+        const job = new RecurringJob('test', task, 1000);
+
+        job.start(true);
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(task).toHaveBeenCalledTimes(1);
+
+        run.resolve();
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(task).toHaveBeenCalledTimes(2);
+        job.stop();
+    });
+
+    it('should join the run in flight when triggered', async () => {
+        const run = deferred();
+        const task = vi.fn(() => run.promise);
+        const job = new RecurringJob('test', task, 1000);
+
+        const first = job.trigger();
+        const second = job.trigger();
+        run.resolve();
+        await Promise.all([first, second]);
+
+        expect(task).toHaveBeenCalledTimes(1);
+        expect(job.isRunning).toBe(false);
+    });
+
+    it('should keep running after a failed run', async () => {
+        const task = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+        const job = new RecurringJob('test', task, 1000);
+
+        job.start(true);
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(task).toHaveBeenCalledTimes(2);
+        job.stop();
+    });
+});
+
+describe('ConcurrencyLimiter', () => {
+    it('should run at most the limit at once, in order', async () => {
+        const limiter = new ConcurrencyLimiter(2);
+        const runs = [deferred(), deferred(), deferred()];
+        const started: number[] = [];
+
+        const results = runs.map((run, i) => limiter.run(async () => {
+            started.push(i);
+            await run.promise;
+            return i;
+        }));
+
+        await Promise.resolve();
+        expect(started).toEqual([0, 1]);
+        expect(limiter.pending).toBe(1);
+
+        runs[0].resolve();
+        await results[0];
+        await vi.waitFor(() => expect(started).toEqual([0, 1, 2]));
+
+        runs[1].resolve();
+        runs[2].resolve();
+        expect(await Promise.all(results)).toEqual([0, 1, 2]);
+    });
+
+    it('should hand a freed slot to the next waiting operation', async () => {
+        const limiter = new ConcurrencyLimiter(1);
+        const first = deferred();
+        const started: string[] = [];
+        let maxActive = 0;
+        const operation = (name: string) => async () => {
+            started.push(name);
+            maxActive = Math.max(maxActive, limiter.active);
+        };
+
+        const runs = [limiter.run(() => first.promise), limiter.run(operation('waiting'))];
+        // runs after the first operation released its slot, before the waiting one resumed
+        const late = first.promise.then(() => limiter.run(operation('late')));
+
+        first.resolve();
+        await Promise.all([...runs, late]);
+
+        expect(started).toEqual(['waiting', 'late']);
+        expect(maxActive).toBe(1);
+    });
+});
+
+describe('BoundedQueue', () => {
+    it('should refuse items beyond its size and drain in order', () => {
+        const queue = new BoundedQueue<number>(2);
+
+        expect(queue.offer(1)).toBe(true);
+        expect(queue.offer(2)).toBe(true);
+        expect(queue.offer(3)).toBe(false);
+        expect(queue.drain()).toEqual([1, 2]);
+        expect(queue.size).toBe(0);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { AlfaFrensContentCalendar } from '../src/extensions/content-calendar';
+import { loadAlfaFrensContentCalendar } from '../src/config';
+import type { AlfaFrensManager } from '../src/alfafrens-client';
+
+describe('AlfaFrensContentCalendar', () => {
+    let cache: Map<string, unknown>;
+    let settings: Record<string, unknown>;
+    let mockRuntime: IAgentRuntime;
+    let client: AlfaFrensManager;
+    const createPost = vi.fn();
+
+    const entry = { id: 'recap', cron: '0 9 * * *', text: 'Daily recap', enabled: true, timeZone: 'UTC' };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-01-05T12:00:00.000Z'));
+        createPost.mockReset().mockResolvedValue([{ message: { id: 'post', timestamp: 'now' } }]);
+        cache = new Map();
+        settings = {};
+        mockRuntime = {
+            getSetting: vi.fn((key: string) => settings[key] ?? null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, value); })
+            }
+        } as unknown as IAgentRuntime;
+        client = { config: { channelId: 'channel' }, createPost } as unknown as AlfaFrensManager;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should post fixed text at the scheduled time', async () => {
+        const calendar = new AlfaFrensContentCalendar(client, mockRuntime, { entries: [entry] });
+        await calendar.start();
+
+        expect(calendar.listEntries()[0].nextRunAt).toBe(new Date('2025-01-06T09:00:00.000Z').getTime());
+        await vi.advanceTimersByTimeAsync(21 * 3600000);
+
+        expect(createPost).toHaveBeenCalledWith({ content: 'Daily recap', roomId: 'channel' });
+        calendar.stop();
+    });
+
+    it.each([
+        ['skip', 0],
+        ['once', 1],
+        ['all', 3]
+    ] as const)('should handle missed slots with the %s policy', async (missedPolicy, posts) => {
+        cache.set('alfafrens/channel/calendar/recap', new Date('2025-01-02T09:00:00.000Z').getTime());
+        const calendar = new AlfaFrensContentCalendar(client, mockRuntime, { entries: [entry], missedPolicy });
+
+        await calendar.start();
+
+        expect(createPost).toHaveBeenCalledTimes(posts);
+        expect(cache.get('alfafrens/channel/calendar/recap')).toBe(new Date('2025-01-05T09:00:00.000Z').getTime());
+        calendar.stop();
+    });
+
+    it('should not schedule disabled entries', () => {
+        const calendar = new AlfaFrensContentCalendar(client, mockRuntime, { entries: [{ ...entry, enabled: false }] });
+
+        expect(calendar.size).toBe(0);
+    });
+
+    it('should load entries from the character settings', () => {
+        settings.ALFAFRENS_CONTENT_CALENDAR = JSON.stringify([
+            { cron: '0 17 * * MON', text: 'AMA reminder' },
+            { id: 'recap', cron: '0 9 * * *', template: 'Write a recap', modelClass: 'large', enabled: false }
+        ]);
+
+        expect(loadAlfaFrensContentCalendar(mockRuntime)).toMatchObject([
+            { id: 'entry-1', cron: '0 17 * * MON', text: 'AMA reminder', enabled: true },
+            { id: 'recap', template: 'Write a recap', modelClass: 'large', enabled: false }
+        ]);
+    });
+
+    it('should reject entries with an invalid cron expression', () => {
+        settings.ALFAFRENS_CONTENT_CALENDAR = [{ cron: 'every day', text: 'hi' }];
+
+        expect(() => loadAlfaFrensContentCalendar(mockRuntime)).toThrow('Invalid cron expression');
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, ServiceType, generateText } from '@elizaos/core';
+import { assembleContext, getContextValues, injectContextPlaceholders } from '../src/extensions/context-assembly';
+import { generateResponse } from '../src/extensions/utils';
+import { AlfaFrensFactStore } from '../src/extensions/fact-store';
+import { join } from 'path';
+
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        ...actual,
+        generateText: vi.fn()
+    };
+});
+
+describe('Context assembly', () => {
+    describe('assembleContext', () => {
+        it('should keep the most relevant items within the budget of each source', () => {
+            const sections = assembleContext([
+                { source: 'knowledge', items: ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)] },
+                { source: 'facts', items: [] }
+            ], { knowledge: 25 });
+
+            expect(sections[0]).toMatchObject({ source: 'knowledge', included: 2, dropped: 1, budget: 25 });
+            expect(sections[0].text).toBe(`${'a'.repeat(40)}\n\n${'b'.repeat(40)}`);
+            expect(getContextValues(sections)).toMatchObject({ facts: 'No known facts.', websearch: 'No web search results.' });
+        });
+
+        it('should cut the first item rather than drop it', () => {
+            const [section] = assembleContext([{ source: 'websearch', items: ['x'.repeat(100)] }], { websearch: 5 });
+
+            expect(section.text).toBe(`${'x'.repeat(17)}...`);
+            expect(section.included).toBe(1);
+        });
+    });
+
+    describe('injectContextPlaceholders', () => {
+        const sections = assembleContext([
+            { source: 'knowledge', items: ['AF is not tradable yet.'] },
+            { source: 'websearch', items: [] }
+        ]);
+
+        it('should add sections before the final cue of templates without placeholders', () => {
+            expect(injectContextPlaceholders('Answer {{message.content}}\n\nYOUR RESPONSE:', sections))
+                .toBe('Answer {{message.content}}\n\nRETRIEVED CONTEXT:\n\nKNOWLEDGE:\n{{knowledge}}\n\nYOUR RESPONSE:');
+            expect(injectContextPlaceholders('Answer {{message.content}}', sections))
+                .toBe('Answer {{message.content}}\n\nRETRIEVED CONTEXT:\n\nKNOWLEDGE:\n{{knowledge}}');
+        });
+
+        it('should leave templates using the placeholders alone', () => {
+            const template = 'Knowledge: {{knowledge}}\n\nAnswer {{message.content}}';
+            expect(injectContextPlaceholders(template, sections)).toBe(template);
+        });
+    });
+
+    describe('generateResponse', () => {
+        let cache: Map<string, unknown>;
+        let mockRuntime: IAgentRuntime;
+        const settings: Record<string, string> = {
+            ALFAFRENS_SIMILARITY_BACKEND: 'jaccard',
+            ALFAFRENS_FAQ_PATH: join(__dirname, '..', 'docs', 'alfafrens-faq.md')
+        };
+        const webSearch = {
+            search: vi.fn(async () => ({
+                answer: 'AF can not be traded yet.',
+                results: [{ title: 'AF token', url: 'https://alfafrens.com/info' }]
+            }))
+        };
+        const client = { searchKnowledge: vi.fn(async () => [{ content: { text: 'AF is staked on creator channels.' } }]) };
+
+        beforeEach(async () => {
+            cache = new Map();
+            mockRuntime = {
+                agentId: 'agent',
+                character: { name: 'TestBot', adjectives: ['helpful'], topics: ['alfafrens'] },
+                getSetting: vi.fn((key: string) => settings[key] ?? null),
+                getService: vi.fn((type: ServiceType) => type === ServiceType.WEB_SEARCH ? webSearch : null),
+                cacheManager: {
+                    get: vi.fn(async (key: string) => structuredClone(cache.get(key))),
+                    set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+                }
+            } as unknown as IAgentRuntime;
+
+            await new AlfaFrensFactStore(mockRuntime).upsert({ text: 'The AF token is not tradable', confidence: 0.9 });
+            vi.mocked(generateText).mockReset().mockImplementation(async ({ context }) =>
+                context.includes('Extract factual statements') ? '[]' : 'AF is not tradable yet.');
+        });
+
+        it('should give the model the retrieved context with a template without placeholders', async () => {
+            await generateResponse(mockRuntime, client, 'Is the AF token tradable?', [], 'USER: {{message.content}}\n\nYOUR RESPONSE:');
+
+            const prompt = vi.mocked(generateText).mock.calls[0][0].context;
+            expect(prompt).toContain('KNOWN FACTS:\n- The AF token is not tradable');
+            expect(prompt).toContain('[FAQ: AF token > What are the tokenomics > Tradability]');
+            expect(prompt).toContain('AF is staked on creator channels.');
+            expect(prompt).toContain('WEB SEARCH RESULTS:\nAF can not be traded yet.\n1. AF token - https://alfafrens.com/info');
+            expect(prompt.endsWith('\n\nYOUR RESPONSE:')).toBe(true);
+        });
+    });
+});
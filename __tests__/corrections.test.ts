@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { AlfaFrensCorrections } from '../src/extensions/corrections';
+import { handleReviewCommand } from '../src/extensions/fact-review';
+import { AlfaFrensFactStore } from '../src/extensions/fact-store';
+import { FactValidationManager } from '../src/extensions/fact-validation';
+import { JaccardSimilarityBackend } from '../src/extensions/similarity';
+import type { AlfaFrensMessage } from '../src/types';
+
+describe('AlfaFrensCorrections', () => {
+    let cache: Map<string, unknown>;
+    let settings: Record<string, string>;
+    let mockRuntime: IAgentRuntime;
+    let store: AlfaFrensFactStore;
+    let send: ReturnType<typeof vi.fn>;
+    let corrections: AlfaFrensCorrections;
+
+    const sent = (id: string, content: string, timestamp = '2024-03-27T00:00:00Z'): { message: AlfaFrensMessage } => ({
+        message: { id, content, timestamp, senderId: 'bot', senderUsername: 'TestBot' }
+    });
+
+    beforeEach(() => {
+        cache = new Map();
+        settings = {};
+        mockRuntime = {
+            agentId: 'agent',
+            getSetting: vi.fn((key: string) => settings[key] ?? null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => structuredClone(cache.get(key))),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+            }
+        } as unknown as IAgentRuntime;
+        store = new AlfaFrensFactStore(mockRuntime);
+        send = vi.fn(async (_content: string, inReplyTo: string) => `correction-of-${inReplyTo}`);
+        corrections = new AlfaFrensCorrections(mockRuntime, send, {
+            namespace: 'channel-1',
+            similarity: new JaccardSimilarityBackend(),
+            store
+        });
+    });
+
+    it('should reply to the corrected message, at most once and rate-limited', async () => {
+        const first = await corrections.correct('m1', 'Correction: the fee is 3%.', 'test');
+        const limited = await corrections.correct('m2', 'Correction: the token launched in 2024.', 'test');
+
+        expect(first).toMatchObject({ status: 'sent', correctionMessageId: 'correction-of-m1' });
+        expect(send).toHaveBeenCalledWith('Correction: the fee is 3%.', 'm1');
+        expect(limited.status).toBe('rate_limited');
+
+        settings.ALFAFRENS_CORRECTION_MIN_INTERVAL_SECONDS = '0';
+        const unlimited = new AlfaFrensCorrections(mockRuntime, send, { namespace: 'channel-1', store });
+        expect((await unlimited.correct('m1', 'Correction: the fee is 3%.', 'test')).status).toBe('duplicate');
+        expect((await unlimited.listCorrections()).map(record => record.status)).toEqual(['sent', 'rate_limited', 'duplicate']);
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report corrections that could not be sent', async () => {
+        send.mockResolvedValueOnce(undefined);
+
+        expect((await corrections.correct('m1', 'Correction', 'test')).status).toBe('failed');
+        expect((await corrections.correct('m1', 'Correction', 'test')).status).toBe('sent');
+        expect((await corrections.listCorrections()).map(record => record.status)).toEqual(['failed', 'sent']);
+    });
+
+    it('should find sent messages stating a fact', async () => {
+        await corrections.track(sent('m1', 'Welcome! The fee is 5% per trade. Ask me anything.'));
+        await corrections.track(sent('m2', 'AlfaFrens runs on Base.'));
+
+        expect((await corrections.findStatements('The fee is 5% per trade')).map(record => record.id)).toEqual(['m1']);
+    });
+
+    it('should embed sent sentences once when tracking them', async () => {
+        const similarity = new JaccardSimilarityBackend();
+        const embed = vi.spyOn(similarity, 'embed').mockResolvedValue([1, 0]);
+        const rank = vi.spyOn(similarity, 'rank');
+        const tracked = new AlfaFrensCorrections(mockRuntime, send, { namespace: 'channel-1', similarity, store });
+
+        await tracked.track(sent('m1', 'Welcome! The fee is 5% per trade.'));
+        await tracked.findStatements('The fee is 5% per trade');
+
+        expect(embed).toHaveBeenCalledTimes(2);
+        expect(rank.mock.calls[0][1].map(({ text, embedding }) => ({ text, embedding }))).toEqual([
+            { text: 'Welcome!', embedding: [1, 0] },
+            { text: 'The fee is 5% per trade.', embedding: [1, 0] }
+        ]);
+    });
+
+    it('should correct the latest statement of a fact superseded by an approved fact', async () => {
+        const manager = new FactValidationManager(mockRuntime, new JaccardSimilarityBackend(), store);
+        const old = await store.upsert({ text: 'The fee is 5% per trade', confidence: 0.8 });
+        await corrections.track(sent('m1', 'The fee is 5% per trade.', '2024-03-26T00:00:00Z'));
+        await corrections.track(sent('m2', 'Sure! The fee is 5% per trade.', '2024-03-27T00:00:00Z'));
+        const item = await manager.review.submit(
+            'The fee is 3% per trade',
+            { confidence: 0.4, source: 'alice', timestamp: Date.now(), contradictions: [old.text], contradictedFactIds: [old.id] },
+            'contradiction'
+        );
+
+        await handleReviewCommand(manager.review, `/review approve ${item.id}`, 'mod-1', fact => corrections.correctSuperseded(fact).then(() => undefined));
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send).toHaveBeenCalledWith(
+            'Correction: I said "The fee is 5% per trade" earlier, but that\'s not right. The fee is 3% per trade.',
+            'm2'
+        );
+    });
+});
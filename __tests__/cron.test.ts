@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { getNextRun, getRunsBetween, parseCron } from '../src/extensions/cron';
+
+describe('parseCron', () => {
+    it('should parse lists, ranges, steps and names', () => {
+        const schedule = parseCron('*/15 9-11 1,15 JAN-MAR MON');
+
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([9, 10, 11]);
+        expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+        expect([...schedule.months]).toEqual([1, 2, 3]);
+        expect([...schedule.daysOfWeek]).toEqual([1]);
+    });
+
+    it('should reject invalid expressions', () => {
+        expect(() => parseCron('0 17 * *')).toThrow('expected 5 fields');
+        expect(() => parseCron('60 * * * *')).toThrow('bad minute field');
+        expect(() => parseCron('0 17 * * FUNDAY')).toThrow('bad day of week field');
+    });
+});
+
+describe('getNextRun', () => {
+    it('should find the next weekly slot', () => {
+        // 2025-01-01 is a Wednesday
+        const next = getNextRun(parseCron('0 17 * * MON'), new Date('2025-01-01T12:00:00Z'), 'UTC');
+
+        expect(next?.toISOString()).toBe('2025-01-06T17:00:00.000Z');
+    });
+
+    it('should run strictly after the given time', () => {
+        const next = getNextRun(parseCron('0 17 * * *'), new Date('2025-01-01T17:00:00Z'), 'UTC');
+
+        expect(next?.toISOString()).toBe('2025-01-02T17:00:00.000Z');
+    });
+
+    it('should evaluate the expression in the time zone', () => {
+        const next = getNextRun(parseCron('0 9 * * *'), new Date('2025-01-01T00:00:00Z'), 'America/New_York');
+
+        expect(next?.toISOString()).toBe('2025-01-01T14:00:00.000Z');
+    });
+
+    it('should find the first slot after a daylight saving change', () => {
+        // clocks go forward on Sunday 2026-03-08 and back on Sunday 2026-11-01 in New York
+        const spring = getNextRun(parseCron('30 0 * * MON'), new Date('2026-03-07T17:00:00Z'), 'America/New_York');
+        const fall = getNextRun(parseCron('30 0 * * MON'), new Date('2026-10-31T17:00:00Z'), 'America/New_York');
+
+        expect(spring?.toISOString()).toBe('2026-03-09T04:30:00.000Z');
+        expect(fall?.toISOString()).toBe('2026-11-02T05:30:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+        // the 15th or any Sunday
+        const runs = getRunsBetween(parseCron('0 0 15 * SUN'), new Date('2025-01-01T00:00:00Z'), new Date('2025-01-16T00:00:00Z'), 'UTC');
+
+        expect(runs.map(run => run.toISOString().substring(0, 10))).toEqual(['2025-01-05', '2025-01-12', '2025-01-15']);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { ChannelCursor } from '../src/extensions/cursor';
+import type { AlfaFrensMessage } from '../src/types';
+
+const createMessage = (id: string, timestamp: number): AlfaFrensMessage => ({
+    id,
+    content: `message ${id}`,
+    senderId: 'user-1',
+    senderUsername: 'alice',
+    timestamp: new Date(timestamp).toISOString()
+});
+
+describe('ChannelCursor', () => {
+    let cache: Map<string, unknown>;
+    let mockRuntime: IAgentRuntime;
+
+    beforeEach(() => {
+        cache = new Map();
+        mockRuntime = {
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+            }
+        } as unknown as IAgentRuntime;
+    });
+
+    it('should start from now when no cursor was persisted', async () => {
+        const before = Date.now();
+        const cursor = new ChannelCursor(mockRuntime, 'channel');
+
+        await cursor.load(3600000);
+
+        expect(cursor.since).toBeGreaterThanOrEqual(before);
+    });
+
+    it('should resume from the persisted cursor within the max lookback', async () => {
+        const since = Date.now() - 60000;
+        cache.set('alfafrens/channel/cursor', { since, seen: {} });
+        const cursor = new ChannelCursor(mockRuntime, 'channel');
+
+        await cursor.load(3600000);
+
+        expect(cursor.since).toBe(since);
+    });
+
+    it('should cap catch-up at the max lookback', async () => {
+        cache.set('alfafrens/channel/cursor', { since: Date.now() - 86400000, seen: {} });
+        const cursor = new ChannelCursor(mockRuntime, 'channel');
+
+        await cursor.load(3600000);
+
+        expect(cursor.since).toBeGreaterThanOrEqual(Date.now() - 3600000 - 1000);
+    });
+
+    it('should not skip messages sharing a timestamp with a processed one', async () => {
+        const cursor = new ChannelCursor(mockRuntime, 'channel');
+        await cursor.load(3600000);
+        const timestamp = Date.now() + 1000;
+
+        await cursor.markProcessed(createMessage('a', timestamp));
+        const fresh = cursor.filterNew([createMessage('a', timestamp), createMessage('b', timestamp)]);
+
+        expect(cursor.since).toBe(timestamp);
+        expect(fresh.map(m => m.id)).toEqual(['b']);
+    });
+
+    it('should remember processed messages across restarts', async () => {
+        const timestamp = Date.now() + 1000;
+        const first = new ChannelCursor(mockRuntime, 'channel');
+        await first.load(3600000);
+        await first.markProcessed(createMessage('a', timestamp));
+
+        const second = new ChannelCursor(mockRuntime, 'channel');
+        await second.load(3600000);
+
+        expect(second.filterNew([createMessage('a', timestamp)])).toEqual([]);
+    });
+
+    it('should hold the cursor at a failed message until it is processed or given up', async () => {
+        const cursor = new ChannelCursor(mockRuntime, 'channel');
+        await cursor.load(3600000);
+        const now = Date.now();
+        const failed = createMessage('failed', now + 1000);
+
+        expect(await cursor.markFailed(failed, 2)).toBe(true);
+        await cursor.markProcessed(createMessage('later', now + 2000));
+
+        expect(cursor.since).toBe(now + 1000);
+        expect(cursor.filterNew([failed, createMessage('later', now + 2000)]).map(m => m.id)).toEqual(['failed']);
+
+        expect(await cursor.markFailed(failed, 2)).toBe(false);
+        expect(cursor.isProcessed('failed')).toBe(true);
+        await cursor.markProcessed(createMessage('latest', now + 3000));
+        expect(cursor.since).toBe(now + 3000);
+    });
+
+    it('should drop duplicates and order messages by timestamp', async () => {
+        const cursor = new ChannelCursor(mockRuntime, 'channel');
+        await cursor.load(3600000);
+        const now = Date.now();
+
+        const fresh = cursor.filterNew([
+            createMessage('late', now + 2000),
+            createMessage('early', now + 1000),
+            createMessage('late', now + 2000)
+        ]);
+
+        expect(fresh.map(m => m.id)).toEqual(['early', 'late']);
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { AlfaFrensEntityGraph, normalizeEntityName } from '../src/extensions/entity-graph';
+import { AlfaFrensFactStore } from '../src/extensions/fact-store';
+import { FactValidationManager } from '../src/extensions/fact-validation';
+import { JaccardSimilarityBackend } from '../src/extensions/similarity';
+
+describe('AlfaFrensEntityGraph', () => {
+    let cache: Map<string, unknown>;
+    let settings: Record<string, unknown>;
+    let mockRuntime: IAgentRuntime;
+
+    beforeEach(() => {
+        cache = new Map();
+        settings = {};
+        mockRuntime = {
+            agentId: 'agent',
+            getSetting: vi.fn((key: string) => settings[key] ?? null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => structuredClone(cache.get(key))),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+            }
+        } as unknown as IAgentRuntime;
+    });
+
+    it('should normalise entity names', () => {
+        expect(normalizeEntityName('  @Alice ')).toBe('alice');
+        expect(normalizeEntityName("AlfaFrens's")).toBe('alfafrens');
+    });
+
+    it('should count interactions of relationships seen again', async () => {
+        const graph = new AlfaFrensEntityGraph(mockRuntime);
+
+        await graph.addRelationships([{ sourceEntityId: 'Alice', targetEntityId: 'AlfaFrens', tags: ['member'] }], 'fact-1');
+        const entityIds = await graph.addRelationships([{ sourceEntityId: '@alice', targetEntityId: 'alfafrens', tags: ['Creator'] }], 'fact-2');
+
+        expect(entityIds).toEqual(['alice', 'alfafrens']);
+        expect(await graph.getRelationships('ALICE')).toEqual([expect.objectContaining({
+            sourceId: 'alice',
+            targetId: 'alfafrens',
+            tags: ['member', 'creator'],
+            factIds: ['fact-1', 'fact-2'],
+            metadata: { interactions: 2 }
+        })]);
+    });
+
+    it('should resolve configured and added aliases', async () => {
+        settings.ALFAFRENS_ENTITY_ALIASES = { AF: 'AlfaFrens' };
+        const graph = new AlfaFrensEntityGraph(mockRuntime);
+        await graph.addRelationships([{ sourceEntityId: 'Alice', targetEntityId: 'af', tags: ['member'] }]);
+        await graph.addAlias('Ally', 'alice');
+
+        expect((await graph.getEntity('alfafrens'))?.name).toBe('af');
+        expect(await graph.resolve('ally')).toBe('alice');
+        expect((await graph.findRelated('AlfaFrens')).map(entity => entity.id)).toEqual(['alice']);
+    });
+
+    it('should find related entities by tag', async () => {
+        const graph = new AlfaFrensEntityGraph(mockRuntime);
+        await graph.addRelationships([
+            { sourceEntityId: 'Alice', targetEntityId: 'AlfaFrens', tags: ['member'] },
+            { sourceEntityId: 'Bob', targetEntityId: 'AlfaFrens', tags: ['investor'] },
+            { sourceEntityId: 'AlfaFrens', targetEntityId: 'Base', tags: ['built_on'] }
+        ]);
+
+        expect((await graph.findRelated('alfafrens')).map(entity => entity.id)).toEqual(['alice', 'bob', 'base']);
+        expect((await graph.findRelated('alfafrens', { tag: 'investor' })).map(entity => entity.id)).toEqual(['bob']);
+    });
+
+    it('should describe the relationships of entities mentioned in a text', async () => {
+        const graph = new AlfaFrensEntityGraph(mockRuntime);
+        await graph.addRelationships([
+            { sourceEntityId: 'Alice', targetEntityId: 'Microsoft', tags: ['employment'] },
+            { sourceEntityId: 'Bob', targetEntityId: 'Google', tags: ['employment'] }
+        ]);
+
+        expect(await graph.describeMentioned('alice: where does @Alice work?')).toEqual([
+            'Alice → Microsoft (employment, seen 1x)'
+        ]);
+        expect(await graph.describeMentioned('nobody we know')).toEqual([]);
+    });
+
+    it('should be filled when facts are stored', async () => {
+        const manager = new FactValidationManager(mockRuntime, new JaccardSimilarityBackend(), new AlfaFrensFactStore(mockRuntime));
+
+        const stored = await manager.storeFact('Alice works at Microsoft', {
+            confidence: 0.9,
+            source: 'alice',
+            timestamp: Date.now(),
+            contradictions: [],
+            relationships: [{ sourceEntityId: '@Alice', targetEntityId: 'Microsoft', tags: ['employment'] }]
+        });
+
+        expect(stored?.entities).toEqual(['alice', 'microsoft']);
+        expect((await manager.graph.getRelationships('alice'))[0].factIds).toEqual([stored?.id]);
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validateAlfaFrensConfig } from '../src/environment';
+import { validateAlfaFrensConfig, loadAlfaFrensChannelConfigs } from '../src/environment';
 import { IAgentRuntime } from '@elizaos/core';
 
 describe('Environment configuration', () => {
@@ -129,4 +129,47 @@ describe('Environment configuration', () => {
             process.env.ALFAFRENS_API_URL = originalEnv;
         });
     });
-}); 
\ No newline at end of file
+
+    describe('loadAlfaFrensChannelConfigs', () => {
+        const defaults = {
+            apiKey: 'default-key',
+            userId: 'test-user',
+            channelId: 'default-channel',
+            username: 'Test Bot',
+            pollInterval: 15,
+            enablePost: false,
+            postIntervalMin: 3600,
+            postIntervalMax: 7200
+        };
+
+        const runtimeWithChannels = (channels: string | null) => ({
+            getSetting: (key: string) => key === 'ALFAFRENS_CHANNELS' ? channels : null
+        } as unknown as IAgentRuntime);
+
+        it('should use the defaults as the only channel when no list is configured', () => {
+            expect(loadAlfaFrensChannelConfigs(runtimeWithChannels(null), defaults)).toEqual([defaults]);
+        });
+
+        it('should merge channel entries over the defaults', () => {
+            const configs = loadAlfaFrensChannelConfigs(runtimeWithChannels(JSON.stringify([
+                { channelId: 'channel-a' },
+                { channelId: 'channel-b', apiKey: 'key-b', pollInterval: '60', enablePost: true, postTemplate: 'b template' }
+            ])), defaults);
+
+            expect(configs).toEqual([
+                { ...defaults, channelId: 'channel-a' },
+                { ...defaults, channelId: 'channel-b', apiKey: 'key-b', pollInterval: 60, enablePost: true, postTemplate: 'b template' }
+            ]);
+        });
+
+        it('should reject entries without a channel ID', () => {
+            expect(() => loadAlfaFrensChannelConfigs(runtimeWithChannels('[{"apiKey": "x"}]'), defaults))
+                .toThrow('ALFAFRENS_CHANNELS[0] is missing channelId');
+        });
+
+        it('should reject invalid JSON', () => {
+            expect(() => loadAlfaFrensChannelConfigs(runtimeWithChannels('not json'), defaults))
+                .toThrow('ALFAFRENS_CHANNELS must be a JSON array');
+        });
+    });
+});
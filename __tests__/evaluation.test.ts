@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, generateText } from '@elizaos/core';
+import {
+    evaluateMessage,
+    evaluateMessageHeuristically,
+    parseEvaluationResponse
+} from '../src/extensions/utils';
+import type { AlfaFrensMessage } from '../src/types';
+
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        ...actual,
+        generateText: vi.fn()
+    };
+});
+
+const createMessage = (content: string): AlfaFrensMessage => ({
+    id: 'message-12345678',
+    content,
+    senderId: 'user-1',
+    senderUsername: 'alice',
+    timestamp: '2024-03-27T00:00:00Z'
+});
+
+describe('Message evaluation', () => {
+    const mockRuntime = {
+        character: {
+            name: 'TestBot',
+            adjectives: ['helpful'],
+            topics: ['alfafrens']
+        }
+    } as unknown as IAgentRuntime;
+
+    beforeEach(() => {
+        vi.mocked(generateText).mockReset();
+    });
+
+    describe('parseEvaluationResponse', () => {
+        it('should parse a fenced JSON array', () => {
+            const result = parseEvaluationResponse('```json\n[true, "Direct question"]\n```');
+            expect(result).toEqual({ shouldRespond: true, reason: 'Direct question' });
+        });
+
+        it('should parse an unfenced array surrounded by prose', () => {
+            const result = parseEvaluationResponse('Sure! [false, "Just a greeting"] hope that helps');
+            expect(result).toEqual({ shouldRespond: false, reason: 'Just a greeting' });
+        });
+
+        it('should parse an object answer', () => {
+            const result = parseEvaluationResponse('{"respond": "yes", "reason": "asks for help"}');
+            expect(result).toEqual({ shouldRespond: true, reason: 'asks for help' });
+        });
+
+        it('should return null for unparseable output', () => {
+            expect(parseEvaluationResponse('I am not sure what to do here')).toBeNull();
+        });
+    });
+
+    describe('evaluateMessageHeuristically', () => {
+        it('should skip greetings and emojis', () => {
+            expect(evaluateMessageHeuristically(createMessage('gm 🌞')).shouldRespond).toBe(false);
+        });
+
+        it('should respond to questions', () => {
+            const result = evaluateMessageHeuristically(createMessage('how do sparks work?'));
+            expect(result).toEqual({ shouldRespond: true, reason: 'message asks a question', source: 'heuristic' });
+        });
+
+        it('should respond when the bot is mentioned', () => {
+            expect(evaluateMessageHeuristically(createMessage('hey @testbot'), ['TestBot']).shouldRespond).toBe(true);
+        });
+    });
+
+    describe('evaluateMessage', () => {
+        it('should use the model decision and reason', async () => {
+            vi.mocked(generateText).mockResolvedValueOnce('```json\n[false, "Only an emoji"]\n```');
+
+            const result = await evaluateMessage(mockRuntime, createMessage('🔥'), { template: '' });
+
+            expect(result).toEqual({ shouldRespond: false, reason: 'Only an emoji', source: 'llm' });
+            expect(vi.mocked(generateText).mock.calls[0][0].context).toContain('Message: "🔥"');
+        });
+
+        it('should fall back to the heuristic when the output cannot be parsed', async () => {
+            vi.mocked(generateText).mockResolvedValueOnce('no idea');
+
+            const result = await evaluateMessage(mockRuntime, createMessage('what is staking?'), { template: '' });
+
+            expect(result.source).toBe('heuristic');
+            expect(result.shouldRespond).toBe(true);
+        });
+    });
+});
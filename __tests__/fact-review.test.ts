@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, generateText } from '@elizaos/core';
+import { AlfaFrensFactReviewQueue, handleReviewCommand, isModerator, isReviewCommand } from '../src/extensions/fact-review';
+import { AlfaFrensFactStore } from '../src/extensions/fact-store';
+import { FactValidationManager, type FactValidation } from '../src/extensions/fact-validation';
+import { JaccardSimilarityBackend } from '../src/extensions/similarity';
+import type { AlfaFrensMessage } from '../src/types';
+
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        ...actual,
+        generateText: vi.fn()
+    };
+});
+
+describe('AlfaFrensFactReviewQueue', () => {
+    let cache: Map<string, unknown>;
+    let settings: Record<string, string>;
+    let mockRuntime: IAgentRuntime;
+    let store: AlfaFrensFactStore;
+    let manager: FactValidationManager;
+
+    const validation = (overrides: Partial<FactValidation> = {}): FactValidation => ({
+        confidence: 0.4,
+        source: 'alice',
+        messageId: 'm1',
+        timestamp: Date.now(),
+        contradictions: [],
+        ...overrides
+    });
+
+    beforeEach(() => {
+        cache = new Map();
+        settings = { ALFAFRENS_MODERATOR_IDS: 'mod-1, @carol' };
+        mockRuntime = {
+            agentId: 'agent',
+            getSetting: vi.fn((key: string) => settings[key] ?? null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => structuredClone(cache.get(key))),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+            }
+        } as unknown as IAgentRuntime;
+        store = new AlfaFrensFactStore(mockRuntime);
+        manager = new FactValidationManager(mockRuntime, new JaccardSimilarityBackend(), store);
+    });
+
+    it('should queue low-confidence and contradicting facts instead of storing them', async () => {
+        const low = await manager.storeOrReview('The fee is 3%', validation());
+        const contradicting = await manager.storeOrReview('The fee is 4%', validation({ confidence: 0.9, contradictions: ['The fee is 5%'] }));
+        const confirmed = await manager.storeOrReview('The fee is 6%', validation({ confidence: 0.9 }), { requiresConfirmation: true });
+        const stored = await manager.storeOrReview('The token launched in 2024', validation({ confidence: 0.9 }));
+
+        expect(low.review?.reason).toBe('low_confidence');
+        expect(contradicting.review?.reason).toBe('contradiction');
+        expect(confirmed.review?.reason).toBe('requires_confirmation');
+        expect(stored.stored?.text).toBe('The token launched in 2024');
+        expect((await manager.review.listPending()).map(item => item.fact)).toEqual(['The fee is 3%', 'The fee is 4%', 'The fee is 6%']);
+    });
+
+    it('should store facts stated by users unless the model doubts them', async () => {
+        const message: AlfaFrensMessage = {
+            id: 'm1',
+            senderId: 'alice',
+            senderUsername: 'alice',
+            content: 'The fee is 3%. The moon is made of cheese.',
+            timestamp: new Date().toISOString()
+        };
+        vi.mocked(generateText)
+            .mockResolvedValueOnce('[{"statement": 1, "confidence": 0.85}, {"statement": 2, "confidence": 0.2}]')
+            .mockResolvedValueOnce('{"confidence": 0.3, "relationships": []}')
+            .mockResolvedValue('[]');
+
+        const [plausible, doubtful] = await manager.validateFacts(['The fee is 3%', 'The moon is made of cheese'], message);
+        const guessed = await manager.validateFact('The token will be worth $1 tomorrow', message);
+        const unscored = await manager.validateFact('The token launched in 2024', message);
+
+        expect((await manager.storeOrReview(plausible.fact, plausible.validation)).stored?.confidence).toBe(0.85);
+        expect((await manager.storeOrReview(doubtful.fact, doubtful.validation)).review?.reason).toBe('low_confidence');
+        expect((await manager.storeOrReview('The token will be worth $1 tomorrow', guessed)).review?.reason).toBe('low_confidence');
+        expect((await manager.storeOrReview('The token launched in 2024', unscored)).stored?.confidence).toBe(0.8);
+    });
+
+    it('should only queue contradicting facts that don\'t outrank the facts they contradict', async () => {
+        const weak = await store.upsert({ text: 'The fee is 5%', confidence: 0.75, senderId: 'bob' });
+        const confirmed = await store.upsert({ text: 'The token launched in 2024', confidence: 0.75, senderId: 'bob' });
+        await store.upsert({ text: 'The token launched in 2024', confidence: 0.75, senderId: 'carol' });
+
+        const superseding = await manager.storeOrReview('The fee is 3%', validation({
+            confidence: 0.85,
+            contradictions: [weak.text],
+            contradictedFactIds: [weak.id]
+        }));
+        const contradicting = await manager.storeOrReview('The token launched in 2023', validation({
+            confidence: 0.85,
+            contradictions: [confirmed.text],
+            contradictedFactIds: [confirmed.id]
+        }));
+
+        expect(superseding.stored?.supersedes).toEqual([weak.id]);
+        expect(contradicting.review?.reason).toBe('contradiction');
+    });
+
+    it('should not queue a pending fact twice', async () => {
+        const first = await manager.review.submit('The fee is 3%', validation(), 'low_confidence');
+        const second = await manager.review.submit('the fee is 3%.', validation(), 'low_confidence');
+
+        expect(second.id).toBe(first.id);
+        expect(await manager.review.listPending()).toHaveLength(1);
+    });
+
+    it('should store approved facts with elevated confidence, superseding contradicted facts', async () => {
+        const old = await store.upsert({ text: 'The fee is 5%', confidence: 0.8, senderId: 'bob' });
+        const item = await manager.review.submit(
+            'The fee is 3%',
+            validation({ contradictions: [old.text], contradictedFactIds: [old.id] }),
+            'contradiction'
+        );
+
+        const stored = await manager.review.approve(item.id.slice(0, 8), 'mod-1');
+
+        expect(stored).toMatchObject({ text: 'The fee is 3%', confidence: 0.95, supersedes: [old.id] });
+        expect((await store.get(old.id))?.supersededBy).toBe(stored?.id);
+        expect(await manager.review.get(item.id)).toMatchObject({ status: 'approved', reviewedBy: 'mod-1' });
+        expect(await manager.review.approve(item.id, 'mod-1')).toBeNull();
+    });
+
+    it('should handle review commands', async () => {
+        const item = await manager.review.submit('The fee is 3%', validation({ contradictions: ['The fee is 5%'] }), 'contradiction', {
+            senderId: 'alice',
+            senderUsername: 'alice'
+        });
+        const other = await manager.review.submit('The fee is 9%', validation(), 'low_confidence');
+        const shortId = item.id.slice(0, 8);
+
+        const list = await handleReviewCommand(manager.review, '/review', 'mod-1');
+        expect(list).toContain(`[${shortId}] The fee is 3% (confidence 0.40, from alice, contradicts: The fee is 5%)`);
+
+        expect(await handleReviewCommand(manager.review, `/review edit ${shortId} The fee is 3.5%`, 'mod-1'))
+            .toBe('Approved as edited: The fee is 3.5%');
+        expect(await handleReviewCommand(manager.review, `/review reject ${other.id}`, 'mod-1')).toBe(`Rejected ${other.id}.`);
+        expect(await handleReviewCommand(manager.review, '/review', 'mod-1')).toBe('No facts waiting for review.');
+        expect(await handleReviewCommand(manager.review, '/review approve', 'mod-1')).toContain('Usage');
+    });
+
+    it('should recognise moderators and review commands', () => {
+        expect(isModerator(mockRuntime, 'mod-1')).toBe(true);
+        expect(isModerator(mockRuntime, 'user-2', '@carol')).toBe(false);
+        expect(isModerator(mockRuntime, 'user-3', 'dave')).toBe(false);
+
+        settings.ALFAFRENS_MODERATOR_USERNAMES = '@carol';
+        expect(isModerator(mockRuntime, 'user-2', 'carol')).toBe(true);
+        expect(isReviewCommand(' /review approve abc')).toBe(true);
+        expect(isReviewCommand('/reviewer')).toBe(false);
+    });
+});
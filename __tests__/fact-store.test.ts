@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { AlfaFrensFactStore, getFactId, getFactPriority, normalizeFactText } from '../src/extensions/fact-store';
+import { FactValidationManager } from '../src/extensions/fact-validation';
+import { JaccardSimilarityBackend } from '../src/extensions/similarity';
+
+describe('AlfaFrensFactStore', () => {
+    let cache: Map<string, unknown>;
+    let mockRuntime: IAgentRuntime;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+        cache = new Map();
+        mockRuntime = {
+            agentId: 'agent',
+            getSetting: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => structuredClone(cache.get(key))),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+            }
+        } as unknown as IAgentRuntime;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should derive the same ID from differently formatted text', () => {
+        expect(normalizeFactText('  The token  launched in 2024. ')).toBe('the token launched in 2024');
+        expect(getFactId('The token launched in 2024.')).toBe(getFactId('the token launched in 2024'));
+    });
+
+    it('should confirm a fact seen again instead of storing it twice', async () => {
+        const store = new AlfaFrensFactStore(mockRuntime);
+
+        await store.upsert({ text: 'The token launched in 2024', confidence: 0.7, senderId: 'alice', messageId: 'm1' });
+        vi.advanceTimersByTime(60000);
+        const fact = await store.upsert({ text: 'the token launched in 2024.', confidence: 0.9, senderId: 'bob', messageId: 'm2' });
+
+        expect(fact).toMatchObject({
+            text: 'The token launched in 2024',
+            confidence: 0.9,
+            confirmations: 1,
+            firstSeenAt: Date.now() - 60000,
+            lastSeenAt: Date.now()
+        });
+        expect(fact.sources.map(source => source.messageId)).toEqual(['m1', 'm2']);
+        expect(await store.getRecent()).toHaveLength(1);
+    });
+
+    it('should link superseded facts and hide them from queries', async () => {
+        const store = new AlfaFrensFactStore(mockRuntime);
+        const old = await store.upsert({ text: 'The fee is 5%', confidence: 0.8, senderId: 'alice', entities: ['Fee'] });
+        const current = await store.upsert({ text: 'The fee is 3%', confidence: 0.8, senderId: 'bob', entities: ['fee'], supersedes: [old.id] });
+
+        expect(current.supersedes).toEqual([old.id]);
+        expect((await store.get(old.id))?.supersededBy).toBe(current.id);
+        expect((await store.findByEntity('FEE')).map(fact => fact.id)).toEqual([current.id]);
+        expect(await store.findByEntity('fee', { includeSuperseded: true })).toHaveLength(2);
+
+        await store.remove(current.id);
+        expect((await store.get(old.id))?.supersededBy).toBeUndefined();
+    });
+
+    it('should find facts by source and recency', async () => {
+        const store = new AlfaFrensFactStore(mockRuntime);
+        await store.upsert({ text: 'First fact', confidence: 0.8, senderId: 'alice', messageId: 'm1' });
+        vi.advanceTimersByTime(1000);
+        await store.upsert({ text: 'Second fact', confidence: 0.8, senderId: 'bob', messageId: 'm2' });
+
+        expect((await store.findBySource('alice')).map(fact => fact.text)).toEqual(['First fact']);
+        expect((await store.findBySource('m2')).map(fact => fact.text)).toEqual(['Second fact']);
+        expect((await store.getRecent({ limit: 1 })).map(fact => fact.text)).toEqual(['Second fact']);
+        expect(await store.getRecent({ since: Date.now() })).toHaveLength(1);
+    });
+
+    it('should keep concurrent updates of stores sharing the cache key', async () => {
+        const first = new AlfaFrensFactStore(mockRuntime);
+        const second = new AlfaFrensFactStore(mockRuntime);
+
+        await Promise.all([
+            first.upsert({ text: 'First fact', confidence: 0.8, senderId: 'alice' }),
+            second.upsert({ text: 'Second fact', confidence: 0.8, senderId: 'bob' }),
+            first.upsert({ text: 'Third fact', confidence: 0.8, senderId: 'carol' })
+        ]);
+
+        expect(await second.getRecent()).toHaveLength(3);
+        expect(Object.keys((cache.get('alfafrens/facts') as { facts: object }).facts)).toHaveLength(3);
+        // the facts, their embeddings and their priorities are each read once
+        expect(mockRuntime.cacheManager.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep embeddings and retrieval priorities apart from the facts', async () => {
+        const store = new AlfaFrensFactStore(mockRuntime);
+        const fact = await store.upsert({ text: 'The fee is 3%', confidence: 0.8, senderId: 'alice', embedding: [0.1, 0.2] });
+        vi.mocked(mockRuntime.cacheManager.set).mockClear();
+
+        await store.markRetrieved([fact.id]);
+
+        expect(vi.mocked(mockRuntime.cacheManager.set).mock.calls.map(([key]) => key)).toEqual(['alfafrens/facts/usage']);
+        expect((cache.get('alfafrens/facts') as { facts: Record<string, object> }).facts[fact.id]).not.toHaveProperty('embedding');
+        expect(await store.get(fact.id)).toMatchObject({ embedding: [0.1, 0.2], priority: { accessCount: 1 } });
+
+        await store.remove(fact.id);
+        expect(cache.get('alfafrens/facts/embeddings')).toEqual({});
+        expect(cache.get('alfafrens/facts/usage')).toEqual({});
+    });
+
+    it('should be used by fact validation for storage and lookup', async () => {
+        const store = new AlfaFrensFactStore(mockRuntime);
+        const manager = new FactValidationManager(mockRuntime, new JaccardSimilarityBackend(), store);
+
+        const stored = await manager.storeFact('The token launched in 2024', {
+            confidence: 0.8,
+            source: 'alice',
+            messageId: 'm1',
+            timestamp: Date.now(),
+            contradictions: [],
+            relationships: [{ sourceEntityId: 'Token', targetEntityId: '2024', tags: ['launch'] }]
+        });
+
+        expect(stored).toMatchObject({ entities: ['token', '2024'], sources: [{ senderId: 'alice', messageId: 'm1' }] });
+        expect(await manager.storeFact('Unsure fact', { confidence: 0.1, source: 'alice', timestamp: Date.now(), contradictions: [] }))
+            .toBeNull();
+        expect(await store.getRecent()).toHaveLength(1);
+    });
+
+    describe('priority', () => {
+        const day = 24 * 60 * 60 * 1000;
+
+        it('should decay over time and rise when facts are used or confirmed', async () => {
+            const store = new AlfaFrensFactStore(mockRuntime);
+            const fact = await store.upsert({ text: 'The fee is 3%', confidence: 0.8, senderId: 'alice' });
+
+            vi.advanceTimersByTime(30 * day);
+            expect(getFactPriority(fact, store.priority.halfLifeMs)).toBeCloseTo(0.4);
+
+            await store.markRetrieved([fact.id]);
+            const retrieved = await store.get(fact.id);
+            expect(retrieved?.priority).toEqual({ importance: expect.closeTo(0.5), lastAccessed: Date.now(), accessCount: 1 });
+
+            const confirmed = await store.upsert({ text: 'The fee is 3%', confidence: 0.8, senderId: 'bob' });
+            expect(confirmed.priority.importance).toBeCloseTo(0.7);
+        });
+
+        it('should archive facts whose priority decayed', async () => {
+            const store = new AlfaFrensFactStore(mockRuntime);
+            const stale = await store.upsert({ text: 'Old news', confidence: 0.8, senderId: 'alice' });
+            vi.advanceTimersByTime(100 * day);
+            await store.upsert({ text: 'Fresh news', confidence: 0.8, senderId: 'alice' });
+
+            const archived = await store.archiveLowPriority();
+
+            expect(archived.map(fact => fact.id)).toEqual([stale.id]);
+            expect((await store.getRecent()).map(fact => fact.text)).toEqual(['Fresh news']);
+            expect((await store.listArchived()).map(fact => fact.text)).toEqual(['Old news']);
+        });
+
+        it('should blend similarity with priority when retrieving facts for a prompt', async () => {
+            const store = new AlfaFrensFactStore(mockRuntime);
+            const manager = new FactValidationManager(mockRuntime, new JaccardSimilarityBackend(), store);
+            await store.upsert({ text: 'The token fee is 3% on trades', confidence: 1, senderId: 'alice' });
+            vi.advanceTimersByTime(120 * day);
+            await store.upsert({ text: 'The token fee is 3% on all trades', confidence: 1, senderId: 'alice' });
+
+            const facts = await manager.retrieveFacts('token fee 3% trades', 1);
+
+            expect(facts.map(fact => fact.text)).toEqual(['The token fee is 3% on all trades']);
+            expect((await store.get(facts[0].id))?.priority.accessCount).toBe(1);
+        });
+    });
+});
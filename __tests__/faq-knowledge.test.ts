@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { mkdtemp, readFile, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AlfaFrensFaqKnowledge, formatFaqMatches, parseFaqMarkdown } from '../src/extensions/faq-knowledge';
+
+const FAQ_PATH = join(__dirname, '..', 'docs', 'alfafrens-faq.md');
+
+describe('AlfaFrensFaqKnowledge', () => {
+    let settings: Record<string, string>;
+    let mockRuntime: IAgentRuntime;
+    let dir: string;
+
+    beforeEach(async () => {
+        settings = {};
+        mockRuntime = {
+            getSetting: vi.fn((key: string) => settings[key] ?? null)
+        } as unknown as IAgentRuntime;
+        dir = await mkdtemp(join(tmpdir(), 'alfafrens-faq-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    describe('parseFaqMarkdown', () => {
+        it('should keep the section path and variant of each answer', async () => {
+            const chunks = parseFaqMarkdown(await readFile(FAQ_PATH, 'utf-8'));
+            const ids = chunks.map(chunk => chunk.id);
+
+            expect(ids).toContain('What is AlfaFrens');
+            expect(ids).toContain('What is AlfaFrens (technical)');
+            expect(ids).toContain('AF token > What are the tokenomics > AF treasury address');
+            // questions without an answer are skipped
+            expect(ids.some(id => id.startsWith('Superfluid'))).toBe(false);
+
+            const leaderboards = chunks.find(chunk => chunk.question === 'Leaderboards');
+            expect(leaderboards?.path).toEqual(['What can I do on AlfaFrens', 'Finding Channels', 'How do I use the Explore page', 'Leaderboards']);
+            expect(leaderboards?.answer).toContain('7. Top Stake: These channels have the most staked AF');
+        });
+
+        it('should add continuation lines to the answer', () => {
+            const [chunk] = parseFaqMarkdown([
+                '# FAQ',
+                '1. **Staking**',
+                '    1. RESPONSE: Stake in channels.',
+                '    Unstaking triggers a cooldown.',
+                '2. **Unanswered**'
+            ].join('\n'));
+
+            expect(chunk).toEqual({
+                id: 'Staking',
+                path: ['Staking'],
+                question: 'Staking',
+                answer: 'Stake in channels.\nUnstaking triggers a cooldown.',
+                variant: undefined
+            });
+        });
+    });
+
+    describe('search', () => {
+        it('should find answers with their citations', async () => {
+            const faq = new AlfaFrensFaqKnowledge(mockRuntime, { path: FAQ_PATH });
+
+            const matches = await faq.search('Is the AF token tradable?');
+
+            expect(matches[0].citation).toBe('AF token > What are the tokenomics > Tradability');
+            expect(formatFaqMatches(matches.slice(0, 1)))
+                .toBe('[FAQ: AF token > What are the tokenomics > Tradability]\nCurrently AF is not tradable, however tradability is on the roadmap for the team to pursue.');
+        });
+
+        it('should use the FAQ configured in ALFAFRENS_FAQ_PATH', async () => {
+            const path = join(dir, 'faq.md');
+            await writeFile(path, '1. **Fees**\n    1. RESPONSE: The fee is 5%.\n');
+            settings.ALFAFRENS_FAQ_PATH = path;
+
+            const matches = await new AlfaFrensFaqKnowledge(mockRuntime).search('What is the fee?');
+
+            expect(matches.map(match => match.citation)).toEqual(['Fees']);
+        });
+
+        it('should read the FAQ again when it changed', async () => {
+            const path = join(dir, 'faq.md');
+            await writeFile(path, '1. **Fees**\n    1. RESPONSE: The fee is 5%.\n');
+            const faq = new AlfaFrensFaqKnowledge(mockRuntime, { path });
+            expect((await faq.search('fee'))[0].chunk.answer).toBe('The fee is 5%.');
+
+            await writeFile(path, '1. **Fees**\n    1. RESPONSE: The fee is 3%.\n');
+            const later = new Date(Date.now() + 60_000);
+            await utimes(path, later, later);
+
+            expect((await faq.search('fee'))[0].chunk.answer).toBe('The fee is 3%.');
+        });
+    });
+});
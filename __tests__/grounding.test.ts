@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, generateText } from '@elizaos/core';
+import { join } from 'path';
+import { decideGrounding, isProductQuestion, loadGroundingConfig } from '../src/extensions/grounding';
+import { JaccardSimilarityBackend } from '../src/extensions/similarity';
+import { generateResponse } from '../src/extensions/utils';
+import type { AlfaFrensGroundingDecision } from '../src/types';
+
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        ...actual,
+        generateText: vi.fn()
+    };
+});
+
+describe('Grounding', () => {
+    let settings: Record<string, string>;
+    let mockRuntime: IAgentRuntime;
+    const client = { searchKnowledge: vi.fn(async () => []) };
+
+    beforeEach(() => {
+        settings = {
+            ALFAFRENS_SIMILARITY_BACKEND: 'jaccard',
+            ALFAFRENS_FAQ_PATH: join(__dirname, '..', 'docs', 'alfafrens-faq.md'),
+            ALFAFRENS_GROUNDING_MODE: 'refuse',
+            ALFAFRENS_GROUNDING_FALLBACK: "I don't know, check https://alfafrens.com/info"
+        };
+        mockRuntime = {
+            agentId: 'agent',
+            character: { name: 'TestBot', adjectives: ['helpful'], topics: ['alfafrens'] },
+            getSetting: vi.fn((key: string) => settings[key] ?? null),
+            getService: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async () => undefined),
+                set: vi.fn(async () => undefined)
+            }
+        } as unknown as IAgentRuntime;
+
+        vi.mocked(generateText).mockReset().mockImplementation(async ({ context }) =>
+            context.includes('Extract factual statements') ? '[]' : 'Generated answer');
+    });
+
+    it('should recognise questions about AlfaFrens', () => {
+        expect(isProductQuestion('How much cashback do stakers get?')).toBe(true);
+        expect(isProductQuestion('what are sparks')).toBe(true);
+        expect(isProductQuestion('I love staking')).toBe(false);
+        expect(isProductQuestion('How is the weather today?')).toBe(false);
+    });
+
+    it('should only count chunks above the threshold as support', async () => {
+        const config = loadGroundingConfig(mockRuntime);
+        const chunks = [
+            { id: 'faq:Tradability', text: 'Currently AF is not tradable.', title: 'AF token Tradability' },
+            { id: 'faq:Website', text: 'https://alfafrens.com/info', title: 'Website' }
+        ];
+
+        const supported = await decideGrounding('Is the AF token tradable?', chunks, config, new JaccardSimilarityBackend());
+        const unsupported = await decideGrounding('How much cashback do stakers get?', chunks, config, new JaccardSimilarityBackend());
+
+        expect(supported).toMatchObject({ action: 'answer', productQuestion: true, supportingChunkIds: ['faq:Tradability'] });
+        expect(unsupported).toEqual({ action: 'refuse', productQuestion: true, supportingChunkIds: [], similarity: 0 });
+    });
+
+    describe('generateResponse', () => {
+        const respond = async (message: string) => {
+            let decision: AlfaFrensGroundingDecision | undefined;
+            const response = await generateResponse(mockRuntime, client, message, [], '{{message.content}}\n\nYOUR RESPONSE:', undefined, {
+                onGrounding: grounding => { decision = grounding; }
+            });
+            return { response, decision };
+        };
+
+        it('should reply with the fallback when no knowledge supports an answer', async () => {
+            const { response, decision } = await respond('How much cashback per spark do stakers get in season 5?');
+
+            expect(response).toBe("I don't know, check https://alfafrens.com/info");
+            expect(decision?.action).toBe('refuse');
+            expect(generateText).not.toHaveBeenCalled();
+        });
+
+        it('should answer supported questions and report the supporting chunks', async () => {
+            const { response, decision } = await respond('Is the AF token tradable?');
+
+            expect(response).toBe('Generated answer');
+            expect(decision?.action).toBe('answer');
+            expect(decision?.supportingChunkIds).toContain('faq:AF token > What are the tokenomics > Tradability');
+        });
+
+        it('should tell the model to hedge in hedge mode', async () => {
+            settings.ALFAFRENS_GROUNDING_MODE = 'hedge';
+
+            const { response, decision } = await respond('How much cashback per spark do stakers get in season 5?');
+
+            expect(response).toBe('Generated answer');
+            expect(decision?.action).toBe('hedge');
+            const prompt = vi.mocked(generateText).mock.calls[0][0].context;
+            expect(prompt).toContain('GROUNDING:\nThe knowledge doesn\'t cover this question.');
+            expect(prompt.endsWith('YOUR RESPONSE:')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { formatConversationHistory, isBotMessage } from '../src/extensions/history';
+import type { AlfaFrensMessage } from '../src/types';
+
+const createMessage = (id: string, senderId: string, senderUsername: string, content: string, replyTo?: string): AlfaFrensMessage => ({
+    id,
+    content,
+    senderId,
+    senderUsername,
+    timestamp: '2025-01-01T12:00:00.000Z',
+    replyTo
+});
+
+describe('isBotMessage', () => {
+    const options = {
+        botUserId: 'bot-id',
+        botUsername: '@Assistant',
+        sentMessageIds: new Set(['sent-1'])
+    };
+
+    it('should match by user ID, normalised username or sent message ID', () => {
+        expect(isBotMessage(createMessage('1', 'bot-id', 'someone', 'hi'), options)).toBe(true);
+        expect(isBotMessage(createMessage('2', 'other', 'assistant', 'hi'), options)).toBe(true);
+        expect(isBotMessage(createMessage('sent-1', 'other', 'someone', 'hi'), options)).toBe(true);
+    });
+
+    it('should not match other users', () => {
+        expect(isBotMessage(createMessage('3', 'user-1', 'alice', 'hi'), options)).toBe(false);
+    });
+});
+
+describe('formatConversationHistory', () => {
+    it('should label roles and mark replies with timestamps', () => {
+        const history = formatConversationHistory([
+            createMessage('q', 'user-1', 'alice', 'What is AlfaFrens?'),
+            createMessage('a', 'bot-id', 'assistant', 'A social platform.', 'q')
+        ], { botUserId: 'bot-id' });
+
+        expect(history).toBe(
+            '[2025-01-01 12:00] USER (alice): What is AlfaFrens?\n\n' +
+            '[2025-01-01 12:00] ASSISTANT (replying to USER (alice)): A social platform.'
+        );
+    });
+
+    it('should drop the oldest messages beyond the token budget', () => {
+        const history = formatConversationHistory([
+            createMessage('1', 'user-1', 'alice', 'x'.repeat(200)),
+            createMessage('2', 'user-1', 'alice', 'latest question')
+        ], { tokenBudget: 20 });
+
+        expect(history).toBe('[1 earlier message omitted]\n\n[2025-01-01 12:00] USER (alice): latest question');
+    });
+
+    it('should return a placeholder for an empty history', () => {
+        expect(formatConversationHistory([])).toBe('No previous messages.');
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { PostScheduler, getQuietDelay, parseQuietHours } from '../src/extensions/post-scheduler';
+
+describe('PostScheduler', () => {
+    let cache: Map<string, unknown>;
+    let mockRuntime: IAgentRuntime;
+    const post = vi.fn();
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2025-01-01T12:00:00.000Z'));
+        post.mockReset().mockResolvedValue(undefined);
+        cache = new Map();
+        mockRuntime = {
+            cacheManager: {
+                get: vi.fn(async (key: string) => cache.get(key)),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, value); })
+            }
+        } as unknown as IAgentRuntime;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const createScheduler = (options = {}) => new PostScheduler(mockRuntime, 'channel', post, {
+        minIntervalSeconds: 60,
+        maxIntervalSeconds: 120,
+        timeZone: 'UTC',
+        ...options
+    });
+
+    it('should post within the interval and persist the time of the post', async () => {
+        const scheduler = createScheduler();
+        await scheduler.start();
+
+        await vi.advanceTimersByTimeAsync(120000);
+
+        expect(post).toHaveBeenCalledTimes(1);
+        expect(cache.get('alfafrens/channel/last-post-at')).toBeTypeOf('number');
+        scheduler.stop();
+    });
+
+    it('should post right away when a post is overdue after a restart', async () => {
+        cache.set('alfafrens/channel/last-post-at', Date.now() - 3600000);
+        const scheduler = createScheduler();
+        await scheduler.start();
+
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(post).toHaveBeenCalledTimes(1);
+        scheduler.stop();
+    });
+
+    it('should not post while paused', async () => {
+        const scheduler = createScheduler();
+        await scheduler.start();
+        scheduler.pause();
+
+        await vi.advanceTimersByTimeAsync(600000);
+        expect(post).not.toHaveBeenCalled();
+
+        scheduler.resume();
+        await vi.advanceTimersByTimeAsync(120000);
+        expect(post).toHaveBeenCalledTimes(1);
+        scheduler.stop();
+    });
+
+    it('should move posts out of quiet hours', async () => {
+        const scheduler = createScheduler({ quietHours: '11:00-13:00' });
+        await scheduler.start();
+
+        expect(scheduler.nextPostAt).toBe(new Date('2025-01-01T13:00:00.000Z').getTime());
+        scheduler.stop();
+    });
+});
+
+describe('quiet hours', () => {
+    it('should parse quiet hours spanning midnight', () => {
+        expect(parseQuietHours('22:00-07:30')).toEqual({ start: 1320, end: 450 });
+        expect(parseQuietHours('late')).toBeUndefined();
+    });
+
+    it('should compute the delay until the end of the quiet period', () => {
+        const quietHours = parseQuietHours('22:00-07:00');
+
+        expect(getQuietDelay(new Date('2025-01-01T23:00:00.000Z'), quietHours, 'UTC')).toBe(8 * 3600000);
+        expect(getQuietDelay(new Date('2025-01-01T12:00:00.000Z'), quietHours, 'UTC')).toBe(0);
+    });
+
+    it('should evaluate quiet hours in the configured time zone', () => {
+        const quietHours = parseQuietHours('22:00-07:00');
+
+        // 05:00 UTC is 14:00 in Tokyo
+        expect(getQuietDelay(new Date('2025-01-01T05:00:00.000Z'), quietHours, 'Asia/Tokyo')).toBe(0);
+        expect(getQuietDelay(new Date('2025-01-01T05:00:00.000Z'), quietHours, 'America/New_York')).toBe(7 * 3600000);
+    });
+});
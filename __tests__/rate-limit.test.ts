@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import {
+    DEFAULT_REPLY_RATE_LIMITS,
+    loadReplyRateLimitConfig,
+    parseRateLimit,
+    ReplyRateLimiter,
+    TokenBucket
+} from '../src/extensions/rate-limit';
+import type { AlfaFrensMessage } from '../src/types';
+
+const start = Date.parse('2024-03-27T00:00:00Z');
+
+const createMessage = (id: string, at: number, senderId = 'alice', replyTo?: string): AlfaFrensMessage => ({
+    id,
+    content: `message ${id}`,
+    senderId,
+    senderUsername: senderId,
+    timestamp: new Date(at).toISOString(),
+    replyTo
+});
+
+describe('Reply rate limits', () => {
+    const limitsOnly = { ...DEFAULT_REPLY_RATE_LIMITS, threadCooldownMs: 0 };
+
+    it('should parse limits and fall back on invalid ones', () => {
+        expect(parseRateLimit('3 / 30', null)).toEqual({ replies: 3, periodSeconds: 30 });
+        expect(parseRateLimit('off', { replies: 1, periodSeconds: 1 })).toBeNull();
+        expect(parseRateLimit('lots', { replies: 1, periodSeconds: 1 })).toEqual({ replies: 1, periodSeconds: 1 });
+
+        const settings: Record<string, string> = { ALFAFRENS_RATE_LIMIT_PER_CHANNEL: '0', ALFAFRENS_THREAD_COOLDOWN_SECONDS: '30' };
+        const runtime = { getSetting: vi.fn((key: string) => settings[key] ?? null) } as unknown as IAgentRuntime;
+        expect(loadReplyRateLimitConfig(runtime)).toMatchObject({
+            sender: DEFAULT_REPLY_RATE_LIMITS.sender,
+            channel: null,
+            threadCooldownMs: 30000
+        });
+    });
+
+    it('should refill token buckets over the period', () => {
+        const bucket = new TokenBucket({ replies: 2, periodSeconds: 60 }, start);
+
+        expect(bucket.take(start)).toBe(true);
+        expect(bucket.take(start)).toBe(true);
+        expect(bucket.take(start)).toBe(false);
+        expect(bucket.waitTime(start)).toBe(30000);
+        expect(bucket.take(start + 30000)).toBe(true);
+    });
+
+    it('should limit replies per sender, thread and channel', () => {
+        const limiter = new ReplyRateLimiter({
+            ...limitsOnly,
+            sender: { replies: 2, periodSeconds: 60 },
+            thread: { replies: 3, periodSeconds: 60 },
+            channel: { replies: 4, periodSeconds: 60 }
+        });
+
+        expect(limiter.acquire(createMessage('1', start), 't1', start).allowed).toBe(true);
+        expect(limiter.acquire(createMessage('2', start), 't1', start).allowed).toBe(true);
+        expect(limiter.acquire(createMessage('3', start), 't2', start)).toEqual({ allowed: false, reason: 'sender', retryAfterMs: 30000 });
+        expect(limiter.acquire(createMessage('4', start, 'bob'), 't1', start).allowed).toBe(true);
+        expect(limiter.acquire(createMessage('5', start, 'carol'), 't1', start).reason).toBe('thread');
+        expect(limiter.acquire(createMessage('6', start, 'carol'), 't3', start).allowed).toBe(true);
+        expect(limiter.acquire(createMessage('7', start, 'dave'), 't4', start).reason).toBe('channel');
+
+        expect(limiter.getMetrics(start)).toMatchObject({ allowed: 4, limited: { sender: 1, thread: 1, channel: 1 } });
+    });
+
+    it('should wait the cooldown after replying in a thread', () => {
+        const limiter = new ReplyRateLimiter({ ...DEFAULT_REPLY_RATE_LIMITS, threadCooldownMs: 10000 });
+
+        limiter.acquire(createMessage('1', start), 't1', start);
+
+        expect(limiter.check(createMessage('2', start, 'bob'), 't1', start + 5000)).toEqual({ allowed: false, reason: 'cooldown', retryAfterMs: 5000 });
+        expect(limiter.check(createMessage('3', start, 'bob'), 't2', start + 5000).allowed).toBe(true);
+        expect(limiter.check(createMessage('4', start, 'bob'), 't1', start + 10000).allowed).toBe(true);
+    });
+
+    it('should pause replies to a sender answering the bot too fast', () => {
+        const limiter = new ReplyRateLimiter({ ...limitsOnly, loopReplyMs: 5000, loopMaxFastReplies: 2, loopPauseMs: 60000 });
+        const now = start + 10000;
+
+        limiter.trackSent(createMessage('r1', start, 'bot'));
+        limiter.trackSent(createMessage('r2', start + 5000, 'bot'));
+
+        expect(limiter.observe(createMessage('slow', start + 6000, 'other-bot', 'r1'), now)).toBe(false);
+        expect(limiter.observe(createMessage('a', start + 1000, 'other-bot', 'r1'), now)).toBe(false);
+        expect(limiter.observe(createMessage('b', start + 6000, 'other-bot', 'r2'), now)).toBe(true);
+
+        expect(limiter.check(createMessage('c', now, 'other-bot'), 't1', now)).toEqual({ allowed: false, reason: 'loop', retryAfterMs: 60000 });
+        expect(limiter.check(createMessage('d', now, 'alice'), 't1', now).allowed).toBe(true);
+        expect(limiter.getMetrics(now)).toMatchObject({ loopsDetected: 1, pausedSenders: ['other-bot'] });
+        expect(limiter.check(createMessage('e', now + 60000, 'other-bot'), 't1', now + 60000).allowed).toBe(true);
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, generateText } from '@elizaos/core';
+import { generateResponse, type DeferredResponseValidation } from '../src/extensions/utils';
+import { AlfaFrensCorrections } from '../src/extensions/corrections';
+import { AlfaFrensTaskManager } from '../src/extensions/tasks';
+import { AlfaFrensFactStore } from '../src/extensions/fact-store';
+import { AlfaFrensFactReviewQueue } from '../src/extensions/fact-review';
+
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        ...actual,
+        generateText: vi.fn()
+    };
+});
+
+describe('Response fact validation', () => {
+    let cache: Map<string, unknown>;
+    let settings: Record<string, string>;
+    let mockRuntime: IAgentRuntime;
+    const client = { searchKnowledge: vi.fn(async () => []) };
+
+    const respond = (onDeferredValidation?: (validation: DeferredResponseValidation) => void) =>
+        generateResponse(mockRuntime, client, 'When did AlfaFrens launch?', [], '{{message.content}}', undefined, { onDeferredValidation });
+
+    const prompts = () => vi.mocked(generateText).mock.calls.map(([options]) => options.context);
+
+    beforeEach(async () => {
+        cache = new Map();
+        settings = { ALFAFRENS_SIMILARITY_BACKEND: 'jaccard' };
+        mockRuntime = {
+            agentId: 'agent',
+            character: { name: 'TestBot', adjectives: ['helpful'], topics: ['alfafrens'] },
+            getSetting: vi.fn((key: string) => settings[key] ?? null),
+            getService: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => structuredClone(cache.get(key))),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+            }
+        } as unknown as IAgentRuntime;
+
+        await new AlfaFrensFactStore(mockRuntime).upsert({ text: 'AlfaFrens launched in 2024', confidence: 0.9 });
+
+        vi.mocked(generateText).mockReset().mockImplementation(async ({ context }) => {
+            if (context.includes('Extract factual statements')) return '["AlfaFrens launched in 2023", "AlfaFrens runs on Base"]';
+            if (context.includes('Check these new statements')) {
+                return JSON.stringify([
+                    { statement: 1, contradicts: [1], certainty: 0.9 },
+                    { statement: 2, contradicts: [], relationships: [{ sourceEntityId: 'AlfaFrens', targetEntityId: 'Base', tags: ['built_on'] }] }
+                ]);
+            }
+            if (context.includes('follow-up message')) return 'Correction: AlfaFrens launched in 2024.';
+            if (context.includes('Revised response')) return 'AlfaFrens launched in 2024.';
+            return 'AlfaFrens launched in 2023 and runs on Base.';
+        });
+    });
+
+    it('should validate all facts of a response with one model call', async () => {
+        const response = await respond();
+
+        expect(response).toBe('AlfaFrens launched in 2024.');
+        expect(prompts().filter(prompt => prompt.includes('Check these new statements'))).toHaveLength(1);
+        expect(prompts().find(prompt => prompt.includes('Revised response')))
+            .toContain('"AlfaFrens launched in 2023" contradicts known facts: AlfaFrens launched in 2024');
+        expect(generateText).toHaveBeenCalledTimes(4);
+    });
+
+    it('should hold contradicting facts of a response back for review and store the others', async () => {
+        await respond();
+
+        const [pending] = await new AlfaFrensFactReviewQueue(mockRuntime).listPending();
+        expect(pending).toMatchObject({
+            fact: 'AlfaFrens launched in 2023',
+            reason: 'contradiction',
+            sourceMessage: { senderId: 'agent', content: 'AlfaFrens launched in 2023 and runs on Base.' }
+        });
+        expect((await new AlfaFrensFactStore(mockRuntime).getRecent()).map(fact => fact.text))
+            .toEqual(expect.arrayContaining(['AlfaFrens launched in 2024', 'AlfaFrens runs on Base']));
+    });
+
+    it('should send a follow-up correction from a task when validating after sending', async () => {
+        settings.ALFAFRENS_FACT_VALIDATION_MODE = 'async';
+        const send = vi.fn(async (_content: string, inReplyTo: string) => `correction-of-${inReplyTo}`);
+        const tasks = new AlfaFrensTaskManager(mockRuntime, { corrections: new AlfaFrensCorrections(mockRuntime, send) });
+        let deferred: DeferredResponseValidation | undefined;
+
+        const response = await respond(validation => { deferred = validation; });
+        expect(response).toBe('AlfaFrens launched in 2023 and runs on Base.');
+        expect(prompts().some(prompt => prompt.includes('Check these new statements'))).toBe(false);
+
+        await tasks.createResponseValidationTask(deferred!, 'reply-1');
+        await tasks.processTasks();
+
+        expect(send).toHaveBeenCalledWith('Correction: AlfaFrens launched in 2024.', 'reply-1');
+        expect(await tasks.listTasks()).toEqual([]);
+    });
+
+    it('should stay within the model call budget when validating fact by fact', async () => {
+        settings.ALFAFRENS_FACT_VALIDATION_MODE = 'per-fact';
+        settings.ALFAFRENS_FACT_VALIDATION_MAX_LLM_CALLS = '2';
+        vi.mocked(generateText).mockImplementation(async ({ context }) =>
+            context.includes('Extract factual statements') ? '["AlfaFrens runs on Base", "AlfaFrens has 1000 users"]' : '[]');
+
+        await respond();
+
+        // the response, the extraction and the relationships of the first fact
+        expect(generateText).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, embed } from '@elizaos/core';
+import {
+    EmbeddingSimilarityBackend,
+    JaccardSimilarityBackend,
+    cosineSimilarity,
+    createSimilarityBackend,
+    jaccardSimilarity
+} from '../src/extensions/similarity';
+import { loadFactValidationThresholds } from '../src/extensions/fact-validation';
+
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        ...actual,
+        embed: vi.fn()
+    };
+});
+
+describe('similarity', () => {
+    let settings: Record<string, string>;
+    let mockRuntime: IAgentRuntime;
+
+    beforeEach(() => {
+        vi.mocked(embed).mockReset();
+        settings = {};
+        mockRuntime = {
+            getSetting: vi.fn((key: string) => settings[key] ?? null)
+        } as unknown as IAgentRuntime;
+    });
+
+    describe('jaccardSimilarity', () => {
+        it('should ignore punctuation and stopwords', () => {
+            expect(jaccardSimilarity('The token is live.', 'token live')).toBe(1);
+            expect(jaccardSimilarity('The cat is on the mat', 'The sun is in the sky')).toBe(0);
+        });
+    });
+
+    describe('cosineSimilarity', () => {
+        it('should compare vectors by direction', () => {
+            expect(cosineSimilarity([1, 0], [2, 0])).toBe(1);
+            expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+            expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+        });
+    });
+
+    describe('JaccardSimilarityBackend', () => {
+        it('should rank matching candidates, most similar first', async () => {
+            const candidates = [
+                { text: 'The token launched in 2024' },
+                { text: 'Alice likes cats' },
+                { text: 'The token launched in March 2024' }
+            ];
+
+            const results = await new JaccardSimilarityBackend().rank('token launched in 2024', candidates, {
+                threshold: 0.5
+            });
+
+            expect(results.map(r => r.item.text)).toEqual([
+                'The token launched in 2024',
+                'The token launched in March 2024'
+            ]);
+        });
+    });
+
+    describe('EmbeddingSimilarityBackend', () => {
+        it('should compare texts by their embeddings', async () => {
+            vi.mocked(embed).mockImplementation(async (_runtime, input) =>
+                input.includes('Seattle') ? [1, 0.1] : [1, 0]
+            );
+
+            const similarity = await new EmbeddingSimilarityBackend(mockRuntime)
+                .similarity('Alice lives in Seattle', 'Alice resides in Washington');
+
+            expect(similarity).toBeGreaterThan(0.99);
+        });
+
+        it('should rank candidates by their stored embeddings', async () => {
+            vi.mocked(embed).mockResolvedValue([1, 0]);
+            const candidates = [
+                { text: 'close', embedding: [1, 0.2] },
+                { text: 'far', embedding: [0, 1] }
+            ];
+
+            const results = await new EmbeddingSimilarityBackend(mockRuntime).rank('query', candidates, {
+                threshold: 0.9
+            });
+
+            expect(results.map(r => r.item.text)).toEqual(['close']);
+            expect(embed).toHaveBeenCalledTimes(1);
+        });
+
+        it('should embed candidates without a stored embedding once each', async () => {
+            vi.mocked(embed).mockImplementation(async (_runtime, input) => input === 'far' ? [0, 1] : [1, 0]);
+            const candidates = [{ text: 'close' }, { text: 'far' }, { text: 'close' }];
+
+            const results = await new EmbeddingSimilarityBackend(mockRuntime).rank('query', candidates, {
+                threshold: 0.9
+            });
+
+            expect(results.map(r => r.item.text)).toEqual(['close', 'close']);
+            expect(embed).toHaveBeenCalledTimes(3);
+        });
+
+        it('should lower the threshold when falling back to word overlap', async () => {
+            vi.mocked(embed).mockResolvedValue([]);
+            const backend = new EmbeddingSimilarityBackend(mockRuntime);
+            const candidates = [{ text: 'The token launched in March 2024' }];
+
+            expect(await backend.rank('token launched in 2024', candidates, { threshold: 0.8 })).toHaveLength(1);
+            expect(await backend.rank('token launched in 2024', candidates, { threshold: 0.8, fallbackThreshold: 0.8 }))
+                .toHaveLength(0);
+        });
+
+        it('should fall back to word overlap without embeddings', async () => {
+            vi.mocked(embed).mockResolvedValue([]);
+
+            const backend = new EmbeddingSimilarityBackend(mockRuntime);
+
+            expect(await backend.similarity('token launched', 'The token launched')).toBe(1);
+            expect(await backend.rank('token launched in 2024', [{ text: 'The token launched in 2024' }], { threshold: 0.5 }))
+                .toHaveLength(1);
+            expect(await backend.embed('token launched')).toBeUndefined();
+        });
+    });
+
+    describe('configuration', () => {
+        it('should select the backend from the settings', () => {
+            expect(createSimilarityBackend(mockRuntime).name).toBe('embedding');
+
+            settings.ALFAFRENS_SIMILARITY_BACKEND = 'jaccard';
+            expect(createSimilarityBackend(mockRuntime).name).toBe('jaccard');
+        });
+
+        it('should load thresholds with defaults', () => {
+            settings.ALFAFRENS_FACT_RELEVANCE_THRESHOLD = '0.65';
+            settings.ALFAFRENS_FACT_CONTRADICTION_THRESHOLD = 'high';
+
+            expect(loadFactValidationThresholds(mockRuntime)).toEqual({
+                relevance: 0.65,
+                contradiction: 0.8,
+                confidence: 0.7
+            });
+        });
+    });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, generateText } from '@elizaos/core';
+import {
+    arraySchema,
+    booleanSchema,
+    extractJsonCandidates,
+    generateStructuredOutput,
+    LLMCallBudget,
+    numberSchema,
+    objectSchema,
+    parseStructuredOutput,
+    stringSchema
+} from '../src/extensions/structured-output';
+import { FactValidationManager } from '../src/extensions/fact-validation';
+import { AlfaFrensFactStore } from '../src/extensions/fact-store';
+import { JaccardSimilarityBackend } from '../src/extensions/similarity';
+
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        ...actual,
+        generateText: vi.fn()
+    };
+});
+
+describe('Structured output', () => {
+    const mockRuntime = {
+        agentId: 'agent',
+        getSetting: vi.fn(() => null),
+        cacheManager: {
+            get: vi.fn(async () => undefined),
+            set: vi.fn(async () => undefined)
+        }
+    } as unknown as IAgentRuntime;
+
+    const contradictionSchema = objectSchema<{ contradicts: boolean; confidence: number; explanation?: string }>(
+        { contradicts: booleanSchema, confidence: numberSchema(0, 1), explanation: stringSchema },
+        ['explanation']
+    );
+
+    beforeEach(() => {
+        vi.mocked(generateText).mockReset();
+    });
+
+    describe('parseStructuredOutput', () => {
+        it('should find JSON in fences and surrounding prose', () => {
+            expect(extractJsonCandidates('```json\n["a"]\n```')).toEqual(['["a"]']);
+            expect(parseStructuredOutput('Sure! Here are the facts: ["a", "b"] Hope this helps.', arraySchema(stringSchema)).value)
+                .toEqual(['a', 'b']);
+            expect(parseStructuredOutput('```\n{"contradicts": true, "confidence": 0.9}\n```', contradictionSchema).value)
+                .toEqual({ contradicts: true, confidence: 0.9 });
+        });
+
+        it('should describe why the output is unusable', () => {
+            expect(parseStructuredOutput('no facts here', arraySchema(stringSchema)).error?.kind).toBe('no_json');
+            expect(parseStructuredOutput('["a", "b"', arraySchema(stringSchema)).error?.kind).toBe('invalid_json');
+            expect(parseStructuredOutput('{"contradicts": "yes", "confidence": 2}', contradictionSchema).error)
+                .toEqual({ kind: 'schema', message: 'property "contradicts": expected a boolean, got string' });
+        });
+
+        it('should skip invalid array items when asked to', () => {
+            expect(parseStructuredOutput('["a", 1, "b"]', arraySchema(stringSchema, { skipInvalid: true })).value).toEqual(['a', 'b']);
+            expect(parseStructuredOutput('["a", 1, "b"]', arraySchema(stringSchema)).error?.message)
+                .toBe('item 1: expected a string, got number');
+        });
+    });
+
+    describe('generateStructuredOutput', () => {
+        it('should repair an unusable answer once', async () => {
+            vi.mocked(generateText)
+                .mockResolvedValueOnce('{"contradicts": true}')
+                .mockResolvedValueOnce('{"contradicts": true, "confidence": 0.8}');
+
+            const result = await generateStructuredOutput({ runtime: mockRuntime, context: 'Compare', schema: contradictionSchema });
+
+            expect(result).toMatchObject({ status: 'ok', repaired: true, value: { contradicts: true, confidence: 0.8 } });
+            const repairPrompt = vi.mocked(generateText).mock.calls[1][0].context;
+            expect(repairPrompt).toContain('missing property "confidence"');
+            expect(repairPrompt).toContain('{"contradicts": true}');
+        });
+
+        it('should return a typed failure instead of throwing', async () => {
+            vi.mocked(generateText).mockResolvedValue('I cannot answer that');
+            const unusable = await generateStructuredOutput({ runtime: mockRuntime, context: 'Extract', schema: arraySchema(stringSchema) });
+            expect(unusable).toMatchObject({ status: 'error', error: { kind: 'no_json' }, raw: 'I cannot answer that' });
+            expect(generateText).toHaveBeenCalledTimes(2);
+
+            vi.mocked(generateText).mockReset().mockRejectedValue(new Error('api key invalid'));
+            const failed = await generateStructuredOutput({ runtime: mockRuntime, context: 'Extract', schema: arraySchema(stringSchema) });
+            expect(failed.error).toEqual({ kind: 'generation', message: 'api key invalid' });
+            expect(generateText).toHaveBeenCalledTimes(1);
+        });
+
+        it('should take model calls from a budget', async () => {
+            vi.mocked(generateText).mockResolvedValue('not JSON');
+            const budget = new LLMCallBudget(1);
+
+            const first = await generateStructuredOutput({ runtime: mockRuntime, context: 'Extract', schema: arraySchema(stringSchema), budget });
+            const second = await generateStructuredOutput({ runtime: mockRuntime, context: 'Extract', schema: arraySchema(stringSchema), budget });
+
+            expect(first.error?.kind).toBe('no_json');
+            expect(second.error?.kind).toBe('budget');
+            expect(generateText).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('fact validation', () => {
+        it('should parse extracted facts and relationships wrapped in prose', async () => {
+            const manager = new FactValidationManager(mockRuntime, new JaccardSimilarityBackend(), new AlfaFrensFactStore(mockRuntime));
+            vi.mocked(generateText).mockResolvedValueOnce('Facts:\n```json\n["AlfaFrens launched in 2024", 42]\n```');
+
+            expect(await manager.extractFacts('AlfaFrens launched in 2024.')).toEqual(['AlfaFrens launched in 2024']);
+        });
+
+        it('should fall back to heuristic fact extraction', async () => {
+            const manager = new FactValidationManager(mockRuntime, new JaccardSimilarityBackend(), new AlfaFrensFactStore(mockRuntime));
+            vi.mocked(generateText).mockResolvedValue('nothing useful');
+
+            expect(await manager.extractFacts('AlfaFrens was founded in 2023. I think it is great.'))
+                .toEqual(['AlfaFrens was founded in 2023']);
+        });
+    });
+});
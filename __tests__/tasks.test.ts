@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IAgentRuntime } from '@elizaos/core';
+import { AlfaFrensTaskManager } from '../src/extensions/tasks';
+
+describe('AlfaFrensTaskManager', () => {
+    let cache: Map<string, unknown>;
+    let mockRuntime: IAgentRuntime;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        cache = new Map();
+        mockRuntime = {
+            getSetting: vi.fn(() => null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => structuredClone(cache.get(key))),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+            }
+        } as unknown as IAgentRuntime;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const createManager = () => new AlfaFrensTaskManager(mockRuntime, {
+        namespace: 'channel',
+        retryBaseDelayMs: 1000,
+        retryMaxDelayMs: 10000
+    });
+
+    it('should run one-shot tasks once they are due and then remove them', async () => {
+        const manager = createManager();
+        const worker = vi.fn().mockResolvedValue(undefined);
+        manager.registerWorker('JOB', worker);
+
+        await manager.schedule('JOB', { value: 1 }, { delayMs: 60000 });
+        await manager.processTasks();
+        expect(worker).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(60000);
+        await manager.processTasks();
+
+        expect(worker).toHaveBeenCalledTimes(1);
+        expect(worker).toHaveBeenCalledWith(expect.objectContaining({ payload: { value: 1 } }), mockRuntime);
+        expect(await manager.listTasks()).toEqual([]);
+    });
+
+    it('should reschedule recurring tasks', async () => {
+        const manager = createManager();
+        manager.registerWorker('JOB', vi.fn().mockResolvedValue(undefined));
+
+        const task = await manager.schedule('JOB', {}, { intervalMs: 5000 });
+        await manager.processTasks();
+
+        const [rescheduled] = await manager.listTasks();
+        expect(rescheduled.id).toBe(task.id);
+        expect(rescheduled.scheduledFor).toBe(task.scheduledFor + 5000);
+    });
+
+    it('should retry with backoff and dead-letter tasks out of attempts', async () => {
+        const manager = createManager();
+        manager.registerWorker('JOB', vi.fn().mockRejectedValue(new Error('boom')));
+        await manager.schedule('JOB', {}, { maxAttempts: 2 });
+
+        await manager.processTasks();
+        const [retry] = await manager.listTasks();
+        expect(retry).toMatchObject({ attempts: 1, lastError: 'boom' });
+        expect(retry.scheduledFor).toBe(Date.now() + 1000);
+
+        vi.advanceTimersByTime(1000);
+        await manager.processTasks();
+
+        expect(await manager.listTasks()).toEqual([]);
+        expect(await manager.listDeadLetters()).toMatchObject([{ name: 'JOB', status: 'dead', attempts: 2 }]);
+    });
+
+    it('should persist tasks across restarts', async () => {
+        const first = createManager();
+        const task = await first.schedule('JOB', { value: 1 }, { delayMs: 1000 });
+
+        const second = createManager();
+        const worker = vi.fn().mockResolvedValue(undefined);
+        second.registerWorker('JOB', worker);
+
+        expect((await second.listTasks()).map(t => t.id)).toEqual([task.id]);
+        vi.advanceTimersByTime(1000);
+        await second.processTasks();
+        expect(worker).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel tasks', async () => {
+        const manager = createManager();
+        const task = await manager.schedule('JOB', {});
+
+        expect(await manager.cancelTask(task.id)).toBe(true);
+        expect(await manager.cancelTask(task.id)).toBe(false);
+        expect(await manager.listTasks()).toEqual([]);
+    });
+
+    it('should not overlap runs', async () => {
+        const manager = createManager();
+        let release: () => void = () => {};
+        const worker = vi.fn(() => new Promise<void>(resolve => { release = resolve; }));
+        manager.registerWorker('JOB', worker);
+        await manager.schedule('JOB', {});
+
+        const first = manager.processTasks();
+        const second = manager.processTasks();
+        await vi.waitFor(() => expect(worker).toHaveBeenCalled());
+        release();
+        await Promise.all([first, second]);
+
+        expect(worker).toHaveBeenCalledTimes(1);
+    });
+
+    it('should defer fact validation', async () => {
+        const manager = createManager();
+
+        const task = await manager.createFactValidationTask('The sky is blue', 'alice', { deferred: true });
+
+        expect(task.name).toBe('FACT_VALIDATION');
+        expect(task.scheduledFor).toBe(Date.now() + 3600000);
+    });
+
+    it('should schedule fact maintenance once', async () => {
+        const manager = createManager();
+
+        await manager.scheduleFactMaintenance();
+        await manager.scheduleFactMaintenance();
+
+        const tasks = await manager.listTasks('FACT_MAINTENANCE');
+        expect(tasks).toHaveLength(1);
+        expect(tasks[0]).toMatchObject({ schedule: { type: 'recurring', intervalMs: 86400000 }, scheduledFor: Date.now() + 86400000 });
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ThreadService, buildReplyTree } from '../src/extensions/threads';
+import type { AlfaFrensMessage } from '../src/types';
+
+const createMessage = (id: string, timestamp: number, replyTo?: string, senderUsername = 'alice'): AlfaFrensMessage => ({
+    id,
+    content: `message ${id}`,
+    senderId: senderUsername,
+    senderUsername,
+    timestamp: new Date(timestamp).toISOString(),
+    replyTo
+});
+
+describe('buildReplyTree', () => {
+    it('should nest replies under their parents', () => {
+        const roots = buildReplyTree([
+            createMessage('reply', 2000, 'root'),
+            createMessage('root', 1000),
+            createMessage('other', 1500)
+        ]);
+
+        expect(roots.map(node => node.message.id)).toEqual(['root', 'other']);
+        expect(roots[0].replies.map(node => node.message.id)).toEqual(['reply']);
+    });
+});
+
+describe('ThreadService', () => {
+    const now = Date.now();
+
+    it('should return only the thread the message belongs to', async () => {
+        const client = { getMessages: vi.fn() };
+        const threads = new ThreadService(client, 'channel');
+        threads.remember([
+            createMessage('root', now, undefined, 'alice'),
+            createMessage('unrelated', now + 1000, undefined, 'bob'),
+            createMessage('answer', now + 2000, 'root', 'bot'),
+            createMessage('follow-up', now + 3000, 'answer', 'alice')
+        ]);
+
+        const thread = await threads.getThread('follow-up');
+
+        expect(thread.map(m => m.id)).toEqual(['root', 'answer', 'follow-up']);
+        expect(client.getMessages).not.toHaveBeenCalled();
+        expect(threads.summarizeChannel(thread)).toBe('- bob: message unrelated');
+        expect(threads.getRootId(thread[2])).toBe('root');
+        expect(threads.getRootId(createMessage('late', now + 4000, 'unknown'))).toBe('unknown');
+    });
+
+    it('should fetch with replies when an ancestor is unknown', async () => {
+        const client = {
+            getMessages: vi.fn().mockResolvedValue([
+                createMessage('root', now - 60000),
+                createMessage('answer', now - 30000, 'root', 'bot')
+            ])
+        };
+        const threads = new ThreadService(client, 'channel', { lookbackMs: 3600000 });
+        const message = createMessage('follow-up', now, 'answer');
+
+        const thread = await threads.getThread(message);
+
+        expect(client.getMessages).toHaveBeenCalledWith(expect.objectContaining({
+            roomId: 'channel',
+            includeReplies: true,
+            since: now - 3600000
+        }));
+        expect(thread.map(m => m.id)).toEqual(['root', 'answer', 'follow-up']);
+    });
+
+    it('should leave out other branches of the reply tree', async () => {
+        const createThreads = (includeDirectReplies: boolean) => {
+            const threads = new ThreadService({ getMessages: vi.fn() }, 'channel', { includeDirectReplies });
+            threads.remember([
+                createMessage('question', now),
+                createMessage('answer', now + 1000, 'question', 'bot'),
+                createMessage('other-answer', now + 2000, 'question', 'bob'),
+                createMessage('other-follow-up', now + 3000, 'other-answer', 'carol'),
+                createMessage('follow-up', now + 4000, 'answer', 'alice')
+            ]);
+            return threads;
+        };
+
+        expect((await createThreads(false).getThread('follow-up')).map(m => m.id)).toEqual(['question', 'answer', 'follow-up']);
+        expect((await createThreads(true).getThread('follow-up')).map(m => m.id))
+            .toEqual(['question', 'answer', 'other-answer', 'follow-up']);
+    });
+
+    it('should keep fetched ancestors when the lookback window exceeds the index', async () => {
+        const client = {
+            getMessages: vi.fn().mockResolvedValue([
+                createMessage('root', now - 60000),
+                ...Array.from({ length: 5 }, (_, i) => createMessage(`noise-${i}`, now - 50000 + i)),
+                createMessage('answer', now - 30000, 'root', 'bot')
+            ])
+        };
+        const threads = new ThreadService(client, 'channel', { maxMessages: 3 });
+
+        await threads.getThread(createMessage('follow-up', now, 'answer'));
+        const thread = await threads.getThread(createMessage('another', now + 1000, 'answer'));
+
+        expect(thread.map(m => m.id)).toEqual(['root', 'answer', 'another']);
+        expect(client.getMessages).toHaveBeenCalledTimes(1);
+    });
+
+    it('should limit the thread to the most recent messages', async () => {
+        const threads = new ThreadService({ getMessages: vi.fn() }, 'channel');
+        threads.remember([
+            createMessage('a', now),
+            createMessage('b', now + 1000, 'a'),
+            createMessage('c', now + 2000, 'b'),
+            createMessage('d', now + 3000, 'c')
+        ]);
+
+        const thread = await threads.getThread('d', 2);
+
+        expect(thread.map(m => m.id)).toEqual(['c', 'd']);
+    });
+});
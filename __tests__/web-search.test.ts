@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { IAgentRuntime, ServiceType, generateText } from '@elizaos/core';
+import {
+    AlfaFrensWebSearch,
+    formatSourceAttribution,
+    formatWebSearchItems,
+    normalizeSearchQuery,
+    rewriteSearchQuery,
+    shouldSearchWeb
+} from '../src/extensions/web-search';
+import { generateResponse } from '../src/extensions/utils';
+import type { AlfaFrensMessage } from '../src/types';
+
+vi.mock('@elizaos/core', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@elizaos/core')>();
+    return {
+        ...actual,
+        generateText: vi.fn()
+    };
+});
+
+describe('Web search', () => {
+    let cache: Map<string, unknown>;
+    let settings: Record<string, string>;
+    let mockRuntime: IAgentRuntime;
+    let service: { search: ReturnType<typeof vi.fn> };
+
+    const thread: AlfaFrensMessage[] = [
+        { id: 'm1', content: 'Superfluid streams ETH by the second', timestamp: '2024-03-27T00:00:00Z', senderId: 'u1', senderUsername: 'alice' }
+    ];
+
+    beforeEach(() => {
+        cache = new Map();
+        settings = { ALFAFRENS_SIMILARITY_BACKEND: 'jaccard' };
+        service = {
+            search: vi.fn(async () => ({
+                answer: 'AF is not tradable yet.',
+                results: [
+                    { title: 'AlfaFrens info', url: 'https://alfafrens.com/info' },
+                    { title: 'AF on Basescan', url: 'https://basescan.org/token/af' }
+                ]
+            }))
+        };
+        mockRuntime = {
+            agentId: 'agent',
+            character: { name: 'TestBot', adjectives: ['helpful'], topics: ['alfafrens'] },
+            getSetting: vi.fn((key: string) => settings[key] ?? null),
+            getService: vi.fn((type: ServiceType) => type === ServiceType.WEB_SEARCH ? service : null),
+            cacheManager: {
+                get: vi.fn(async (key: string) => structuredClone(cache.get(key))),
+                set: vi.fn(async (key: string, value: unknown) => { cache.set(key, structuredClone(value)); })
+            }
+        } as unknown as IAgentRuntime;
+
+        vi.mocked(generateText).mockReset().mockImplementation(async ({ context }) =>
+            context.includes('Extract factual statements') ? '[]' : 'AF is not tradable yet.');
+    });
+
+    it('should only search time-sensitive and factual questions', () => {
+        expect(shouldSearchWeb('gm')).toBe(false);
+        expect(shouldSearchWeb('@TestBot thanks!')).toBe(false);
+        expect(shouldSearchWeb('how are you?')).toBe(false);
+        expect(shouldSearchWeb('what is your favourite channel?')).toBe(false);
+        expect(shouldSearchWeb('ETH price today')).toBe(true);
+        expect(shouldSearchWeb('When did Superfluid launch streaming payments?')).toBe(true);
+    });
+
+    it('should complete short follow-ups from the thread', () => {
+        expect(rewriteSearchQuery('@TestBot is it safe?', thread)).toBe('is it safe? superfluid streams eth second');
+        expect(rewriteSearchQuery('How does Superfluid stream money on Base?', thread)).toBe('How does Superfluid stream money on Base?');
+        expect(normalizeSearchQuery('Is AF tradable?')).toBe(normalizeSearchQuery('tradable AF'));
+    });
+
+    it('should cache results by normalised query', async () => {
+        const search = new AlfaFrensWebSearch(mockRuntime);
+
+        const first = await search.search('Is the AF token tradable?');
+        const second = await search.search('is AF token tradable');
+
+        expect(first).toMatchObject({ query: 'Is the AF token tradable?', cached: false });
+        expect(second).toMatchObject({ query: 'Is the AF token tradable?', cached: true, answer: 'AF is not tradable yet.' });
+        expect(service.search).toHaveBeenCalledTimes(1);
+        expect(await search.search('gm')).toBeNull();
+    });
+
+    it('should search again once the cached results expired', async () => {
+        settings.ALFAFRENS_WEB_SEARCH_CACHE_TTL_SECONDS = '60';
+        const search = new AlfaFrensWebSearch(mockRuntime);
+        await search.search('Is the AF token tradable?');
+
+        const [[key, value]] = [...cache.entries()];
+        cache.set(key, { ...(value as object), cachedAt: Date.now() - 61_000 });
+        await search.search('Is the AF token tradable?');
+
+        expect(service.search).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fail when the cache can not be read', async () => {
+        vi.mocked(mockRuntime.cacheManager.get).mockRejectedValueOnce(new Error('cache down'));
+
+        expect(await new AlfaFrensWebSearch(mockRuntime).search('Is the AF token tradable?')).toBeNull();
+    });
+
+    it('should keep the answer when there are no results', () => {
+        const response = { query: 'Is AF tradable?', answer: 'AF is not tradable yet.', results: [], cached: false };
+
+        expect(formatWebSearchItems(response)).toEqual(['AF is not tradable yet.']);
+        expect(formatWebSearchItems({ ...response, answer: undefined })).toEqual([]);
+    });
+
+    it('should list only the sources given to the model', async () => {
+        const results = await new AlfaFrensWebSearch(mockRuntime).search('Is the AF token tradable?');
+
+        expect(formatSourceAttribution(results, '1. AlfaFrens info - https://alfafrens.com/info')).toBe('Sources: https://alfafrens.com/info');
+        expect(formatSourceAttribution(null, '')).toBe('');
+    });
+
+    it('should append the sources to a response that used web results', async () => {
+        settings.ALFAFRENS_WEB_SEARCH_ATTRIBUTION = 'true';
+        const client = { searchKnowledge: vi.fn(async () => []) };
+
+        const response = await generateResponse(mockRuntime, client, 'Is the AF token tradable?', thread, '{{message.content}}');
+        const greeting = await generateResponse(mockRuntime, client, 'gm', thread, '{{message.content}}');
+
+        expect(response).toBe('AF is not tradable yet.\n\nSources: https://alfafrens.com/info, https://basescan.org/token/af');
+        expect(greeting).toBe('AF is not tradable yet.');
+        expect(service.search).toHaveBeenCalledTimes(1);
+    });
+});
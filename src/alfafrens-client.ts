@@ -1,9 +1,13 @@
 import { elizaLogger, IAgentRuntime, ClientInstance, stringToUuid, Client, Action, Memory, UUID } from "@elizaos/core";
 import { AlfaFrensApi } from "./api";
-import { loadAlfaFrensConfig } from "./config";
+import { AlfaFrensAuthenticationError, AlfaFrensRateLimitError } from "./errors";
+import { loadAlfaFrensConfig, loadAlfaFrensRetryPolicy } from "./config";
+import { loadAlfaFrensChannelConfigs } from "./environment";
 import { createAlfaFrensMemory } from "./memory";
 import { generatePostContent, parseModelClass, DEFAULT_POST_TEMPLATE, evaluateMessage, DEFAULT_EVALUATION_TEMPLATE } from "./extensions/utils";
 import { AlfaFrensAIInteraction, AlfaFrensClient } from "./extensions/ai-interaction";
+import { AlfaFrensAnnouncer } from "./extensions/announcements";
+import type { AlfaFrensContentCalendar } from "./extensions/content-calendar";
 import { AlfaFrensConfig, AlfaFrensGenerationConfig, AlfaFrensMessage, AlfaFrensSendMessageResponse, AlfaFrensMemoryContent } from "./types";
 
 // Configure ElizaOS logger
@@ -157,27 +161,54 @@ export const createAlfaFrensPostAction: Action = {
     }
 };
 
+/**
+ * State for a single AlfaFrens channel served by the manager
+ */
+export interface AlfaFrensChannel {
+    /** channel configuration */
+    config: AlfaFrensConfig;
+    /** API client authenticated for this channel */
+    api: AlfaFrensApi;
+    /** AI interaction manager polling this channel */
+    aiInteraction: AlfaFrensAIInteraction;
+}
+
 /**
  * Manager for interacting with AlfaFrens API
  */
 export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
     /**
-     * API client
+     * API client of the primary channel
      */
     api: AlfaFrensApi;
 
     /**
-     * Configuration
+     * Configuration of the primary channel
      */
     config: AlfaFrensConfig;
 
+    /**
+     * All channels served by this manager, keyed by channel ID
+     */
+    channels: Map<string, AlfaFrensChannel> = new Map();
+
     /**
      * Pre-loaded generation configuration
      */
     private generationConfig: AlfaFrensGenerationConfig;
 
     /**
-     * AI interaction manager
+     * Sends the startup and shutdown announcements
+     */
+    private announcer: AlfaFrensAnnouncer;
+
+    /**
+     * Scheduled posts from the content calendar
+     */
+    contentCalendar: AlfaFrensContentCalendar | null = null;
+
+    /**
+     * AI interaction manager of the primary channel
      */
     aiInteraction: AlfaFrensAIInteraction | null = null;
 
@@ -191,11 +222,6 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
      */
     isRunning = false;
 
-    /**
-     * Last processed time for messages
-     */
-    private lastProcessedTime: number = 0;
-
     /**
      * Client name for ElizaOS
      */
@@ -215,7 +241,7 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
 
         this.runtime = runtime;
 
-        this.config = {
+        const defaults: AlfaFrensConfig = {
             apiKey: runtime.getSetting("ALFAFRENS_API_KEY") || "",
             userId: runtime.getSetting("ALFAFRENS_USER_ID") || "",
             channelId: runtime.getSetting("ALFAFRENS_CHANNEL_ID"),
@@ -223,33 +249,48 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
             pollInterval: parseInt(runtime.getSetting("ALFAFRENS_POLL_INTERVAL") || "15"),
             enablePost: runtime.getSetting("ALFAFRENS_ENABLE_POST") === "true",
             postIntervalMin: parseInt(runtime.getSetting("ALFAFRENS_POST_INTERVAL_MIN") || "3600"),
-            postIntervalMax: parseInt(runtime.getSetting("ALFAFRENS_POST_INTERVAL_MAX") || "7200")
+            postIntervalMax: parseInt(runtime.getSetting("ALFAFRENS_POST_INTERVAL_MAX") || "7200"),
+            postQuietHours: runtime.getSetting("ALFAFRENS_POST_QUIET_HOURS") || undefined,
+            postTimeZone: runtime.getSetting("ALFAFRENS_POST_TIMEZONE") || undefined
         };
 
-        // Ensure API key is provided
-        if (!this.config.apiKey) {
+        const channelConfigs = loadAlfaFrensChannelConfigs(runtime, defaults);
+
+        // Ensure every channel has an API key
+        if (channelConfigs.some(config => !config.apiKey)) {
             throw new Error("AlfaFrens API key is required");
         }
 
-        // Create the API client
-        this.api = new AlfaFrensApi(this.config.apiKey, this.config.channelId);
-
         // Load the generation configuration
         this.generationConfig = loadAlfaFrensConfig(runtime);
+        const retryPolicy = loadAlfaFrensRetryPolicy(runtime);
+        this.announcer = new AlfaFrensAnnouncer(this, runtime);
+
+        // Create an API client and AI interaction per channel
+        for (const config of channelConfigs) {
+            const api = new AlfaFrensApi(config.apiKey, config.channelId, config.baseUrl, retryPolicy);
+            const aiInteraction = new AlfaFrensAIInteraction(
+                this,
+                runtime,
+                {
+                    evaluationTemplate: config.evaluationTemplate || this.generationConfig.evaluation.template,
+                    responseTemplate: config.responseTemplate || this.generationConfig.response.template,
+                    modelClass: this.generationConfig.response.modelClass,
+                    intervalSeconds: config.pollInterval,
+                    postTemplate: config.postTemplate || this.generationConfig.post.template,
+                    generationConfig: this.generationConfig,
+                    channelConfig: config
+                }
+            );
+
+            this.channels.set(config.channelId, { config, api, aiInteraction });
+        }
 
-        // Initialize AI interaction
-        this.aiInteraction = new AlfaFrensAIInteraction(
-            this,
-            runtime,
-            {
-                evaluationTemplate: this.generationConfig.evaluation.template,
-                responseTemplate: this.generationConfig.response.template,
-                modelClass: this.generationConfig.response.modelClass,
-                intervalSeconds: this.config.pollInterval,
-                postTemplate: this.generationConfig.post.template,
-                generationConfig: this.generationConfig
-            }
-        );
+        // The first channel is the primary one
+        const primary = this.channels.get(channelConfigs[0].channelId)!;
+        this.config = primary.config;
+        this.api = primary.api;
+        this.aiInteraction = primary.aiInteraction;
 
         elizaLogger.debug("[AlfaFrensManager] Initialized successfully");
     }
@@ -266,30 +307,29 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
         this.isRunning = true;
 
         try {
-            // Get last processed time from cache
-            elizaLogger.debug("AlfaFrensManager getting last processed time from cache");
-            const cached = await this.runtime.cacheManager.get<number>("alfafrens_last_processed_time");
-            this.lastProcessedTime = cached || Date.now() - (5 * 60 * 1000); // Default to 5 minutes ago
-            elizaLogger.debug("AlfaFrensManager lastProcessedTime set to:", this.lastProcessedTime);
-
             // Register AlfaFrens actions with ElizaOS
             const { registerAlfaFrensActions } = await import("./extensions/actions");
             registerAlfaFrensActions(this, runtime);
             elizaLogger.debug("AlfaFrensManager registered actions with ElizaOS");
 
-            // Start AI interaction with poll interval
-            elizaLogger.debug("AlfaFrensManager starting aiInteraction with poll interval:", this.config.pollInterval);
-            await this.aiInteraction?.start(this.config.pollInterval);
+            // Start AI interaction for every channel with its poll interval
+            for (const channel of this.channels.values()) {
+                elizaLogger.debug(`AlfaFrensManager starting aiInteraction for channel ${channel.config.channelId} with poll interval:`, channel.config.pollInterval);
+                await channel.aiInteraction.start(channel.config.pollInterval);
+            }
             elizaLogger.debug("AlfaFrensManager aiInteraction.start completed");
 
-            // Make initial post when bot starts
-            elizaLogger.info("[AlfaFrensManager] Making initial post...");
-            const initialMessage = "Hey AlfaFrens! I'm back online and ready to help with your questions. Feel free to ask anything!";
-            await this.sendMessage({
-                content: initialMessage,
-                roomId: this.config.channelId
-            });
-            elizaLogger.info("[AlfaFrensManager] Initial post sent successfully");
+            // Start the content calendar if one is configured
+            const { AlfaFrensContentCalendar } = await import("./extensions/content-calendar");
+            this.contentCalendar = new AlfaFrensContentCalendar(this, runtime);
+            if (this.contentCalendar.size > 0) {
+                await this.contentCalendar.start();
+            }
+
+            // Announce the bot in each channel, unless disabled or announced recently
+            for (const channel of this.channels.values()) {
+                await this.announcer.announce("startup", channel.config.channelId);
+            }
         } catch (error) {
             elizaLogger.error("[AlfaFrensManager] ERROR in AlfaFrensManager.initialize:", error);
             elizaLogger.error("[AlfaFrensManager] Failed to start:", error);
@@ -308,17 +348,44 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
         this.isRunning = false;
 
         try {
-            // Save last processed time to cache
-            await this.runtime.cacheManager.set("alfafrens_last_processed_time", this.lastProcessedTime);
+            // Stop AI interaction for every channel
+            for (const channel of this.channels.values()) {
+                await channel.aiInteraction.stop();
+            }
+            this.contentCalendar?.stop();
 
-            // Stop AI interaction
-            await this.aiInteraction?.stop();
+            // Say goodbye if a shutdown announcement is configured
+            for (const channel of this.channels.values()) {
+                await this.announcer.announce("shutdown", channel.config.channelId);
+            }
         } catch (error) {
             elizaLogger.error("[AlfaFrensManager] Failed to stop:", error);
             throw error;
         }
     }
 
+    /**
+     * Find the channel a room ID refers to
+     * @param roomId channel ID, or the room UUID derived from it
+     * @returns the matching channel; the primary channel if only one is configured
+     * @throws Error if several channels are configured and none matches
+     */
+    getChannel(roomId: string): AlfaFrensChannel {
+        const channel = this.channels.get(roomId) ||
+            [...this.channels.values()].find(c => stringToUuid(c.config.channelId) === roomId);
+        if (channel) {
+            return channel;
+        }
+
+        const [only] = this.channels.values();
+        if (this.channels.size === 1 && only) {
+            elizaLogger.debug(`[AlfaFrensManager] Unknown room ${roomId}, using the only configured channel`);
+            return only;
+        }
+
+        throw new Error(`Unknown AlfaFrens channel: ${roomId}`);
+    }
+
     /**
      * Get messages from AlfaFrens API
      */
@@ -330,8 +397,8 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
         includeReplies?: boolean;
     }): Promise<AlfaFrensMessage[]> {
         try {
-            // Call the API to get messages
-            const messages = await this.api.getMessages({
+            // Call the API of the requested channel to get messages
+            const messages = await this.getChannel(params.roomId).api.getMessages({
                 since: params.since,
                 until: params.until,
                 includeReactions: params.includeReactions,
@@ -340,6 +407,7 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
             return messages;
         } catch (error) {
             elizaLogger.error("[AlfaFrensManager] Error getting messages:", error);
+            await this.handleApiError(error, params.roomId);
             throw error;
         }
     }
@@ -349,10 +417,11 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
      */
     private prepareMessageAndMemory(response: AlfaFrensSendMessageResponse, content: string, roomId: string): { memory: any; message: AlfaFrensMessage } {
         const message = createMessageFromResponse(response, content);
+        const { config } = this.getChannel(roomId);
 
         // Set sender info
-        message.senderId = this.config.userId;
-        message.senderUsername = this.config.username || "AI Assistant";
+        message.senderId = config.userId;
+        message.senderUsername = config.username || "AI Assistant";
 
         const memory = createAlfaFrensMemory({
             roomId: stringToUuid(roomId),
@@ -378,11 +447,12 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
             });
 
             // Use appropriate method based on whether it's a reply
+            const { api } = this.getChannel(params.roomId);
             let response;
             if (params.inReplyTo) {
-                response = await this.api.replyMessage(params.content, params.inReplyTo);
+                response = await api.replyMessage(params.content, params.inReplyTo);
             } else {
-                response = await this.api.sendMessage(params.content);
+                response = await api.sendMessage(params.content);
             }
 
             const result = this.prepareMessageAndMemory(response, params.content, params.roomId);
@@ -391,6 +461,7 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
             return [result];
         } catch (error) {
             elizaLogger.error('[AlfaFrensManager] Failed to send message:', error);
+            await this.handleApiError(error, params.roomId);
             throw error;
         }
     }
@@ -405,7 +476,7 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
                 roomId: params.roomId
             });
 
-            const response = await this.api.createPost(params.content);
+            const response = await this.getChannel(params.roomId).api.createPost(params.content);
 
             const result = this.prepareMessageAndMemory(response, params.content, params.roomId);
 
@@ -413,10 +484,29 @@ export class AlfaFrensManager implements ClientInstance, AlfaFrensClient {
             return [result];
         } catch (error) {
             elizaLogger.error('[AlfaFrensManager] Failed to create post:', error);
+            await this.handleApiError(error, params.roomId);
             throw error;
         }
     }
 
+    /**
+     * React to API failures that make further requests pointless
+     * @param error error raised by the API client
+     * @param roomId room of the failed request, only its channel is stopped when its API key is rejected
+     */
+    private async handleApiError(error: unknown, roomId: string): Promise<void> {
+        if (error instanceof AlfaFrensAuthenticationError) {
+            // the request reached the API, so the room belongs to a channel
+            const channel = this.getChannel(roomId);
+            elizaLogger.error(`[AlfaFrensManager] API key of channel ${channel.config.channelId} rejected for ${error.method} ${error.path} (status ${error.status}), stopping the channel`);
+            await channel.aiInteraction.stop().catch(stopError => {
+                elizaLogger.error(`[AlfaFrensManager] Failed to stop channel ${channel.config.channelId} after authentication error:`, stopError);
+            });
+        } else if (error instanceof AlfaFrensRateLimitError) {
+            elizaLogger.warn(`[AlfaFrensManager] Rate limited by AlfaFrens API, retry after ${error.retryAfterMs ?? "unknown"}ms`);
+        }
+    }
+
     /**
      * Search knowledge base using ElizaOS's built-in knowledge system
      * @param query Search query
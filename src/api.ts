@@ -1,47 +1,162 @@
-import { AlfaFrensMessage, AlfaFrensSendMessageResponse } from "./types";
+import { AlfaFrensMessage, AlfaFrensRetryPolicy, AlfaFrensSendMessageResponse } from "./types";
 import { elizaLogger } from "@elizaos/core";
+import {
+    AlfaFrensNetworkError,
+    AlfaFrensTimeoutError,
+    createAlfaFrensApiError
+} from "./errors";
+
+/**
+ * default retry policy for AlfaFrens API requests
+ */
+export const DEFAULT_RETRY_POLICY: AlfaFrensRetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 500,
+    maxDelayMs: 10000,
+    deadlineMs: 30000,
+    requestTimeoutMs: 10000
+};
+
+/**
+ * HTTP methods that can safely be repeated
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * status codes worth retrying for idempotent requests
+ */
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * network error codes raised before the request reached the server
+ */
+const CONNECTION_ERROR_CODES = new Set([
+    "ECONNREFUSED",
+    "ENOTFOUND",
+    "EAI_AGAIN",
+    "ENETUNREACH",
+    "EHOSTUNREACH",
+    "UND_ERR_CONNECT_TIMEOUT"
+]);
 
 /**
  * AlfaFrens API client - handles HTTP communication with the AlfaFrens API
  */
 export class AlfaFrensApi {
     private baseUrl: string;
+    private retryPolicy: AlfaFrensRetryPolicy;
 
     constructor(
         private apiKey: string,
         private channelId: string,
-        baseUrl?: string
+        baseUrl?: string,
+        retryPolicy: Partial<AlfaFrensRetryPolicy> = {}
     ) {
         elizaLogger.debug("[AlfaFrensApi] constructor called with channelId:", channelId);
         this.baseUrl = baseUrl || process.env.ALFAFRENS_API_URL || "https://friendx-git-ai-api.preview.superfluid.finance";
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
         elizaLogger.debug("[AlfaFrensApi] using baseUrl:", this.baseUrl);
     }
 
+    /**
+     * Performs a request, retrying transient failures according to the retry policy.
+     * Idempotent requests are retried on network errors and retryable status codes;
+     * other requests are only retried when the connection failed before a response.
+     */
     private async fetch<T>(path: string, options: RequestInit = {}): Promise<T> {
         elizaLogger.debug("[AlfaFrensApi] fetch called with path:", path);
-        const response = await fetch(`${this.baseUrl}${path}`, {
-            ...options,
-            headers: {
-                "x-api-key": this.apiKey,
-                "Content-Type": "application/json",
-                ...options.headers
+        const method = (options.method || "GET").toUpperCase();
+        const idempotent = IDEMPOTENT_METHODS.has(method);
+        const startedAt = Date.now();
+
+        for (let attempt = 1; ; attempt++) {
+            let response: Response;
+            try {
+                response = await fetch(`${this.baseUrl}${path}`, {
+                    ...options,
+                    signal: AbortSignal.timeout(this.retryPolicy.requestTimeoutMs),
+                    headers: {
+                        "x-api-key": this.apiKey,
+                        "Content-Type": "application/json",
+                        ...options.headers
+                    }
+                });
+            } catch (error) {
+                const retryable = idempotent || isConnectionFailure(error);
+                const delay = retryable ? this.getRetryDelay(attempt, startedAt) : null;
+                if (delay === null) {
+                    const details = { path, method, attempts: attempt, cause: error };
+                    if (isTimeout(error)) {
+                        throw new AlfaFrensTimeoutError(`API request timed out after ${this.retryPolicy.requestTimeoutMs}ms`, details);
+                    }
+                    throw new AlfaFrensNetworkError(`API request failed: ${error instanceof Error ? error.message : String(error)}`, details);
+                }
+
+                elizaLogger.warn(`[AlfaFrensApi] ${method} ${path} failed (attempt ${attempt}), retrying in ${delay}ms:`, error);
+                await sleep(delay);
+                continue;
             }
-        });
-
-        elizaLogger.debug("[AlfaFrensApi] fetch response status:", response.status);
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error("[AlfaFrensApi] API Error:", {
-                status: response.status,
-                statusText: response.statusText,
-                body: errorText
-            });
-            throw new Error(`API request failed: ${response.statusText}`);
+
+            elizaLogger.debug("[AlfaFrensApi] fetch response status:", response.status);
+            if (!response.ok) {
+                const body = parseErrorBody(await response.text());
+                const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+                elizaLogger.error("[AlfaFrensApi] API Error:", {
+                    path,
+                    status: response.status,
+                    statusText: response.statusText,
+                    body,
+                    attempt
+                });
+
+                if (idempotent && RETRYABLE_STATUS_CODES.has(response.status)) {
+                    const delay = this.getRetryDelay(attempt, startedAt, retryAfterMs);
+                    if (delay !== null) {
+                        elizaLogger.warn(`[AlfaFrensApi] ${method} ${path} returned ${response.status} (attempt ${attempt}), retrying in ${delay}ms`);
+                        await sleep(delay);
+                        continue;
+                    }
+                }
+
+                throw createAlfaFrensApiError(response.statusText, {
+                    status: response.status,
+                    body,
+                    path,
+                    method,
+                    attempts: attempt,
+                    retryAfterMs
+                });
+            }
+
+            const data = await response.json();
+            elizaLogger.debug("[AlfaFrensApi] fetch response data type:", Array.isArray(data) ? `Array[${data.length}]` : typeof data);
+            return data;
         }
+    }
 
-        const data = await response.json();
-        elizaLogger.debug("[AlfaFrensApi] fetch response data type:", Array.isArray(data) ? `Array[${data.length}]` : typeof data);
-        return data;
+    /**
+     * Calculates the delay before the next attempt
+     * @param attempt number of the attempt that just failed
+     * @param startedAt time the first attempt started
+     * @param retryAfterMs delay requested by the server, if any
+     * @returns delay in milliseconds, or null if the retry budget is exhausted
+     */
+    private getRetryDelay(attempt: number, startedAt: number, retryAfterMs?: number): number | null {
+        const { maxAttempts, baseDelayMs, maxDelayMs, deadlineMs } = this.retryPolicy;
+        if (attempt >= maxAttempts) {
+            return null;
+        }
+
+        // exponential backoff with "equal jitter": half fixed, half random
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+        const jittered = backoff / 2 + Math.random() * (backoff / 2);
+        const delay = Math.round(Math.max(jittered, retryAfterMs ?? 0));
+
+        if (Date.now() - startedAt + delay > deadlineMs) {
+            return null;
+        }
+
+        return delay;
     }
 
     /**
@@ -152,4 +267,56 @@ export class AlfaFrensApi {
             throw error;
         }
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date
+ * @returns delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks whether an error means the connection failed before a request was sent
+ */
+function isConnectionFailure(error: unknown): boolean {
+    const code = (error as { cause?: { code?: string } })?.cause?.code ?? (error as { code?: string })?.code;
+    return !!code && CONNECTION_ERROR_CODES.has(code);
+}
+
+/**
+ * Checks whether an error was caused by the per-attempt timeout
+ */
+function isTimeout(error: unknown): boolean {
+    const name = (error as { name?: string })?.name;
+    return name === "TimeoutError" || name === "AbortError";
+}
+
+/**
+ * Parses an error response body as JSON, falling back to the raw text
+ */
+function parseErrorBody(text: string): unknown {
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
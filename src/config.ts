@@ -1,6 +1,16 @@
 import { IAgentRuntime, ModelClass } from "@elizaos/core";
-import { AlfaFrensGenerationConfig } from "./types";
-import { DEFAULT_POST_TEMPLATE, DEFAULT_RESPONSE_TEMPLATE, DEFAULT_EVALUATION_TEMPLATE } from "./extensions/utils";
+import { readFileSync } from "fs";
+import {
+    AlfaFrensAnnouncementConfig,
+    AlfaFrensAnnouncementMode,
+    AlfaFrensContentCalendarEntry,
+    AlfaFrensGenerationConfig,
+    AlfaFrensMissedSlotPolicy,
+    AlfaFrensRetryPolicy
+} from "./types";
+import { DEFAULT_RETRY_POLICY } from "./api";
+import { parseCron } from "./extensions/cron";
+import { DEFAULT_POST_TEMPLATE, DEFAULT_RESPONSE_TEMPLATE, DEFAULT_EVALUATION_TEMPLATE, getNumericSetting } from "./extensions/utils";
 
 /**
  * load AlfaFrens configuration from runtime settings
@@ -26,6 +36,159 @@ export function loadAlfaFrensConfig(runtime: IAgentRuntime): AlfaFrensGeneration
     };
 }
 
+/**
+ * load the API retry policy from runtime settings
+ * @param runtime agent runtime
+ * @returns retry policy with defaults for missing settings
+ */
+export function loadAlfaFrensRetryPolicy(runtime: IAgentRuntime): AlfaFrensRetryPolicy {
+    return {
+        maxAttempts: Math.max(1, getNumericSetting(runtime, "ALFAFRENS_RETRY_MAX_ATTEMPTS", DEFAULT_RETRY_POLICY.maxAttempts)),
+        baseDelayMs: getNumericSetting(runtime, "ALFAFRENS_RETRY_BASE_DELAY_MS", DEFAULT_RETRY_POLICY.baseDelayMs),
+        maxDelayMs: getNumericSetting(runtime, "ALFAFRENS_RETRY_MAX_DELAY_MS", DEFAULT_RETRY_POLICY.maxDelayMs),
+        deadlineMs: getNumericSetting(runtime, "ALFAFRENS_RETRY_DEADLINE_MS", DEFAULT_RETRY_POLICY.deadlineMs),
+        requestTimeoutMs: getNumericSetting(runtime, "ALFAFRENS_REQUEST_TIMEOUT_MS", DEFAULT_RETRY_POLICY.requestTimeoutMs)
+    };
+}
+
+/**
+ * default startup and shutdown announcements
+ */
+export const DEFAULT_ANNOUNCEMENTS: Record<"startup" | "shutdown", AlfaFrensAnnouncementConfig> = {
+    startup: {
+        mode: "text",
+        text: "Hey AlfaFrens! I'm back online and ready to help with your questions. Feel free to ask anything!",
+        template: `You are {{character.name}}. You just came back online in your AlfaFrens community channel.
+
+TASK: Write a short, friendly message letting subscribers know you are available to answer questions.
+
+RULES:
+1. Write ONLY the message
+2. Maximum length: 1-2 sentences
+
+MESSAGE:`,
+        windowSeconds: 3600
+    },
+    shutdown: {
+        mode: "off",
+        text: "I'm going offline for a little while. I'll be back soon!",
+        template: `You are {{character.name}}. You are about to go offline in your AlfaFrens community channel.
+
+TASK: Write a short, friendly message letting subscribers know you will be away for a while.
+
+RULES:
+1. Write ONLY the message
+2. Maximum length: 1-2 sentences
+
+MESSAGE:`,
+        windowSeconds: 3600
+    }
+};
+
+/**
+ * load the startup or shutdown announcement from runtime settings
+ * @param runtime agent runtime
+ * @param kind which announcement to load
+ * @returns announcement configuration with defaults for missing settings
+ */
+export function loadAlfaFrensAnnouncementConfig(runtime: IAgentRuntime, kind: "startup" | "shutdown"): AlfaFrensAnnouncementConfig {
+    const prefix = `ALFAFRENS_${kind.toUpperCase()}_MESSAGE`;
+    const defaults = DEFAULT_ANNOUNCEMENTS[kind];
+
+    return {
+        mode: parseAnnouncementMode(runtime.getSetting(`${prefix}_MODE`)) || defaults.mode,
+        text: runtime.getSetting(prefix) || defaults.text,
+        template: runtime.getSetting(`${prefix}_TEMPLATE`) || defaults.template,
+        windowSeconds: getNumericSetting(runtime, `${prefix}_WINDOW_SECONDS`, defaults.windowSeconds)
+    };
+}
+
+/**
+ * load the content calendar from runtime settings
+ *
+ * Entries are read from `ALFAFRENS_CONTENT_CALENDAR` (a JSON array) or from the
+ * JSON file at `ALFAFRENS_CONTENT_CALENDAR_FILE`, which may hold an array or an
+ * object with an `entries` array.
+ * @param runtime agent runtime
+ * @returns calendar entries, empty if no calendar is configured
+ * @throws Error if the calendar can't be read or an entry is invalid
+ */
+export function loadAlfaFrensContentCalendar(runtime: IAgentRuntime): AlfaFrensContentCalendarEntry[] {
+    let raw: unknown = runtime.getSetting("ALFAFRENS_CONTENT_CALENDAR");
+    const file = runtime.getSetting("ALFAFRENS_CONTENT_CALENDAR_FILE");
+
+    if (!raw && file) {
+        try {
+            raw = readFileSync(file, "utf-8");
+        } catch (error) {
+            throw new Error(`Failed to read ALFAFRENS_CONTENT_CALENDAR_FILE ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    if (!raw) {
+        return [];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+    } catch (error) {
+        throw new Error(`Content calendar must be valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const entries = Array.isArray(parsed) ? parsed : (parsed as { entries?: unknown })?.entries;
+    if (!Array.isArray(entries)) {
+        throw new Error("Content calendar must be a JSON array of entries");
+    }
+
+    return entries.map((entry: Record<string, any>, index) => {
+        if (!entry?.cron) {
+            throw new Error(`Content calendar entry ${index} is missing cron`);
+        }
+        if (!entry.template && !entry.text) {
+            throw new Error(`Content calendar entry ${index} needs a template or text`);
+        }
+        // validate the expression early
+        parseCron(String(entry.cron));
+
+        return {
+            id: String(entry.id ?? `entry-${index + 1}`),
+            cron: String(entry.cron),
+            template: entry.template,
+            text: entry.text,
+            modelClass: parseModelClass(entry.modelClass),
+            enabled: entry.enabled === undefined ? true : String(entry.enabled) === "true",
+            channelId: entry.channelId,
+            timeZone: entry.timeZone
+        };
+    });
+}
+
+/**
+ * load the policy for content calendar slots missed while offline
+ * @param runtime agent runtime
+ * @returns the policy, "skip" by default
+ */
+export function loadAlfaFrensMissedSlotPolicy(runtime: IAgentRuntime): AlfaFrensMissedSlotPolicy {
+    const policy = runtime.getSetting("ALFAFRENS_CALENDAR_MISSED_POLICY")?.toLowerCase();
+    return policy === "once" || policy === "all" ? policy : "skip";
+}
+
+/**
+ * Parse an announcement mode setting
+ */
+function parseAnnouncementMode(mode?: string): AlfaFrensAnnouncementMode | undefined {
+    if (!mode) return undefined;
+
+    switch (mode.toLowerCase()) {
+        case "text": return "text";
+        case "generate": return "generate";
+        case "off":
+        case "false": return "off";
+        default: return undefined;
+    }
+}
+
 /**
  * Parse a model class string to ModelClass enum
  */
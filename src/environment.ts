@@ -1,4 +1,5 @@
 import { elizaLogger, IAgentRuntime } from "@elizaos/core";
+import type { AlfaFrensConfig as AlfaFrensChannelConfig } from "./types";
 
 /**
  * AlfaFrens configuration
@@ -78,6 +79,63 @@ export function validateAlfaFrensConfig(runtime: IAgentRuntime): AlfaFrensConfig
     };
 }
 
+/**
+ * load the channels the client should serve
+ *
+ * Channels are read from `ALFAFRENS_CHANNELS`, a JSON array of channel objects.
+ * Fields missing from an entry are taken from `defaults`, which holds the
+ * top-level `ALFAFRENS_*` settings. Without `ALFAFRENS_CHANNELS` the defaults
+ * describe the only channel.
+ * @param runtime The agent runtime
+ * @param defaults configuration built from the top-level settings
+ * @returns one configuration per channel, the first one being the primary channel
+ * @throws Error if the setting is not valid JSON or an entry has no channel ID
+ */
+export function loadAlfaFrensChannelConfigs(
+    runtime: IAgentRuntime,
+    defaults: AlfaFrensChannelConfig
+): AlfaFrensChannelConfig[] {
+    const raw = runtime.getSetting(ALFAFRENS_ENV.CHANNELS);
+    if (!raw) {
+        return [defaults];
+    }
+
+    let entries: unknown;
+    try {
+        entries = typeof raw === "string" ? JSON.parse(raw) : raw;
+    } catch (error) {
+        throw new Error(`${ALFAFRENS_ENV.CHANNELS} must be a JSON array: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error(`${ALFAFRENS_ENV.CHANNELS} must be a non-empty JSON array`);
+    }
+
+    const configs = entries.map((entry: Partial<AlfaFrensChannelConfig>, index) => {
+        if (!entry?.channelId) {
+            throw new Error(`${ALFAFRENS_ENV.CHANNELS}[${index}] is missing channelId`);
+        }
+
+        return {
+            ...defaults,
+            ...entry,
+            channelId: String(entry.channelId),
+            pollInterval: Number(entry.pollInterval ?? defaults.pollInterval),
+            enablePost: entry.enablePost === undefined ? defaults.enablePost : String(entry.enablePost) === "true",
+            postIntervalMin: Number(entry.postIntervalMin ?? defaults.postIntervalMin),
+            postIntervalMax: Number(entry.postIntervalMax ?? defaults.postIntervalMax)
+        };
+    });
+
+    const ids = new Set(configs.map(config => config.channelId));
+    if (ids.size !== configs.length) {
+        throw new Error(`${ALFAFRENS_ENV.CHANNELS} contains duplicate channel IDs`);
+    }
+
+    elizaLogger.debug("[AlfaFrensConfig] Channels loaded:", configs.map(config => config.channelId));
+    return configs;
+}
+
 /**
  * environment variables for AlfaFrens client
  */
@@ -88,24 +146,150 @@ export const ALFAFRENS_ENV = {
     USER_ID: "ALFAFRENS_USER_ID",
     /** channel ID to interact with */
     CHANNEL_ID: "ALFAFRENS_CHANNEL_ID",
+    /** JSON array of channel configurations for serving several channels */
+    CHANNELS: "ALFAFRENS_CHANNELS",
     /** username for the bot */
     USERNAME: "ALFAFRENS_USERNAME",
     /** interval between polling for messages in seconds */
     POLL_INTERVAL: "ALFAFRENS_POLL_INTERVAL",
+    /** how far back to catch up on missed messages after a restart in seconds */
+    MAX_LOOKBACK_SECONDS: "ALFAFRENS_MAX_LOOKBACK_SECONDS",
+    /** maximum number of responses generated at the same time */
+    RESPONSE_CONCURRENCY: "ALFAFRENS_RESPONSE_CONCURRENCY",
+    /** replies per sender, as replies/seconds, e.g. 5/60; 0 for no limit */
+    RATE_LIMIT_PER_SENDER: "ALFAFRENS_RATE_LIMIT_PER_SENDER",
+    /** replies per thread, as replies/seconds; 0 for no limit */
+    RATE_LIMIT_PER_THREAD: "ALFAFRENS_RATE_LIMIT_PER_THREAD",
+    /** replies in the channel, as replies/seconds; 0 for no limit */
+    RATE_LIMIT_PER_CHANNEL: "ALFAFRENS_RATE_LIMIT_PER_CHANNEL",
+    /** minimum time between two replies in the same thread in seconds */
+    THREAD_COOLDOWN_SECONDS: "ALFAFRENS_THREAD_COOLDOWN_SECONDS",
+    /** a reply to the bot faster than this many seconds counts towards loop detection */
+    LOOP_REPLY_SECONDS: "ALFAFRENS_LOOP_REPLY_SECONDS",
+    /** fast replies in a row after which a sender is treated as a reply loop, 0 to disable */
+    LOOP_MAX_FAST_REPLIES: "ALFAFRENS_LOOP_MAX_FAST_REPLIES",
+    /** how long a sender in a reply loop is not replied to in seconds */
+    LOOP_PAUSE_SECONDS: "ALFAFRENS_LOOP_PAUSE_SECONDS",
+    /** maximum number of messages queued per poll, the rest wait for the next poll */
+    MAX_QUEUE_SIZE: "ALFAFRENS_MAX_QUEUE_SIZE",
+    /** attempts at answering a message before it is given up */
+    MESSAGE_MAX_ATTEMPTS: "ALFAFRENS_MESSAGE_MAX_ATTEMPTS",
+    /** how far back to look for the start of a reply thread in seconds */
+    THREAD_LOOKBACK_SECONDS: "ALFAFRENS_THREAD_LOOKBACK_SECONDS",
+    /** maximum number of thread messages given to the model as context */
+    THREAD_MAX_MESSAGES: "ALFAFRENS_THREAD_MAX_MESSAGES",
+    /** also give the model earlier replies to the messages of the thread, true or false */
+    THREAD_INCLUDE_REPLIES: "ALFAFRENS_THREAD_INCLUDE_REPLIES",
+    /** startup announcement mode: text, generate or off */
+    STARTUP_MESSAGE_MODE: "ALFAFRENS_STARTUP_MESSAGE_MODE",
+    /** startup announcement text, also used if generation fails */
+    STARTUP_MESSAGE: "ALFAFRENS_STARTUP_MESSAGE",
+    /** template for generating the startup announcement */
+    STARTUP_MESSAGE_TEMPLATE: "ALFAFRENS_STARTUP_MESSAGE_TEMPLATE",
+    /** skip the startup announcement if one was sent within this many seconds */
+    STARTUP_MESSAGE_WINDOW_SECONDS: "ALFAFRENS_STARTUP_MESSAGE_WINDOW_SECONDS",
+    /** shutdown announcement mode: text, generate or off */
+    SHUTDOWN_MESSAGE_MODE: "ALFAFRENS_SHUTDOWN_MESSAGE_MODE",
+    /** shutdown announcement text, also used if generation fails */
+    SHUTDOWN_MESSAGE: "ALFAFRENS_SHUTDOWN_MESSAGE",
+    /** template for generating the shutdown announcement */
+    SHUTDOWN_MESSAGE_TEMPLATE: "ALFAFRENS_SHUTDOWN_MESSAGE_TEMPLATE",
+    /** skip the shutdown announcement if one was sent within this many seconds */
+    SHUTDOWN_MESSAGE_WINDOW_SECONDS: "ALFAFRENS_SHUTDOWN_MESSAGE_WINDOW_SECONDS",
     /** whether to enable automated posting */
     ENABLE_POST: "ALFAFRENS_ENABLE_POST",
     /** minimum interval between posts in seconds */
     POST_INTERVAL_MIN: "ALFAFRENS_POST_INTERVAL_MIN",
     /** maximum interval between posts in seconds */
     POST_INTERVAL_MAX: "ALFAFRENS_POST_INTERVAL_MAX",
+    /** daily period without automated posts, as "HH:mm-HH:mm" */
+    POST_QUIET_HOURS: "ALFAFRENS_POST_QUIET_HOURS",
+    /** IANA time zone for post scheduling */
+    POST_TIMEZONE: "ALFAFRENS_POST_TIMEZONE",
+    /** content calendar entries as a JSON array */
+    CONTENT_CALENDAR: "ALFAFRENS_CONTENT_CALENDAR",
+    /** path to a JSON file with content calendar entries */
+    CONTENT_CALENDAR_FILE: "ALFAFRENS_CONTENT_CALENDAR_FILE",
+    /** what to do with calendar slots missed while offline: skip, once or all */
+    CALENDAR_MISSED_POLICY: "ALFAFRENS_CALENDAR_MISSED_POLICY",
+    /** delay for deferred fact validation in seconds */
+    FACT_VALIDATION_DELAY_SECONDS: "ALFAFRENS_FACT_VALIDATION_DELAY_SECONDS",
+    /** similarity backend for fact validation: embedding or jaccard */
+    SIMILARITY_BACKEND: "ALFAFRENS_SIMILARITY_BACKEND",
+    /** minimum similarity (0-1) of a stored fact to be compared with a new one */
+    FACT_RELEVANCE_THRESHOLD: "ALFAFRENS_FACT_RELEVANCE_THRESHOLD",
+    /** minimum similarity (0-1) of two facts to be checked for a contradiction */
+    FACT_CONTRADICTION_THRESHOLD: "ALFAFRENS_FACT_CONTRADICTION_THRESHOLD",
+    /** minimum confidence (0-1) of a fact to be stored */
+    FACT_CONFIDENCE_THRESHOLD: "ALFAFRENS_FACT_CONFIDENCE_THRESHOLD",
+    /** days after which an unused fact has lost half its priority */
+    FACT_HALF_LIFE_DAYS: "ALFAFRENS_FACT_HALF_LIFE_DAYS",
+    /** facts whose priority decays below this (0-1) are archived */
+    FACT_ARCHIVE_PRIORITY: "ALFAFRENS_FACT_ARCHIVE_PRIORITY",
+    /** weight (0-1) of fact priority against similarity when picking facts for a prompt */
+    FACT_PRIORITY_WEIGHT: "ALFAFRENS_FACT_PRIORITY_WEIGHT",
+    /** how often low-priority facts are archived in seconds */
+    FACT_MAINTENANCE_INTERVAL_SECONDS: "ALFAFRENS_FACT_MAINTENANCE_INTERVAL_SECONDS",
+    /** maximum number of stored facts given to the model as context */
+    PROMPT_FACT_COUNT: "ALFAFRENS_PROMPT_FACT_COUNT",
+    /** maximum number of entity relationships given to the model as context */
+    PROMPT_RELATIONSHIP_COUNT: "ALFAFRENS_PROMPT_RELATIONSHIP_COUNT",
+    /** entity aliases as a JSON object of alias to entity name */
+    ENTITY_ALIASES: "ALFAFRENS_ENTITY_ALIASES",
+    /** comma-separated user IDs allowed to use /review commands */
+    MODERATOR_IDS: "ALFAFRENS_MODERATOR_IDS",
+    /** comma-separated usernames also allowed to use /review commands, usernames can change hands */
+    MODERATOR_USERNAMES: "ALFAFRENS_MODERATOR_USERNAMES",
+    /** confidence (0-1) given to facts approved by a moderator */
+    FACT_REVIEW_CONFIDENCE: "ALFAFRENS_FACT_REVIEW_CONFIDENCE",
+    /** how the facts of a response are validated: per-fact, batch or async (after sending, with a follow-up correction) */
+    FACT_VALIDATION_MODE: "ALFAFRENS_FACT_VALIDATION_MODE",
+    /** maximum number of model calls spent validating the facts of one response */
+    FACT_VALIDATION_MAX_LLM_CALLS: "ALFAFRENS_FACT_VALIDATION_MAX_LLM_CALLS",
+    /** minimum time between corrections of sent messages in seconds */
+    CORRECTION_MIN_INTERVAL_SECONDS: "ALFAFRENS_CORRECTION_MIN_INTERVAL_SECONDS",
+    /** FAQ file in the nested RESPONSE outline format, defaults to the FAQ shipped with the plugin */
+    FAQ_PATH: "ALFAFRENS_FAQ_PATH",
+    /** maximum number of FAQ answers given to the model as knowledge */
+    FAQ_RESULT_COUNT: "ALFAFRENS_FAQ_RESULT_COUNT",
+    /** how questions about AlfaFrens without supporting knowledge are answered: off, hedge or refuse */
+    GROUNDING_MODE: "ALFAFRENS_GROUNDING_MODE",
+    /** minimum similarity (0-1) of a knowledge chunk to support an answer */
+    GROUNDING_THRESHOLD: "ALFAFRENS_GROUNDING_THRESHOLD",
+    /** reply sent instead of an unsupported answer in refuse mode */
+    GROUNDING_FALLBACK: "ALFAFRENS_GROUNDING_FALLBACK",
+    /** comma-separated words marking a question as being about AlfaFrens */
+    GROUNDING_TOPICS: "ALFAFRENS_GROUNDING_TOPICS",
+    /** when messages are looked up with the web search service: auto (time-sensitive or factual questions), always or off */
+    WEB_SEARCH_MODE: "ALFAFRENS_WEB_SEARCH_MODE",
+    /** how long web search results are cached per query in seconds */
+    WEB_SEARCH_CACHE_TTL_SECONDS: "ALFAFRENS_WEB_SEARCH_CACHE_TTL_SECONDS",
+    /** whether to list the URLs of the web search results used at the end of a reply */
+    WEB_SEARCH_ATTRIBUTION: "ALFAFRENS_WEB_SEARCH_ATTRIBUTION",
     /** model class for evaluation */
     EVALUATION_MODEL_CLASS: "ALFAFRENS_EVALUATION_MODEL_CLASS",
     /** model class for response generation */
     RESPONSE_MODEL_CLASS: "ALFAFRENS_RESPONSE_MODEL_CLASS",
     /** model class for post generation */
     POST_MODEL_CLASS: "ALFAFRENS_POST_MODEL_CLASS",
-    /** number of messages to keep in history */
-    HISTORY_COUNT: "ALFAFRENS_HISTORY_COUNT"
+    /** approximate number of tokens of conversation history given to the model */
+    HISTORY_TOKEN_BUDGET: "ALFAFRENS_HISTORY_TOKEN_BUDGET",
+    /** approximate number of tokens of knowledge (FAQ and knowledge base) given to the model */
+    CONTEXT_KNOWLEDGE_TOKEN_BUDGET: "ALFAFRENS_CONTEXT_KNOWLEDGE_TOKEN_BUDGET",
+    /** approximate number of tokens of web search results given to the model */
+    CONTEXT_WEBSEARCH_TOKEN_BUDGET: "ALFAFRENS_CONTEXT_WEBSEARCH_TOKEN_BUDGET",
+    /** approximate number of tokens of known facts and relationships given to the model */
+    CONTEXT_FACTS_TOKEN_BUDGET: "ALFAFRENS_CONTEXT_FACTS_TOKEN_BUDGET",
+    /** maximum number of attempts per API request */
+    RETRY_MAX_ATTEMPTS: "ALFAFRENS_RETRY_MAX_ATTEMPTS",
+    /** base delay for API retry backoff in milliseconds */
+    RETRY_BASE_DELAY_MS: "ALFAFRENS_RETRY_BASE_DELAY_MS",
+    /** maximum delay between API retries in milliseconds */
+    RETRY_MAX_DELAY_MS: "ALFAFRENS_RETRY_MAX_DELAY_MS",
+    /** total time budget for an API request including retries in milliseconds */
+    RETRY_DEADLINE_MS: "ALFAFRENS_RETRY_DEADLINE_MS",
+    /** timeout for a single API request attempt in milliseconds */
+    REQUEST_TIMEOUT_MS: "ALFAFRENS_REQUEST_TIMEOUT_MS"
 } as const;
 
 /**
@@ -114,12 +298,16 @@ export const ALFAFRENS_ENV = {
  * @returns true if all required variables are set
  */
 export function validateAlfaFrensEnv(runtime: IAgentRuntime): boolean {
-    const requiredVars = [
+    const requiredVars: string[] = [
         ALFAFRENS_ENV.API_KEY,
-        ALFAFRENS_ENV.USER_ID,
-        ALFAFRENS_ENV.CHANNEL_ID
+        ALFAFRENS_ENV.USER_ID
     ];
 
+    // a channel list replaces the single channel ID
+    if (!runtime.getSetting(ALFAFRENS_ENV.CHANNELS)) {
+        requiredVars.push(ALFAFRENS_ENV.CHANNEL_ID);
+    }
+
     const missingVars = requiredVars.filter(varName => !runtime.getSetting(varName));
     if (missingVars.length > 0) {
         elizaLogger.error("[AlfaFrens] missing required environment variables:", missingVars);
@@ -0,0 +1,115 @@
+/**
+ * details attached to every AlfaFrens API error
+ */
+export interface AlfaFrensApiErrorDetails {
+    /** HTTP status code, if the server responded */
+    status?: number;
+    /** parsed response body (JSON if possible, raw text otherwise) */
+    body?: unknown;
+    /** request path, without the base URL */
+    path: string;
+    /** HTTP method of the request */
+    method?: string;
+    /** number of attempts made before giving up */
+    attempts: number;
+    /** underlying error, for network failures */
+    cause?: unknown;
+}
+
+/**
+ * base class for errors raised by the AlfaFrens API client
+ */
+export class AlfaFrensApiError extends Error {
+    readonly status?: number;
+    readonly body?: unknown;
+    readonly path: string;
+    readonly method?: string;
+    readonly attempts: number;
+    readonly cause?: unknown;
+
+    constructor(message: string, details: AlfaFrensApiErrorDetails) {
+        super(message);
+        this.name = new.target.name;
+        this.status = details.status;
+        this.body = details.body;
+        this.path = details.path;
+        this.method = details.method;
+        this.attempts = details.attempts;
+        this.cause = details.cause;
+    }
+}
+
+/**
+ * the API key is missing, invalid or has been revoked (401/403)
+ */
+export class AlfaFrensAuthenticationError extends AlfaFrensApiError {}
+
+/**
+ * the API rejected the request because of rate limiting (429)
+ */
+export class AlfaFrensRateLimitError extends AlfaFrensApiError {
+    /** delay requested by the server through Retry-After, in milliseconds */
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, details: AlfaFrensApiErrorDetails & { retryAfterMs?: number }) {
+        super(message, details);
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
+
+/**
+ * the requested resource does not exist (404)
+ */
+export class AlfaFrensNotFoundError extends AlfaFrensApiError {}
+
+/**
+ * the request payload was rejected (400/422)
+ */
+export class AlfaFrensValidationError extends AlfaFrensApiError {}
+
+/**
+ * the API failed to handle the request (5xx)
+ */
+export class AlfaFrensServerError extends AlfaFrensApiError {}
+
+/**
+ * the request never got a response because of a connection problem
+ */
+export class AlfaFrensNetworkError extends AlfaFrensApiError {}
+
+/**
+ * the request did not complete within the configured timeout
+ */
+export class AlfaFrensTimeoutError extends AlfaFrensApiError {}
+
+/**
+ * create the matching typed error for an HTTP error response
+ * @param statusText status text of the response
+ * @param details error details including the status code
+ * @returns typed API error
+ */
+export function createAlfaFrensApiError(
+    statusText: string,
+    details: AlfaFrensApiErrorDetails & { status: number; retryAfterMs?: number }
+): AlfaFrensApiError {
+    const message = `API request failed: ${details.status} ${statusText}`.trim();
+    const { status } = details;
+
+    if (status === 401 || status === 403) {
+        return new AlfaFrensAuthenticationError(message, details);
+    }
+    if (status === 429) {
+        return new AlfaFrensRateLimitError(message, details);
+    }
+    if (status === 404) {
+        return new AlfaFrensNotFoundError(message, details);
+    }
+    if (status === 400 || status === 422) {
+        return new AlfaFrensValidationError(message, details);
+    }
+    if (status >= 500) {
+        return new AlfaFrensServerError(message, details);
+    }
+
+    return new AlfaFrensApiError(message, details);
+}
@@ -1,6 +1,7 @@
 import { IAgentRuntime, elizaLogger, Action, Memory } from "@elizaos/core";
 import { AlfaFrensManager } from "../alfafrens-client";
-import { generatePostContent, generateResponse } from "./utils";
+import { generatePostContent, generateResponse, getNumericSetting } from "./utils";
+import { ThreadService } from "./threads";
 import { loadAlfaFrensConfig } from "../config";
 import type { AlfaFrensMessage, AlfaFrensMemoryContent } from "../types";
 
@@ -9,6 +10,7 @@ import type { AlfaFrensMessage, AlfaFrensMemoryContent } from "../types";
  */
 async function getMessageHistory(
     client: AlfaFrensManager,
+    runtime: IAgentRuntime,
     message: Memory,
     maxHistory: number = 5
 ): Promise<AlfaFrensMessage[]> {
@@ -20,26 +22,11 @@ async function getMessageHistory(
             return [];
         }
 
-        const messages = await client.getMessages({
-            roomId: client.config.channelId,
-            until: Date.now(),
-            includeReplies: true
+        // fetches the channel with replies and follows the reply tree back to its root
+        const threads = new ThreadService(client, client.config.channelId, {
+            lookbackMs: getNumericSetting(runtime, "ALFAFRENS_THREAD_LOOKBACK_SECONDS", 86400) * 1000
         });
-
-        // filter messages to get the conversation thread
-        const thread: AlfaFrensMessage[] = [];
-        let currentMessage = messages.find(m => m.id === replyTo);
-
-        while (currentMessage && thread.length < maxHistory) {
-            thread.unshift(currentMessage);
-            if (currentMessage.replyTo) {
-                currentMessage = messages.find(m => m.id === currentMessage.replyTo);
-            } else {
-                break;
-            }
-        }
-
-        return thread;
+        return await threads.getThread(replyTo, maxHistory);
     } catch (error) {
         elizaLogger.error("[AlfaFrensAction] failed to get message history:", error);
         return [];
@@ -116,7 +103,7 @@ export function createAlfaFrensActions(
             handler: async (runtime: IAgentRuntime, message: Memory) => {
                 try {
                     const content = message.content as AlfaFrensMemoryContent;
-                    const history = await getMessageHistory(client, message);
+                    const history = await getMessageHistory(client, runtime, message);
 
                     const responseContent = content.text || await generateResponse(
                         runtime,
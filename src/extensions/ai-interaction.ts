@@ -1,7 +1,17 @@
-import { IAgentRuntime, elizaLogger, ModelClass, generateText, stringToUuid, UUID } from "@elizaos/core";
-import type { AlfaFrensConfig, AlfaFrensMessage, AlfaFrensGenerationConfig } from "../types";
+import { IAgentRuntime, Memory, elizaLogger, ModelClass, stringToUuid, UUID } from "@elizaos/core";
+import type {
+    AlfaFrensConfig,
+    AlfaFrensMessage,
+    AlfaFrensGenerationConfig,
+    AlfaFrensGroundingDecision,
+    AlfaFrensMemoryContent
+} from "../types";
 import { createAlfaFrensMemory } from "../memory";
+import { AlfaFrensAuthenticationError, AlfaFrensNetworkError, AlfaFrensRateLimitError } from "../errors";
 import { FactValidationManager } from "./fact-validation";
+import { handleReviewCommand, isModerator, isReviewCommand } from "./fact-review";
+import { AlfaFrensCorrections } from "./corrections";
+import { createSimilarityBackend } from "./similarity";
 import {
     DEFAULT_RESPONSE_TEMPLATE,
     DEFAULT_POST_TEMPLATE,
@@ -11,9 +21,15 @@ import {
     processTemplate,
     evaluateMessage,
     generatePostContent,
-    generateResponse as generateResponseUtil
+    generateResponse as generateResponseUtil,
+    type DeferredResponseValidation
 } from "./utils";
 import { AlfaFrensTaskManager } from "./tasks";
+import { ChannelCursor } from "./cursor";
+import { ThreadService } from "./threads";
+import { loadReplyRateLimitConfig, ReplyRateLimiter, type ReplyRateLimitMetrics } from "./rate-limit";
+import { PostScheduler } from "./post-scheduler";
+import { BoundedQueue, ConcurrencyLimiter, RecurringJob } from "./concurrency";
 
 export interface AlfaFrensClient {
     config: AlfaFrensConfig;
@@ -53,6 +69,8 @@ export interface AlfaFrensAIInteractionOptions {
     postTemplate?: string;
     /** pre-loaded generation configuration */
     generationConfig?: AlfaFrensGenerationConfig;
+    /** configuration of the channel to interact with (defaults to the client's primary channel) */
+    channelConfig?: AlfaFrensConfig;
 }
 
 /**
@@ -85,17 +103,30 @@ function getConfig<T extends 'evaluation' | 'response' | 'post'>(
 
     return {
         template: options[`${type}Template`] || defaultTemplates[type],
-        modelClass: options.modelClass || getModelClass(runtime, settingNames[type])
+        modelClass: options.generationConfig?.[type]?.modelClass ||
+            options.modelClass ||
+            getModelClass(runtime, settingNames[type])
     };
 }
 
+/**
+ * outcome of processing a message
+ * - answered: the reply was sent
+ * - skipped: deliberately not answered
+ * - unconfirmed: sending the reply failed after it may have been posted, so it isn't retried
+ * - failed: nothing was sent, the next poll retries the message
+ */
+type MessageOutcome = "answered" | "skipped" | "unconfirmed" | "failed";
+
 /**
  * an extension for AI-powered interactions with AlfaFrens messages
  */
 export class AlfaFrensAIInteraction {
     private runtime: IAgentRuntime;
     private client: AlfaFrensClient;
+    private config: AlfaFrensConfig;
     private factValidationManager: FactValidationManager;
+    private corrections: AlfaFrensCorrections;
     private taskManager: AlfaFrensTaskManager;
     private options: {
         evaluationTemplate?: string;
@@ -107,10 +138,14 @@ export class AlfaFrensAIInteraction {
         generationConfig?: AlfaFrensGenerationConfig;
     };
     private isRunning: boolean = false;
-    private messageHistory: AlfaFrensMessage[] = [];
-    private lastProcessedTime: number = Date.now();
-    private pollIntervalId: NodeJS.Timeout | null = null;
-    private postIntervalId: NodeJS.Timeout | null = null;
+    private threads: ThreadService;
+    private cursor: ChannelCursor;
+    private pollJob: RecurringJob | null = null;
+    private queue: BoundedQueue<AlfaFrensMessage>;
+    private responseLimiter: ConcurrencyLimiter;
+    private rateLimiter: ReplyRateLimiter;
+    private maxAttempts: number;
+    private postScheduler: PostScheduler | null = null;
     // Track our sent message IDs
     private sentMessageIds: Set<string> = new Set();
 
@@ -125,8 +160,30 @@ export class AlfaFrensAIInteraction {
         this.client = client;
         this.runtime = runtime;
         this.options = options;
-        this.factValidationManager = new FactValidationManager(runtime);
-        this.taskManager = new AlfaFrensTaskManager(runtime);
+        this.config = options.channelConfig || client.config;
+        this.cursor = new ChannelCursor(runtime, this.config.channelId);
+        this.threads = new ThreadService(client, this.config.channelId, {
+            lookbackMs: getNumericSetting(runtime, "ALFAFRENS_THREAD_LOOKBACK_SECONDS", 86400) * 1000,
+            maxMessages: options.maxHistoryLength || 200,
+            includeDirectReplies: runtime.getSetting("ALFAFRENS_THREAD_INCLUDE_REPLIES") === "true"
+        });
+        // one backend for the channel, so its embedding cache lasts across replies
+        const similarity = createSimilarityBackend(runtime);
+        this.factValidationManager = new FactValidationManager(runtime, similarity);
+        this.corrections = new AlfaFrensCorrections(
+            runtime,
+            (content, inReplyTo) => this.sendReply(content, inReplyTo),
+            { namespace: this.config.channelId, store: this.factValidationManager.store, similarity }
+        );
+        this.taskManager = new AlfaFrensTaskManager(runtime, {
+            namespace: this.config.channelId,
+            factValidationManager: this.factValidationManager,
+            corrections: this.corrections
+        });
+        this.queue = new BoundedQueue(getNumericSetting(runtime, "ALFAFRENS_MAX_QUEUE_SIZE", 100));
+        this.responseLimiter = new ConcurrencyLimiter(getNumericSetting(runtime, "ALFAFRENS_RESPONSE_CONCURRENCY", 1));
+        this.rateLimiter = new ReplyRateLimiter(loadReplyRateLimitConfig(runtime));
+        this.maxAttempts = getNumericSetting(runtime, "ALFAFRENS_MESSAGE_MAX_ATTEMPTS", 3);
     }
 
     /**
@@ -148,33 +205,40 @@ export class AlfaFrensAIInteraction {
         elizaLogger.debug("[AlfaFrensAIInteraction] using interval:", interval, "seconds");
         elizaLogger.info(`[AlfaFrensAIInteraction] Starting AI interaction manager with interval: ${interval}s`);
 
-        // Setup direct polling interval
-        this.pollIntervalId = setInterval(() => {
-            elizaLogger.debug("[AlfaFrensAIInteraction] Poll interval triggered");
-            this.processMessages().catch(err => {
-                elizaLogger.error("[AlfaFrensAIInteraction] Error processing messages:", err);
-            });
-        }, interval * 1000);
+        // Resume from the persisted cursor, catching up on messages missed while offline
+        const maxLookbackSeconds = getNumericSetting(this.runtime, "ALFAFRENS_MAX_LOOKBACK_SECONDS", 3600);
+        await this.cursor.load(maxLookbackSeconds * 1000);
+
+        // Resume persisted background tasks, e.g. deferred fact validation
+        await this.taskManager.scheduleFactMaintenance();
+        await this.taskManager.start();
+
+        // Poll without overlapping: the next poll starts only after the previous one finished
+        this.pollJob = new RecurringJob(
+            `poll ${this.config.channelId}`,
+            () => this.processMessages(),
+            interval * 1000
+        );
 
         // Run initial message processing
-        await this.processMessages().catch(err => {
-            elizaLogger.error("[AlfaFrensAIInteraction] Error in initial message processing:", err);
-        });
+        await this.pollJob.trigger();
+        this.pollJob.start();
 
         // Setup posting if enabled
-        if (this.client.config.enablePost) {
-            const postInterval = Math.floor(
-                Math.random() * (this.client.config.postIntervalMax - this.client.config.postIntervalMin) +
-                this.client.config.postIntervalMin
+        if (this.config.enablePost) {
+            elizaLogger.debug(`[AlfaFrensAIInteraction] Scheduling posts every ${this.config.postIntervalMin}-${this.config.postIntervalMax}s`);
+            this.postScheduler = new PostScheduler(
+                this.runtime,
+                this.config.channelId,
+                () => this.createPost(),
+                {
+                    minIntervalSeconds: this.config.postIntervalMin,
+                    maxIntervalSeconds: this.config.postIntervalMax,
+                    quietHours: this.config.postQuietHours,
+                    timeZone: this.config.postTimeZone
+                }
             );
-
-            elizaLogger.debug(`[AlfaFrensAIInteraction] Setting up post interval: ${postInterval}s`);
-            this.postIntervalId = setInterval(() => {
-                elizaLogger.debug("[AlfaFrensAIInteraction] Post interval triggered");
-                this.createPost().catch(err => {
-                    elizaLogger.error("[AlfaFrensAIInteraction] Error creating post:", err);
-                });
-            }, postInterval * 1000);
+            await this.postScheduler.start();
         }
 
         elizaLogger.info("[AlfaFrensAIInteraction] Started successfully");
@@ -192,16 +256,46 @@ export class AlfaFrensAIInteraction {
         elizaLogger.info("[AlfaFrensAIInteraction] Stopping AI interaction manager");
         this.isRunning = false;
 
-        // Clear intervals
-        if (this.pollIntervalId) {
-            clearInterval(this.pollIntervalId);
-            this.pollIntervalId = null;
+        // Stop polling, a poll in progress stops after the current messages
+        if (this.pollJob) {
+            this.pollJob.stop();
+            this.pollJob = null;
         }
 
-        if (this.postIntervalId) {
-            clearInterval(this.postIntervalId);
-            this.postIntervalId = null;
+        if (this.postScheduler) {
+            this.postScheduler.stop();
+            this.postScheduler = null;
         }
+
+        await this.taskManager.stop();
+    }
+
+    /**
+     * pause automated posting until resumed
+     */
+    pausePosting(): void {
+        this.postScheduler?.pause();
+    }
+
+    /**
+     * resume automated posting, making an overdue post right away
+     */
+    resumePosting(): void {
+        this.postScheduler?.resume();
+    }
+
+    /**
+     * the channel's task queue, e.g. to list, cancel or requeue background tasks
+     */
+    getTaskManager(): AlfaFrensTaskManager {
+        return this.taskManager;
+    }
+
+    /**
+     * counts of replies allowed and limited by the reply rate limits
+     */
+    getRateLimitMetrics(): ReplyRateLimitMetrics {
+        return this.rateLimiter.getMetrics();
     }
 
     /**
@@ -218,62 +312,53 @@ export class AlfaFrensAIInteraction {
             }
 
             // fetch new messages from the API with room ID
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Current lastProcessedTime: ${this.lastProcessedTime}`);
             const startTimestamp = Date.now();
 
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Fetching messages since ${this.lastProcessedTime}`);
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] About to call client.getMessages for room ${this.client.config.channelId}`);
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Fetching messages since ${this.cursor.since}`);
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] About to call client.getMessages for room ${this.config.channelId}`);
 
-            const messages = await this.client.getMessages({
-                roomId: this.client.config.channelId,
-                since: this.lastProcessedTime,
+            const fetched = await this.client.getMessages({
+                roomId: this.config.channelId,
+                since: this.cursor.since,
                 includeReactions: false,
                 includeReplies: false
             });
 
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Retrieved ${messages.length} messages`);
+            // drop messages we already handled, the cursor is inclusive
+            const messages = this.cursor.filterNew(fetched);
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Retrieved ${fetched.length} messages, ${messages.length} new`);
 
             if (messages.length === 0) {
                 elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] No new messages to process`);
                 return;
             }
 
-            // update our history with the new messages
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Updating message history, current length: ${this.messageHistory.length}`);
-            this.messageHistory = this.messageHistory
-                .concat(messages)
-                // keep the last 50 messages
-                .slice(-50);
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] New history length: ${this.messageHistory.length}`);
-
-            // update the last processed time
-            const lastTimestamp = messages[messages.length - 1].timestamp;
-            this.lastProcessedTime = new Date(lastTimestamp).getTime() + 1; // add 1ms to avoid duplicates
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] New lastProcessedTime: ${this.lastProcessedTime}`);
-
-            // process the messages in batches (handle 10 at a time)
-            const batchSize = 10;
-            const messageBatches = [];
-
-            for (let i = 0; i < messages.length; i += batchSize) {
-                messageBatches.push(messages.slice(i, i + batchSize));
-            }
+            // index the new messages so replies can be linked into threads
+            this.threads.remember(messages);
 
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Processing ${messageBatches.length} message batches`);
-
-            for (const batch of messageBatches) {
-                elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Processing batch of ${batch.length} messages`);
-                try {
-                    await this.processMessageBatch(batch);
-                } catch (batchError) {
-                    elizaLogger.error(`[AlfaFrensAIInteraction.processMessages] Error processing batch: ${batchError instanceof Error ? batchError.message : String(batchError)}`);
+            // queue as many messages as fit, the rest stay behind the cursor for the next poll
+            for (const message of messages) {
+                if (!this.queue.offer(message)) {
+                    elizaLogger.warn(`[AlfaFrensAIInteraction.processMessages] Queue full, deferring ${messages.length - this.queue.size} messages to the next poll`);
+                    break;
                 }
             }
 
+            await this.processQueue();
+
             const endTimestamp = Date.now();
             const duration = endTimestamp - startTimestamp;
             elizaLogger.debug(`[AlfaFrensAIInteraction.processMessages] Processing completed in ${duration}ms`);
         } catch (error) {
+            if (error instanceof AlfaFrensAuthenticationError) {
+                elizaLogger.error(`[AlfaFrensAIInteraction.processMessages] API key rejected (status ${error.status}), stopping polling`);
+                await this.stop();
+                return;
+            }
+            if (error instanceof AlfaFrensRateLimitError) {
+                elizaLogger.warn(`[AlfaFrensAIInteraction.processMessages] Rate limited, skipping this poll (retry after ${error.retryAfterMs ?? "unknown"}ms)`);
+                return;
+            }
             elizaLogger.error(`[AlfaFrensAIInteraction.processMessages] ERROR: ${error instanceof Error ? error.message : String(error)}`);
             if (error instanceof Error && error.stack) {
                 elizaLogger.error(`[AlfaFrensAIInteraction.processMessages] Stack: ${error.stack}`);
@@ -284,128 +369,296 @@ export class AlfaFrensAIInteraction {
     }
 
     /**
-     * Process a single message batch
+     * Process the queued messages, generating up to ALFAFRENS_RESPONSE_CONCURRENCY
+     * responses at a time while committing the cursor in message order. Failed
+     * messages stay behind the cursor and are retried by the next poll, up to
+     * ALFAFRENS_MESSAGE_MAX_ATTEMPTS times. Replies that may have been posted
+     * aren't retried, so they are never posted twice.
      */
-    private async processMessageBatch(messages: AlfaFrensMessage[]): Promise<void> {
-        for (const message of messages) {
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Processing message: ${message.id}`);
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Message sender: ${message.senderId}, our userId: ${this.client.config.userId}`);
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Message username: ${message.senderUsername}, our username: ${this.client.config.username}`);
-
-            // Skip our own messages by checking against our tracked message IDs
-            if (this.sentMessageIds.has(message.id)) {
-                elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Skipping our own message (ID match)`);
-                continue;
+    private async processQueue(): Promise<void> {
+        const messages = this.queue.drain();
+        elizaLogger.debug(`[AlfaFrensAIInteraction.processQueue] Processing ${messages.length} messages`);
+
+        const runs = messages.map(message => ({
+            message,
+            done: this.responseLimiter.run(async (): Promise<MessageOutcome | null> => {
+                // the client may have been stopped meanwhile, e.g. after the API key was rejected
+                if (!this.isRunning) return null;
+                return this.processMessage(message);
+            })
+        }));
+
+        for (const { message, done } of runs) {
+            const outcome = await done.catch((error): MessageOutcome => {
+                elizaLogger.error(`[AlfaFrensAIInteraction.processQueue] Error processing message ${message.id}:`, error);
+                return "failed";
+            });
+
+            if (outcome === null) {
+                elizaLogger.debug(`[AlfaFrensAIInteraction.processQueue] Stopped, leaving remaining messages for the next start`);
+                // wait for messages still being answered before returning
+                await Promise.allSettled(runs.map(run => run.done));
+                return;
             }
 
-            // Skip messages from our configured user ID if it matches
-            if (message.senderId === this.client.config.userId) {
-                elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Skipping message from our user ID`);
+            if (outcome === "failed") {
+                const retried = await this.cursor.markFailed(message, this.maxAttempts);
+                elizaLogger.warn(`[AlfaFrensAIInteraction.processQueue] Failed to process message ${message.id}${retried ? ", retrying on the next poll" : ""}`);
                 continue;
             }
 
-            // Check username with normalization (strip @ symbol)
-            const normalizedMessageUsername = message.senderUsername?.replace('@', '') || '';
-            const normalizedConfigUsername = this.client.config.username?.replace('@', '') || '';
+            await this.cursor.markProcessed(message);
+        }
+    }
 
-            if (normalizedMessageUsername && normalizedConfigUsername &&
-                normalizedMessageUsername === normalizedConfigUsername) {
-                elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Skipping message from our normalized username: ${message.senderUsername} matches ${this.client.config.username}`);
-                continue;
-            }
+    /**
+     * Process a single message: skip our own messages, evaluate it and respond if needed
+     * @returns whether the message was answered, skipped or failed
+     */
+    private async processMessage(message: AlfaFrensMessage): Promise<MessageOutcome> {
+        elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Processing message: ${message.id}`);
+        elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Message sender: ${message.senderId}, our userId: ${this.config.userId}`);
+        elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Message username: ${message.senderUsername}, our username: ${this.config.username}`);
+
+        // Skip our own messages by checking against our tracked message IDs
+        if (this.sentMessageIds.has(message.id)) {
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Skipping our own message (ID match)`);
+            return "skipped";
+        }
+
+        // Skip messages from our configured user ID if it matches
+        if (message.senderId === this.config.userId) {
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Skipping message from our user ID`);
+            return "skipped";
+        }
+
+        // Check username with normalization (strip @ symbol)
+        const normalizedMessageUsername = message.senderUsername?.replace('@', '') || '';
+        const normalizedConfigUsername = this.config.username?.replace('@', '') || '';
+
+        if (normalizedMessageUsername && normalizedConfigUsername &&
+            normalizedMessageUsername === normalizedConfigUsername) {
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Skipping message from our normalized username: ${message.senderUsername} matches ${this.config.username}`);
+            return "skipped";
+        }
+
+        // Moderator commands are answered directly and never reach the model
+        if (isReviewCommand(message.content)) {
+            await this.handleReviewCommand(message);
+            return "answered";
+        }
+
+        // Create memory for message history tracking
+        const memory = createAlfaFrensMemory({
+            roomId: stringToUuid(this.config.channelId),
+            senderId: stringToUuid(message.senderId || "user"),
+            runtime: this.runtime,
+            message,
+            isBotMessage: false
+        });
+
+        // Store message in memory manager
+        try {
+            await this.runtime.messageManager.createMemory(memory);
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Stored message in memory manager`);
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensAIInteraction.processMessage] Failed to store message in memory:`, error);
+        }
+
+        // Skip senders and threads that were replied to too often, before spending a model call on them
+        const threadId = this.threads.getRootId(message);
+        this.rateLimiter.observe(message);
+        const limit = this.rateLimiter.check(message, threadId);
+        if (!limit.allowed) {
+            this.rateLimiter.record(message, limit);
+            return "skipped";
+        }
+
+        // Evaluate if we should respond to this message
+        const config = getConfig(this.options, this.runtime, 'evaluation');
+        elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Evaluating message with template length ${config.template.length}`);
 
-            // Create memory for message history tracking
-            const memory = createAlfaFrensMemory({
-                roomId: stringToUuid(this.client.config.channelId),
-                senderId: stringToUuid(message.senderId || "user"),
-                runtime: this.runtime,
-                message,
-                isBotMessage: false
+        try {
+            const evaluation = await evaluateMessage(this.runtime, message, {
+                template: config.template,
+                modelClass: config.modelClass,
+                botNames: [this.config.username, this.runtime.character?.name]
             });
 
-            // Store message in memory manager
-            try {
-                await this.runtime.messageManager.createMemory(memory);
-                elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Stored message in memory manager`);
-            } catch (error) {
-                elizaLogger.error(`[AlfaFrensAIInteraction.processMessageBatch] Failed to store message in memory:`, error);
-            }
+            elizaLogger.info(`[AlfaFrensAIInteraction.processMessage] Evaluation for message ${message.id}: respond=${evaluation.shouldRespond} (${evaluation.source}) - ${evaluation.reason}`);
 
-            // Evaluate if we should respond to this message
-            const config = getConfig(this.options, this.runtime, 'evaluation');
-            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Evaluating message with template length ${config.template.length}`);
+            if (!evaluation.shouldRespond) {
+                elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Decided not to respond to message`);
+                return "skipped";
+            }
 
-            try {
-                const shouldRespond = await evaluateMessage(this.runtime, message, {
-                    template: config.template,
-                    modelClass: config.modelClass
-                });
+            // count the reply, other messages may have used up the limits meanwhile
+            if (!this.rateLimiter.acquire(message, threadId).allowed) {
+                return "skipped";
+            }
 
-                if (!shouldRespond) {
-                    elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Decided not to respond to message`);
-                    continue;
+            // Generate a response using knowledge integration
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Generating response to message`);
+            const responseConfig = getConfig(this.options, this.runtime, 'response');
+
+            // Use the thread the user is replying in, not the whole channel
+            const thread = await this.threads.getThread(message, getNumericSetting(this.runtime, "ALFAFRENS_THREAD_MAX_MESSAGES", 10));
+            const history = thread.filter(m => m.id !== message.id);
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Using ${history.length} thread messages as context`);
+
+            let deferredValidation: DeferredResponseValidation | undefined;
+            let grounding: AlfaFrensGroundingDecision | undefined;
+            const response = await generateResponseUtil(
+                this.runtime,
+                this.client,  // Pass the client for knowledge access
+                message.content || "",
+                history,
+                responseConfig.template,
+                responseConfig.modelClass,
+                {
+                    sender: message.senderUsername,
+                    channelSummary: this.threads.summarizeChannel(thread),
+                    history: {
+                        botUserId: this.config.userId,
+                        botUsername: this.config.username,
+                        sentMessageIds: this.sentMessageIds
+                    },
+                    onDeferredValidation: validation => {
+                        deferredValidation = validation;
+                    },
+                    onGrounding: decision => {
+                        grounding = decision;
+                    },
+                    factValidationManager: this.factValidationManager
                 }
+            );
 
-                // Generate a response using knowledge integration
-                elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Generating response to message`);
-                const responseConfig = getConfig(this.options, this.runtime, 'response');
-
-                const response = await generateResponseUtil(
-                    this.runtime,
-                    this.client,  // Pass the client for knowledge access
-                    message.content || "",
-                    this.messageHistory.slice(-10),  // Use last 10 messages for context
-                    responseConfig.template,
-                    responseConfig.modelClass
-                );
-
-                // Send the response through API
-                elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Sending response: ${response.substring(0, 50)}...`);
-
-                try {
-                    const result = await this.client.sendMessage({
-                        content: response,
-                        roomId: this.client.config.channelId,
-                        inReplyTo: message.id
-                    });
-
-                    // Track the message ID we just sent
-                    if (result && result.length > 0 && result[0].message && result[0].message.id) {
-                        this.sentMessageIds.add(result[0].message.id);
-                        elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Tracked our sent message ID: ${result[0].message.id}`);
-                    }
-
-                    elizaLogger.debug(`[AlfaFrensAIInteraction.processMessageBatch] Response sent successfully`);
-                } catch (error) {
-                    elizaLogger.error(`[AlfaFrensAIInteraction.processMessageBatch] Failed to send response:`, error);
-                }
+            // Send the response through API
+            elizaLogger.debug(`[AlfaFrensAIInteraction.processMessage] Sending response: ${response.substring(0, 50)}...`);
+            let replyId: string | undefined;
+            try {
+                replyId = await this.postReply(response, message.id, grounding ? { grounding } : undefined);
             } catch (error) {
-                elizaLogger.error(`[AlfaFrensAIInteraction.processMessageBatch] Error processing message:`, error);
+                // a reply is only retried when the connection failed before anything was posted
+                if (error instanceof AlfaFrensNetworkError) {
+                    elizaLogger.error(`[AlfaFrensAIInteraction.processMessage] Failed to send reply to ${message.id}:`, error);
+                    return "failed";
+                }
+                elizaLogger.error(`[AlfaFrensAIInteraction.processMessage] Reply to ${message.id} failed but may have been posted, not retrying:`, error);
+                return "unconfirmed";
+            }
+
+            // validate the reply's facts in a task, a follow-up correction answers the reply
+            if (deferredValidation && replyId) {
+                await this.taskManager.createResponseValidationTask(deferredValidation, replyId).catch(error =>
+                    elizaLogger.error(`[AlfaFrensAIInteraction.processMessage] Failed to schedule fact validation of reply ${replyId}:`, error));
             }
+            return "answered";
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensAIInteraction.processMessage] Error processing message:`, error);
+            return "failed";
         }
     }
 
     /**
-     * format the conversation history for context
-     * @returns formatted conversation history
+     * send a reply, for corrections
+     * @returns ID of the sent message, undefined if sending failed
      */
-    private formatConversationHistory(): string {
-        if (this.messageHistory.length === 0) {
-            return "No previous messages.";
+    private async sendReply(content: string, inReplyTo: string): Promise<string | undefined> {
+        try {
+            return await this.postReply(content, inReplyTo);
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensAIInteraction.sendReply] Failed to send response:`, error);
+            return undefined;
         }
+    }
 
-        // get number of history messages from character file or default to 5
-        const historyCount = getNumericSetting(this.runtime, "ALFAFRENS_HISTORY_COUNT", 5);
+    /**
+     * send a reply and remember it in the thread
+     * @param content reply text
+     * @param inReplyTo ID of the message replied to
+     * @param memoryContent extra content stored with the reply's memory, e.g. its grounding decision
+     * @returns ID of the sent message
+     * @throws the API error if sending failed
+     */
+    private async postReply(
+        content: string,
+        inReplyTo: string,
+        memoryContent?: Partial<AlfaFrensMemoryContent>
+    ): Promise<string | undefined> {
+        const result = await this.client.sendMessage({
+            content,
+            roomId: this.config.channelId,
+            inReplyTo
+        });
 
-        // get the recent messages
-        const recentMessages = this.messageHistory.slice(-historyCount);
+        // Track the message ID we just sent
+        if (result && result.length > 0 && result[0].message && result[0].message.id) {
+            this.sentMessageIds.add(result[0].message.id);
+            // replies to it that come in too fast may be a loop with another bot
+            this.rateLimiter.trackSent(result[0].message);
+            // keep our reply in the thread so follow-ups see it
+            this.threads.remember([{ ...result[0].message, replyTo: inReplyTo }]);
+            // and remember what we said in case it needs a correction later
+            await this.corrections.track(result[0]).catch(error =>
+                elizaLogger.warn(`[AlfaFrensAIInteraction.postReply] Failed to track sent message:`, error));
+            elizaLogger.debug(`[AlfaFrensAIInteraction.postReply] Tracked our sent message ID: ${result[0].message.id}`);
+
+            if (memoryContent && result[0].memory) {
+                await this.storeReplyMemory({
+                    ...result[0].memory,
+                    content: { ...result[0].memory.content, ...memoryContent }
+                });
+            }
+        }
 
-        return recentMessages.map(msg => {
-            const role = msg.senderId === this.client.config.userId ?
-                "ASSISTANT" :
-                `USER (${msg.senderUsername})`;
-            return `${role}: ${msg.content}`;
-        }).join("\n\n");
+        elizaLogger.debug(`[AlfaFrensAIInteraction.postReply] Response sent successfully`);
+        return result?.[0]?.message?.id;
+    }
+
+    /**
+     * store the memory of a reply with the extra content it was sent with
+     */
+    private async storeReplyMemory(memory: Memory): Promise<void> {
+        try {
+            await this.runtime.messageManager.createMemory(memory);
+            elizaLogger.debug(`[AlfaFrensAIInteraction.storeReplyMemory] Stored reply ${memory.id} in memory manager`);
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensAIInteraction.storeReplyMemory] Failed to store reply in memory:`, error);
+        }
+    }
+
+    /**
+     * answer a /review command from a moderator, commands from anyone else are ignored
+     */
+    private async handleReviewCommand(message: AlfaFrensMessage): Promise<void> {
+        if (!isModerator(this.runtime, message.senderId, message.senderUsername)) {
+            elizaLogger.warn(`[AlfaFrensAIInteraction.handleReviewCommand] Ignoring review command from non-moderator ${message.senderUsername || message.senderId}`);
+            return;
+        }
+
+        try {
+            // correct what we said about facts the approved ones supersede
+            const reply = await handleReviewCommand(
+                this.factValidationManager.review,
+                message.content,
+                message.senderId,
+                async fact => {
+                    await this.corrections.correctSuperseded(fact).catch(error =>
+                        elizaLogger.error(`[AlfaFrensAIInteraction.handleReviewCommand] Failed to correct superseded statements:`, error));
+                }
+            );
+            const result = await this.client.sendMessage({
+                content: reply,
+                roomId: this.config.channelId,
+                inReplyTo: message.id
+            });
+            if (result?.[0]?.message?.id) {
+                this.sentMessageIds.add(result[0].message.id);
+            }
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensAIInteraction.handleReviewCommand] Failed to handle review command:`, error);
+        }
     }
 
     /**
@@ -427,7 +680,7 @@ export class AlfaFrensAIInteraction {
 
             const result = await this.client.createPost({
                 content: formattedContent,
-                roomId: this.client.config.channelId
+                roomId: this.config.channelId
             });
 
             // Track the post ID we just created
@@ -459,33 +712,4 @@ export class AlfaFrensAIInteraction {
 
         return generatePostContent(this.runtime, config);
     }
-
-    private async extractFacts(content: string): Promise<string[]> {
-        const prompt = `Extract factual statements from this text. Return them as a JSON array of strings.
-        Only include clear, factual statements, not opinions or subjective content.
-        
-        Text: "${content}"
-        
-        Example response:
-        ["John lives in New York", "The company was founded in 2020"]
-        `;
-
-        try {
-            const result = await generateText({
-                runtime: this.runtime,
-                context: prompt,
-                modelClass: ModelClass.SMALL,
-            });
-
-            const facts = JSON.parse(result);
-            if (!Array.isArray(facts)) {
-                elizaLogger.error("[AlfaFrensAIInteraction] Invalid fact extraction result:", result);
-                return [];
-            }
-            return facts;
-        } catch (error) {
-            elizaLogger.error("[AlfaFrensAIInteraction] Failed to extract facts:", error);
-            return [];
-        }
-    }
 }
\ No newline at end of file
@@ -7,7 +7,7 @@ import {
     parseModelClass
 } from "./utils";
 import type { AlfaFrensGenerationConfig } from "../types";
-import { AlfaFrensTaskManager } from "./tasks";
+import { PostScheduler } from "./post-scheduler";
 
 /**
  * options for configuring the AI post generator
@@ -17,8 +17,14 @@ export interface AlfaFrensAIPostOptions {
     postTemplate?: string;
     /** model class to use for generation */
     modelClass?: ModelClass;
-    /** interval between posts in seconds */
+    /** fixed interval between posts in seconds, overrides the channel's min/max interval */
     intervalSeconds?: number;
+    /** channel to post to (defaults to the client's primary channel) */
+    channelId?: string;
+    /** daily period without posts as "HH:mm-HH:mm" (defaults to the channel's quiet hours) */
+    quietHours?: string;
+    /** IANA time zone for the quiet hours (defaults to the channel's time zone) */
+    timeZone?: string;
 }
 
 /**
@@ -27,11 +33,9 @@ export interface AlfaFrensAIPostOptions {
 export class AlfaFrensAIPost {
     private runtime: IAgentRuntime;
     private client: AlfaFrensManager;
-    private interval?: NodeJS.Timeout;
     private isRunning: boolean = false;
     private options: AlfaFrensAIPostOptions;
-    private lastPostTime: number = 0;
-    private taskManager: AlfaFrensTaskManager;
+    private scheduler: PostScheduler | null = null;
 
     /**
      * creates a new AI post generator
@@ -47,12 +51,12 @@ export class AlfaFrensAIPost {
         this.client = client;
         this.runtime = runtime;
         this.options = options;
-        this.taskManager = new AlfaFrensTaskManager(runtime);
     }
 
     /**
      * start the automated posting service
-     * @param intervalSeconds optional override for seconds between posts (default from options or 3600)
+     * @param intervalSeconds optional fixed interval between posts in seconds (defaults to the options,
+     * then ALFAFRENS_POST_INTERVAL_SECONDS, then a random delay between the channel's min and max interval)
      */
     async start(intervalSeconds?: number): Promise<void> {
         if (this.isRunning) {
@@ -61,15 +65,23 @@ export class AlfaFrensAIPost {
         }
         this.isRunning = true;
 
+        const channelId = this.options.channelId || this.client.config.channelId;
+        const { config } = this.client.getChannel(channelId);
         const interval = intervalSeconds ||
             this.options.intervalSeconds ||
-            getNumericSetting(this.runtime, "ALFAFRENS_POST_INTERVAL_SECONDS", 3600);
-
-        elizaLogger.debug("[AlfaFrensAIPost] using interval:", interval, "seconds");
-        elizaLogger.info(`[AlfaFrensAIPost] Starting AI post generator with interval: ${interval}s`);
-
-        // create posting task
-        await this.taskManager.createAIInteractionTask("POST", interval * 1000);
+            getNumericSetting(this.runtime, "ALFAFRENS_POST_INTERVAL_SECONDS", 0);
+        const minIntervalSeconds = interval || config.postIntervalMin;
+        const maxIntervalSeconds = interval || config.postIntervalMax;
+
+        elizaLogger.info(`[AlfaFrensAIPost] Starting AI post generator with interval: ${minIntervalSeconds}-${maxIntervalSeconds}s`);
+
+        this.scheduler = new PostScheduler(this.runtime, channelId, () => this.createPost(), {
+            minIntervalSeconds,
+            maxIntervalSeconds,
+            quietHours: this.options.quietHours || config.postQuietHours,
+            timeZone: this.options.timeZone || config.postTimeZone
+        });
+        await this.scheduler.start();
     }
 
     /**
@@ -84,8 +96,22 @@ export class AlfaFrensAIPost {
         elizaLogger.info("[AlfaFrensAIPost] Stopping AI post generator");
         this.isRunning = false;
 
-        // process any remaining tasks
-        await this.taskManager.processTasks();
+        this.scheduler?.stop();
+        this.scheduler = null;
+    }
+
+    /**
+     * pause automated posting until resumed
+     */
+    pause(): void {
+        this.scheduler?.pause();
+    }
+
+    /**
+     * resume automated posting, making an overdue post right away
+     */
+    resume(): void {
+        this.scheduler?.resume();
     }
 
     /**
@@ -93,7 +119,7 @@ export class AlfaFrensAIPost {
      * @param customContent optional custom content to post
      * @returns the created post
      */
-    private async createPost(customContent?: string): Promise<any> {
+    async createPost(customContent?: string): Promise<any> {
         try {
             elizaLogger.info("[AlfaFrensAIPost] Starting post creation");
             const content = customContent || await this.generatePostContent();
@@ -107,7 +133,7 @@ export class AlfaFrensAIPost {
 
             const result = await this.client.createPost({
                 content: formattedContent,
-                roomId: this.client.config.channelId
+                roomId: this.options.channelId || this.client.config.channelId
             });
 
             elizaLogger.info("[AlfaFrensAIPost] Post created successfully:", {
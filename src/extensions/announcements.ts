@@ -0,0 +1,104 @@
+import { IAgentRuntime, elizaLogger, ModelClass } from "@elizaos/core";
+import type { AlfaFrensAnnouncementConfig } from "../types";
+import { loadAlfaFrensAnnouncementConfig } from "../config";
+import { generateLLMResponse, parseModelClass, processTemplate } from "./utils";
+
+/**
+ * kind of announcement
+ */
+export type AnnouncementKind = "startup" | "shutdown";
+
+/**
+ * minimal client surface needed to send announcements
+ */
+export interface AnnouncementClient {
+    sendMessage(params: {
+        content: string;
+        roomId: string;
+    }): Promise<unknown>;
+}
+
+/**
+ * sends the startup and shutdown announcements of a channel
+ *
+ * The time of the last announcement is kept in the cache per channel, so a
+ * restart loop doesn't repeat the message to subscribers.
+ */
+export class AlfaFrensAnnouncer {
+    private runtime: IAgentRuntime;
+    private client: AnnouncementClient;
+    private configs: Record<AnnouncementKind, AlfaFrensAnnouncementConfig>;
+
+    /**
+     * creates a new announcer
+     * @param client client used to send the messages
+     * @param runtime the agent runtime
+     */
+    constructor(client: AnnouncementClient, runtime: IAgentRuntime) {
+        this.client = client;
+        this.runtime = runtime;
+        this.configs = {
+            startup: loadAlfaFrensAnnouncementConfig(runtime, "startup"),
+            shutdown: loadAlfaFrensAnnouncementConfig(runtime, "shutdown")
+        };
+    }
+
+    /**
+     * send an announcement to a channel unless it is disabled or was sent recently
+     * @param kind which announcement to send
+     * @param channelId the channel to announce in
+     * @returns whether a message was sent; failures are logged, not thrown
+     */
+    async announce(kind: AnnouncementKind, channelId: string): Promise<boolean> {
+        const config = this.configs[kind];
+        if (config.mode === "off") {
+            elizaLogger.debug(`[AlfaFrensAnnouncer] ${kind} announcement disabled`);
+            return false;
+        }
+
+        const cacheKey = `alfafrens/${channelId}/announcements/${kind}`;
+
+        try {
+            const last = await this.runtime.cacheManager.get<{ sentAt: number }>(cacheKey);
+            if (last && Date.now() - last.sentAt < config.windowSeconds * 1000) {
+                elizaLogger.info(`[AlfaFrensAnnouncer] Skipping ${kind} announcement in ${channelId}, last one sent at ${new Date(last.sentAt).toISOString()}`);
+                return false;
+            }
+
+            const content = await this.getContent(kind, config);
+            await this.client.sendMessage({ content, roomId: channelId });
+            await this.runtime.cacheManager.set(cacheKey, { sentAt: Date.now() });
+
+            elizaLogger.info(`[AlfaFrensAnnouncer] Sent ${kind} announcement to ${channelId}`);
+            return true;
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensAnnouncer] Failed to send ${kind} announcement to ${channelId}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * get the announcement text, generating it if configured
+     */
+    private async getContent(kind: AnnouncementKind, config: AlfaFrensAnnouncementConfig): Promise<string> {
+        if (config.mode !== "generate") {
+            return config.text;
+        }
+
+        try {
+            const content = await generateLLMResponse({
+                runtime: this.runtime,
+                context: processTemplate(config.template, this.runtime),
+                modelClass: parseModelClass(this.runtime.getSetting("ALFAFRENS_POST_MODEL_CLASS")) ||
+                    parseModelClass(this.runtime.getSetting("ALFAFRENS_MODEL_CLASS")) ||
+                    ModelClass.SMALL,
+                logPrefix: "[AlfaFrensAnnouncer]",
+                traceId: kind
+            });
+            return content.trim() || config.text;
+        } catch (error) {
+            elizaLogger.warn(`[AlfaFrensAnnouncer] Failed to generate ${kind} announcement, using the configured text:`, error);
+            return config.text;
+        }
+    }
+}
@@ -0,0 +1,208 @@
+import { elizaLogger } from "@elizaos/core";
+
+/**
+ * job that runs repeatedly without ever overlapping itself
+ *
+ * Unlike `setInterval`, the next run is scheduled only after the previous one
+ * has finished, and triggering the job while it runs joins the run in flight
+ * instead of starting another one.
+ */
+export class RecurringJob {
+    private name: string;
+    private task: () => Promise<unknown>;
+    private intervalMs: number;
+    private timer: NodeJS.Timeout | null = null;
+    private inFlight: Promise<void> | null = null;
+    private started: boolean = false;
+
+    /**
+     * creates a new recurring job
+     * @param name name used in logs
+     * @param task the work to run
+     * @param intervalMs pause between the end of one run and the start of the next
+     */
+    constructor(name: string, task: () => Promise<unknown>, intervalMs: number) {
+        this.name = name;
+        this.task = task;
+        this.intervalMs = intervalMs;
+    }
+
+    /**
+     * whether a run is in progress
+     */
+    get isRunning(): boolean {
+        return this.inFlight !== null;
+    }
+
+    /**
+     * start running the job on its interval
+     * @param immediately run once right away instead of waiting for the first interval
+     */
+    start(immediately: boolean = false): void {
+        if (this.started) return;
+        this.started = true;
+
+        if (immediately) {
+            this.trigger().finally(() => this.scheduleNext());
+        } else {
+            this.scheduleNext();
+        }
+    }
+
+    /**
+     * stop scheduling runs, a run in progress is allowed to finish
+     */
+    stop(): void {
+        this.started = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * run the job now, or wait for the run already in progress
+     */
+    trigger(): Promise<void> {
+        if (this.inFlight) {
+            elizaLogger.debug(`[RecurringJob] ${this.name} is still running, skipping overlapping run`);
+            return this.inFlight;
+        }
+
+        this.inFlight = this.task()
+            .then(() => undefined)
+            .catch(error => {
+                elizaLogger.error(`[RecurringJob] ${this.name} failed:`, error);
+            })
+            .finally(() => {
+                this.inFlight = null;
+            });
+
+        return this.inFlight;
+    }
+
+    private scheduleNext(): void {
+        if (!this.started || this.timer) return;
+
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.trigger().finally(() => this.scheduleNext());
+        }, this.intervalMs);
+    }
+}
+
+/**
+ * limits how many async operations run at the same time
+ */
+export class ConcurrencyLimiter {
+    private limit: number;
+    private running: number = 0;
+    private waiting: (() => void)[] = [];
+
+    /**
+     * creates a new limiter
+     * @param limit maximum number of operations running at once
+     */
+    constructor(limit: number) {
+        this.limit = Math.max(1, Math.floor(limit) || 1);
+    }
+
+    /**
+     * number of operations running
+     */
+    get active(): number {
+        return this.running;
+    }
+
+    /**
+     * number of operations waiting for a slot
+     */
+    get pending(): number {
+        return this.waiting.length;
+    }
+
+    /**
+     * run an operation as soon as a slot is free
+     * @param operation the operation to run
+     * @returns the result of the operation
+     */
+    async run<T>(operation: () => Promise<T>): Promise<T> {
+        if (this.running >= this.limit) {
+            // the slot is handed over by the operation releasing it
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        } else {
+            this.running++;
+        }
+
+        try {
+            return await operation();
+        } finally {
+            // hand the slot straight to the next waiting operation, so no new one can take it meanwhile
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.running--;
+            }
+        }
+    }
+}
+
+/**
+ * first-in, first-out queue with a maximum size
+ */
+export class BoundedQueue<T> {
+    private items: T[] = [];
+    private maxSize: number;
+
+    /**
+     * creates a new queue
+     * @param maxSize maximum number of queued items
+     */
+    constructor(maxSize: number) {
+        this.maxSize = Math.max(1, Math.floor(maxSize) || 1);
+    }
+
+    /**
+     * number of queued items
+     */
+    get size(): number {
+        return this.items.length;
+    }
+
+    /**
+     * whether the queue can't take more items
+     */
+    get isFull(): boolean {
+        return this.items.length >= this.maxSize;
+    }
+
+    /**
+     * add an item to the end of the queue
+     * @param item the item to add
+     * @returns false if the queue is full and the item was not added
+     */
+    offer(item: T): boolean {
+        if (this.isFull) {
+            return false;
+        }
+        this.items.push(item);
+        return true;
+    }
+
+    /**
+     * take all queued items, oldest first
+     */
+    drain(): T[] {
+        const items = this.items;
+        this.items = [];
+        return items;
+    }
+
+    /**
+     * check whether a queued item matches a predicate
+     */
+    some(predicate: (item: T) => boolean): boolean {
+        return this.items.some(predicate);
+    }
+}
@@ -0,0 +1,232 @@
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
+import { AlfaFrensManager } from "../alfafrens-client";
+import type { AlfaFrensContentCalendarEntry, AlfaFrensMissedSlotPolicy } from "../types";
+import { loadAlfaFrensContentCalendar, loadAlfaFrensMissedSlotPolicy } from "../config";
+import { AlfaFrensAIPost } from "./ai-post";
+import { CronSchedule, getNextRun, getRunsBetween, parseCron } from "./cron";
+
+/**
+ * options for configuring the content calendar
+ */
+export interface AlfaFrensContentCalendarOptions {
+    /** calendar entries (defaults to the character settings) */
+    entries?: AlfaFrensContentCalendarEntry[];
+    /** what to do with slots missed while offline (defaults to ALFAFRENS_CALENDAR_MISSED_POLICY) */
+    missedPolicy?: AlfaFrensMissedSlotPolicy;
+    /** default IANA time zone for entries without one (defaults to ALFAFRENS_POST_TIMEZONE) */
+    timeZone?: string;
+}
+
+/**
+ * state of a scheduled calendar entry
+ */
+interface ScheduledEntry {
+    entry: AlfaFrensContentCalendarEntry;
+    schedule: CronSchedule;
+    poster: AlfaFrensAIPost;
+    channelId: string;
+    timeZone?: string;
+    timer: NodeJS.Timeout | null;
+    nextRunAt: number | null;
+}
+
+// setTimeout can't wait longer than this
+const MAX_TIMEOUT_MS = 2147483647;
+// upper bound for posts made when catching up with the "all" policy
+const MAX_CATCH_UP_RUNS = 24;
+
+/**
+ * posts scheduled content at fixed times, configured with cron expressions
+ *
+ * Each entry posts through an `AlfaFrensAIPost`, either with fixed text or
+ * content generated from its template. The last slot an entry ran for is kept
+ * in the cache, so slots missed while offline can be skipped, run once or run
+ * one by one after a restart.
+ */
+export class AlfaFrensContentCalendar {
+    private runtime: IAgentRuntime;
+    private client: AlfaFrensManager;
+    private entries: ScheduledEntry[] = [];
+    private missedPolicy: AlfaFrensMissedSlotPolicy;
+    private isRunning: boolean = false;
+
+    /**
+     * creates a new content calendar
+     * @param client the AlfaFrens client manager
+     * @param runtime the agent runtime
+     * @param options optional configuration options
+     */
+    constructor(client: AlfaFrensManager, runtime: IAgentRuntime, options: AlfaFrensContentCalendarOptions = {}) {
+        this.client = client;
+        this.runtime = runtime;
+        this.missedPolicy = options.missedPolicy || loadAlfaFrensMissedSlotPolicy(runtime);
+
+        const timeZone = options.timeZone || runtime.getSetting("ALFAFRENS_POST_TIMEZONE") || undefined;
+        const entries = options.entries || loadAlfaFrensContentCalendar(runtime);
+
+        for (const entry of entries.filter(e => e.enabled)) {
+            const channelId = entry.channelId || client.config.channelId;
+            this.entries.push({
+                entry,
+                schedule: parseCron(entry.cron),
+                poster: new AlfaFrensAIPost(client, runtime, {
+                    postTemplate: entry.template,
+                    modelClass: entry.modelClass,
+                    channelId
+                }),
+                channelId,
+                timeZone: entry.timeZone || timeZone,
+                timer: null,
+                nextRunAt: null
+            });
+        }
+    }
+
+    /**
+     * number of enabled entries
+     */
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * list the enabled entries with their next run time
+     */
+    listEntries(): { entry: AlfaFrensContentCalendarEntry; nextRunAt: number | null }[] {
+        return this.entries.map(({ entry, nextRunAt }) => ({ entry, nextRunAt }));
+    }
+
+    /**
+     * start the calendar, handling slots missed while offline first
+     */
+    async start(): Promise<void> {
+        if (this.isRunning) {
+            elizaLogger.debug("[AlfaFrensContentCalendar] already running, returning early");
+            return;
+        }
+        this.isRunning = true;
+
+        elizaLogger.info(`[AlfaFrensContentCalendar] Starting with ${this.entries.length} entries, missed slots: ${this.missedPolicy}`);
+
+        for (const scheduled of this.entries) {
+            await this.catchUp(scheduled);
+            this.scheduleNext(scheduled, new Date());
+        }
+    }
+
+    /**
+     * stop the calendar
+     */
+    stop(): void {
+        this.isRunning = false;
+        for (const scheduled of this.entries) {
+            if (scheduled.timer) {
+                clearTimeout(scheduled.timer);
+                scheduled.timer = null;
+            }
+            scheduled.nextRunAt = null;
+        }
+    }
+
+    /**
+     * run the slots of an entry missed since its last run, according to the policy
+     */
+    private async catchUp(scheduled: ScheduledEntry): Promise<void> {
+        const lastRun = await this.getLastRun(scheduled);
+        const now = new Date();
+
+        if (lastRun === null) {
+            // first start, nothing can have been missed
+            await this.setLastRun(scheduled, now.getTime());
+            return;
+        }
+
+        const missed = getRunsBetween(scheduled.schedule, new Date(lastRun), now, scheduled.timeZone, MAX_CATCH_UP_RUNS + 1);
+        if (missed.length === 0) {
+            return;
+        }
+
+        elizaLogger.info(`[AlfaFrensContentCalendar] Entry ${scheduled.entry.id} missed ${missed.length}${missed.length > MAX_CATCH_UP_RUNS ? "+" : ""} slots, policy: ${this.missedPolicy}`);
+
+        if (this.missedPolicy === "once") {
+            await this.run(scheduled, missed[missed.length - 1].getTime());
+        } else if (this.missedPolicy === "all") {
+            for (const slot of missed.slice(-MAX_CATCH_UP_RUNS)) {
+                if (!this.isRunning) return;
+                await this.run(scheduled, slot.getTime());
+            }
+        }
+
+        await this.setLastRun(scheduled, missed[missed.length - 1].getTime());
+    }
+
+    /**
+     * schedule the next run of an entry after a point in time
+     */
+    private scheduleNext(scheduled: ScheduledEntry, after: Date): void {
+        if (!this.isRunning) return;
+
+        const next = getNextRun(scheduled.schedule, after, scheduled.timeZone);
+        scheduled.nextRunAt = next ? next.getTime() : null;
+        if (!next) {
+            elizaLogger.warn(`[AlfaFrensContentCalendar] Entry ${scheduled.entry.id} (${scheduled.entry.cron}) never runs`);
+            return;
+        }
+
+        elizaLogger.debug(`[AlfaFrensContentCalendar] Entry ${scheduled.entry.id} next runs at ${next.toISOString()}`);
+        this.setTimer(scheduled, next.getTime());
+    }
+
+    private setTimer(scheduled: ScheduledEntry, slot: number): void {
+        const delay = Math.min(Math.max(slot - Date.now(), 0), MAX_TIMEOUT_MS);
+        scheduled.timer = setTimeout(async () => {
+            scheduled.timer = null;
+            if (!this.isRunning) return;
+
+            // the timer may fire early if the delay was capped
+            if (Date.now() < slot) {
+                this.setTimer(scheduled, slot);
+                return;
+            }
+
+            await this.run(scheduled, slot);
+            await this.setLastRun(scheduled, slot);
+            this.scheduleNext(scheduled, new Date(slot));
+        }, delay);
+    }
+
+    /**
+     * post an entry, logging failures so the calendar keeps going
+     */
+    private async run(scheduled: ScheduledEntry, slot: number): Promise<void> {
+        const { entry } = scheduled;
+        elizaLogger.info(`[AlfaFrensContentCalendar] Running entry ${entry.id} for slot ${new Date(slot).toISOString()}`);
+
+        try {
+            await scheduled.poster.createPost(entry.template ? undefined : entry.text);
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensContentCalendar] Entry ${entry.id} failed:`, error);
+        }
+    }
+
+    private getCacheKey(scheduled: ScheduledEntry): string {
+        return `alfafrens/${scheduled.channelId}/calendar/${scheduled.entry.id}`;
+    }
+
+    private async getLastRun(scheduled: ScheduledEntry): Promise<number | null> {
+        try {
+            return await this.runtime.cacheManager.get<number>(this.getCacheKey(scheduled)) ?? null;
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensContentCalendar] Failed to load last run of ${scheduled.entry.id}:`, error);
+            return null;
+        }
+    }
+
+    private async setLastRun(scheduled: ScheduledEntry, slot: number): Promise<void> {
+        try {
+            await this.runtime.cacheManager.set(this.getCacheKey(scheduled), slot);
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensContentCalendar] Failed to save last run of ${scheduled.entry.id}:`, error);
+        }
+    }
+}
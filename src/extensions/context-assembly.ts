@@ -0,0 +1,161 @@
+import { elizaLogger } from "@elizaos/core";
+import { estimateTokens } from "./history";
+
+/**
+ * retrieved context given to the model with a response prompt
+ */
+export type ContextSource = "knowledge" | "websearch" | "facts";
+
+/**
+ * approximate number of tokens each source may use in the prompt
+ */
+export type ContextBudgets = Record<ContextSource, number>;
+
+/**
+ * default token budgets, retrieved knowledge gets the most room
+ */
+export const DEFAULT_CONTEXT_BUDGETS: ContextBudgets = {
+    knowledge: 800,
+    websearch: 400,
+    facts: 300
+};
+
+/**
+ * how a source is shown in the prompt
+ */
+interface ContextSourceFormat {
+    /** heading of the section appended when the template has no placeholder */
+    title: string;
+    /** placeholder the template can use instead */
+    placeholder: string;
+    separator: string;
+    /** text used when nothing was retrieved */
+    empty: string;
+}
+
+const CONTEXT_SOURCE_FORMATS: Record<ContextSource, ContextSourceFormat> = {
+    facts: { title: "KNOWN FACTS", placeholder: "{{message.facts}}", separator: "\n", empty: "No known facts." },
+    knowledge: { title: "KNOWLEDGE", placeholder: "{{knowledge}}", separator: "\n\n", empty: "No relevant knowledge." },
+    websearch: { title: "WEB SEARCH RESULTS", placeholder: "{{websearch}}", separator: "\n", empty: "No web search results." }
+};
+
+/**
+ * retrieved items of one source, most relevant first
+ */
+export interface ContextSourceInput {
+    source: ContextSource;
+    items: string[];
+}
+
+/**
+ * the part of a source that fits in its budget
+ */
+export interface ContextSection {
+    source: ContextSource;
+    /** the included items, or the empty text if there are none */
+    text: string;
+    included: number;
+    dropped: number;
+    tokens: number;
+    budget: number;
+}
+
+/**
+ * keep the most relevant items of each source that fit in its token budget
+ *
+ * The first item of a source is cut to fit rather than dropped, so a single
+ * long answer is still included. What was included is logged per source.
+ * @param inputs retrieved items per source
+ * @param budgets token budget per source
+ */
+export function assembleContext(inputs: ContextSourceInput[], budgets: Partial<ContextBudgets> = {}): ContextSection[] {
+    return inputs.map(({ source, items }) => {
+        const format = CONTEXT_SOURCE_FORMATS[source];
+        const budget = budgets[source] ?? DEFAULT_CONTEXT_BUDGETS[source];
+        const candidates = items.map(item => item.trim()).filter(Boolean);
+
+        const kept: string[] = [];
+        let tokens = 0;
+        for (const item of candidates) {
+            const itemTokens = estimateTokens(item) + (kept.length > 0 ? estimateTokens(format.separator) : 0);
+            if (tokens + itemTokens > budget) {
+                if (kept.length === 0 && budget > 0) {
+                    kept.push(`${item.substring(0, Math.max(budget * 4 - 3, 0))}...`);
+                    tokens = budget;
+                }
+                break;
+            }
+            kept.push(item);
+            tokens += itemTokens;
+        }
+
+        const section: ContextSection = {
+            source,
+            text: kept.join(format.separator) || format.empty,
+            included: kept.length,
+            dropped: candidates.length - kept.length,
+            tokens,
+            budget
+        };
+
+        if (candidates.length > 0) {
+            elizaLogger.info(
+                `[ContextAssembly] Included ${section.included}/${candidates.length} ${source} item(s), ~${tokens}/${budget} tokens`
+            );
+        } else {
+            elizaLogger.debug(`[ContextAssembly] No ${source} context retrieved`);
+        }
+
+        return section;
+    });
+}
+
+/**
+ * the prompt values of the sections, keyed like the placeholders they fill
+ */
+export function getContextValues(sections: ContextSection[]): { facts: string; knowledge: string; websearch: string } {
+    const textOf = (source: ContextSource) =>
+        sections.find(section => section.source === source)?.text ?? CONTEXT_SOURCE_FORMATS[source].empty;
+
+    return {
+        facts: textOf("facts"),
+        knowledge: textOf("knowledge"),
+        websearch: textOf("websearch")
+    };
+}
+
+/**
+ * add a section for each source with included items whose placeholder the
+ * template doesn't use, so retrieved context reaches the model with any template
+ * @param template response template
+ * @param sections assembled context
+ * @returns the template with the placeholders of the missing sections added
+ */
+export function injectContextPlaceholders(template: string, sections: ContextSection[]): string {
+    const missing = sections
+        .filter(section => section.included > 0 && !template.includes(CONTEXT_SOURCE_FORMATS[section.source].placeholder))
+        .map(section => CONTEXT_SOURCE_FORMATS[section.source]);
+    if (missing.length === 0) return template;
+
+    elizaLogger.debug(`[ContextAssembly] Template has no placeholder for ${missing.map(format => format.placeholder).join(", ")}, appending them`);
+    return insertBeforeFinalCue(
+        template,
+        `RETRIEVED CONTEXT:\n\n${missing.map(format => `${format.title}:\n${format.placeholder}`).join("\n\n")}`
+    );
+}
+
+/**
+ * insert a section before the final cue of a prompt, e.g. `YOUR RESPONSE:`,
+ * or at the end if it has none
+ * @param prompt template or prompt
+ * @param section text to insert
+ */
+export function insertBeforeFinalCue(prompt: string, section: string): string {
+    const trimmed = prompt.trimEnd();
+    const cueStart = trimmed.lastIndexOf("\n\n");
+    const cue = trimmed.substring(cueStart + 2);
+    if (cueStart >= 0 && !cue.includes("\n") && cue.endsWith(":")) {
+        return `${trimmed.substring(0, cueStart)}\n\n${section}\n\n${cue}`;
+    }
+    return `${trimmed}\n\n${section}`;
+}
@@ -0,0 +1,244 @@
+import { IAgentRuntime, Memory, elizaLogger } from "@elizaos/core";
+import type { AlfaFrensMessage } from "../types";
+import { AlfaFrensFactStore, type StoredFact } from "./fact-store";
+import { loadFactValidationThresholds } from "./fact-validation";
+import { createSimilarityBackend, type SimilarityBackend, type SimilarityCandidate } from "./similarity";
+import { getNumericSetting } from "./utils";
+
+/**
+ * message sent by the bot that may need a correction later
+ */
+export interface SentMessageRecord {
+    id: string;
+    content: string;
+    timestamp: number;
+    /** sentences of the message with their embeddings, to find statements without embedding them again */
+    sentences?: SimilarityCandidate[];
+}
+
+/**
+ * outcome of a correction
+ * - sent: posted as a reply to the corrected message
+ * - failed: posting the reply failed
+ * - rate_limited: dropped, the previous correction was too recent
+ * - duplicate: dropped, the message was corrected before
+ */
+export type CorrectionStatus = "sent" | "failed" | "rate_limited" | "duplicate";
+
+/**
+ * correction of a message sent by the bot
+ */
+export interface CorrectionRecord {
+    /** ID of the corrected message */
+    messageId: string;
+    content: string;
+    /** why the message was corrected */
+    reason: string;
+    status: CorrectionStatus;
+    createdAt: number;
+    /** ID of the reply carrying the correction */
+    correctionMessageId?: string;
+}
+
+/**
+ * sends a reply to a message
+ * @returns ID of the sent reply, undefined if sending failed
+ */
+export type SendReply = (content: string, inReplyTo: string) => Promise<string | undefined>;
+
+export interface AlfaFrensCorrectionsOptions {
+    /** cache namespace, usually the channel ID */
+    namespace?: string;
+    /** maximum number of sent messages kept for checking */
+    maxTracked?: number;
+    /** maximum number of corrections kept in the log */
+    maxLog?: number;
+    similarity?: SimilarityBackend;
+    store?: AlfaFrensFactStore;
+}
+
+interface CorrectionsState {
+    sent: SentMessageRecord[];
+    corrections: CorrectionRecord[];
+    lastCorrectionAt?: number;
+}
+
+/**
+ * corrections of messages the bot already sent, posted as threaded replies
+ *
+ * Sent messages are tracked in the cache so facts found to be wrong later,
+ * e.g. superseded by a fact a moderator approved, can still be corrected.
+ * A message is corrected at most once, and corrections closer together than
+ * ALFAFRENS_CORRECTION_MIN_INTERVAL_SECONDS (default 300) are dropped.
+ */
+export class AlfaFrensCorrections {
+    private runtime: IAgentRuntime;
+    private send: SendReply;
+    private cacheKey: string;
+    private maxTracked: number;
+    private maxLog: number;
+    private minIntervalMs: number;
+    private similarity: SimilarityBackend;
+    private store: AlfaFrensFactStore;
+    private writes: Promise<unknown> = Promise.resolve();
+
+    /**
+     * creates a new correction service
+     * @param runtime agent runtime
+     * @param send sends a reply in the channel
+     */
+    constructor(runtime: IAgentRuntime, send: SendReply, options: AlfaFrensCorrectionsOptions = {}) {
+        this.runtime = runtime;
+        this.send = send;
+        this.cacheKey = options.namespace ? `alfafrens/${options.namespace}/corrections` : "alfafrens/corrections";
+        this.maxTracked = options.maxTracked ?? 200;
+        this.maxLog = options.maxLog ?? 100;
+        this.minIntervalMs = getNumericSetting(runtime, "ALFAFRENS_CORRECTION_MIN_INTERVAL_SECONDS", 300) * 1000;
+        this.similarity = options.similarity ?? createSimilarityBackend(runtime);
+        this.store = options.store ?? new AlfaFrensFactStore(runtime);
+    }
+
+    /**
+     * remember a message the bot sent
+     * @param sent message and memory as returned when sending
+     */
+    async track(sent: { memory?: Memory; message: AlfaFrensMessage }): Promise<void> {
+        const id = sent.message?.id;
+        const content = sent.memory?.content?.text || sent.message?.content;
+        if (!id || !content) return;
+
+        const sentences = await Promise.all(splitSentences(content).map(async text => ({
+            text,
+            embedding: await this.similarity.embed(text)
+        })));
+
+        await this.update(state => {
+            if (state.sent.some(record => record.id === id)) return;
+
+            const timestamp = Date.parse(sent.message.timestamp);
+            state.sent = [...state.sent, { id, content, timestamp: isNaN(timestamp) ? Date.now() : timestamp, sentences }]
+                .slice(-this.maxTracked);
+        });
+    }
+
+    /**
+     * sent messages stating a fact, judged sentence by sentence
+     * @param fact fact text
+     */
+    async findStatements(fact: string): Promise<SentMessageRecord[]> {
+        const state = await this.load();
+        const sentences = state.sent.flatMap(record =>
+            (record.sentences ?? splitSentences(record.content).map(text => ({ text })))
+                .map(sentence => ({ ...sentence, record }))
+        );
+
+        const ranked = await this.similarity.rank(fact, sentences, {
+            threshold: loadFactValidationThresholds(this.runtime).contradiction,
+            count: sentences.length
+        });
+        return [...new Set(ranked.map(({ item }) => item.record))];
+    }
+
+    /**
+     * post a correction as a reply to a sent message
+     * @param messageId ID of the message to correct
+     * @param correction correction text
+     * @param reason why the message is corrected, for the log
+     */
+    async correct(messageId: string, correction: string, reason: string): Promise<CorrectionRecord> {
+        const now = Date.now();
+        let previousCorrectionAt: number | undefined;
+        const status = await this.update((state): CorrectionStatus | null => {
+            if (state.corrections.some(record => record.messageId === messageId && record.status === "sent")) {
+                return "duplicate";
+            }
+            if (state.lastCorrectionAt !== undefined && now - state.lastCorrectionAt < this.minIntervalMs) {
+                return "rate_limited";
+            }
+            // reserve the interval before sending, so concurrent corrections don't both go out
+            previousCorrectionAt = state.lastCorrectionAt;
+            state.lastCorrectionAt = now;
+            return null;
+        });
+
+        let record: CorrectionRecord;
+        if (status) {
+            record = { messageId, content: correction, reason, status, createdAt: now };
+        } else {
+            const correctionMessageId = await this.send(correction, messageId);
+            record = { messageId, content: correction, reason, status: correctionMessageId ? "sent" : "failed", createdAt: now, correctionMessageId };
+        }
+
+        if (record.status === "sent") {
+            elizaLogger.info(`[AlfaFrensCorrections] Corrected message ${messageId} (${reason}): ${correction}`);
+        } else {
+            elizaLogger.warn(`[AlfaFrensCorrections] Correction of message ${messageId} ${record.status} (${reason}): ${correction}`);
+        }
+
+        await this.update(state => {
+            // a failed correction doesn't use up the interval, so it can be tried again
+            if (record.status === "failed" && state.lastCorrectionAt === now) {
+                state.lastCorrectionAt = previousCorrectionAt;
+            }
+            state.corrections = [...state.corrections, record].slice(-this.maxLog);
+        });
+        return record;
+    }
+
+    /**
+     * correct the latest sent message stating each fact a fact superseded
+     * @param fact the newer fact
+     */
+    async correctSuperseded(fact: StoredFact): Promise<CorrectionRecord[]> {
+        const records: CorrectionRecord[] = [];
+
+        for (const id of fact.supersedes || []) {
+            const superseded = await this.store.get(id);
+            if (!superseded) continue;
+
+            const [latest] = (await this.findStatements(superseded.text)).sort((a, b) => b.timestamp - a.timestamp);
+            if (!latest) continue;
+
+            const correction = `Correction: I said "${superseded.text}" earlier, but that's not right. ${fact.text.replace(/[.!]*$/, ".")}`;
+            records.push(await this.correct(latest.id, correction, `superseded by fact ${fact.id}`));
+        }
+
+        return records;
+    }
+
+    /**
+     * corrections made or dropped, oldest first
+     */
+    async listCorrections(): Promise<CorrectionRecord[]> {
+        return (await this.load()).corrections;
+    }
+
+    private async load(): Promise<CorrectionsState> {
+        const state = await this.runtime.cacheManager.get<CorrectionsState>(this.cacheKey);
+        return state?.sent ? state : { sent: [], corrections: [] };
+    }
+
+    /**
+     * read-modify-write the state, one update at a time
+     */
+    private update<T>(change: (state: CorrectionsState) => T): Promise<T> {
+        const result = this.writes.then(async () => {
+            const state = await this.load();
+            const value = change(state);
+            await this.runtime.cacheManager.set(this.cacheKey, state);
+            return value;
+        });
+        this.writes = result.catch(() => undefined);
+        return result;
+    }
+}
+
+/**
+ * split a message into its trimmed sentences
+ */
+function splitSentences(content: string): string[] {
+    return content
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+}
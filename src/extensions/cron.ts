@@ -0,0 +1,241 @@
+/**
+ * parsed five-field cron expression
+ */
+export interface CronSchedule {
+    /** original expression */
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    /** 0 is Sunday, 7 is normalised to 0 */
+    daysOfWeek: Set<number>;
+    /** whether the day-of-month field is restricted (not "*") */
+    restrictedDayOfMonth: boolean;
+    /** whether the day-of-week field is restricted (not "*") */
+    restrictedDayOfWeek: boolean;
+}
+
+/**
+ * local time fields of a point in time
+ */
+interface LocalTime {
+    minute: number;
+    hour: number;
+    day: number;
+    month: number;
+    weekday: number;
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const FIELDS: { name: string; min: number; max: number; names?: string[]; nameOffset?: number }[] = [
+    { name: "minute", min: 0, max: 59 },
+    { name: "hour", min: 0, max: 23 },
+    { name: "day of month", min: 1, max: 31 },
+    { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+    { name: "day of week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * parse a five-field cron expression (minute hour day-of-month month day-of-week)
+ *
+ * Supports `*`, lists, ranges, steps and three-letter month and weekday names,
+ * e.g. `0 17 * * MON` or `30 9-17 * * 1-5`.
+ * @param expression the cron expression
+ * @returns the parsed schedule
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+
+    // 7 is an alias for Sunday
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+
+    return {
+        expression,
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        restrictedDayOfMonth: parts[2] !== "*",
+        restrictedDayOfWeek: parts[4] !== "*"
+    };
+}
+
+/**
+ * get the next time a schedule fires, strictly after a point in time
+ * @param schedule the parsed schedule
+ * @param after the point in time to search from
+ * @param timeZone IANA time zone the expression is in, defaults to the system time zone
+ * @returns the next run time, or null if there is none within five years
+ */
+export function getNextRun(schedule: CronSchedule, after: Date, timeZone?: string): Date | null {
+    // start at the beginning of the next minute
+    let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+    const limit = after.getTime() + 5 * 366 * 24 * 3600000;
+
+    while (time <= limit) {
+        const local = getLocalTime(new Date(time), timeZone);
+
+        if (!matchesDay(schedule, local)) {
+            time = getNextLocalDay(time, local, timeZone);
+            continue;
+        }
+
+        if (!schedule.hours.has(local.hour)) {
+            // skip to the next full hour
+            time += (60 - local.minute) * 60000;
+            continue;
+        }
+
+        if (!schedule.minutes.has(local.minute)) {
+            time += 60000;
+            continue;
+        }
+
+        return new Date(time);
+    }
+
+    return null;
+}
+
+/**
+ * get all the times a schedule fired in a period
+ * @param schedule the parsed schedule
+ * @param after start of the period (exclusive)
+ * @param until end of the period (inclusive)
+ * @param timeZone IANA time zone the expression is in
+ * @param limit maximum number of run times to return
+ * @returns run times, oldest first
+ */
+export function getRunsBetween(schedule: CronSchedule, after: Date, until: Date, timeZone?: string, limit: number = 100): Date[] {
+    const runs: Date[] = [];
+    let next = getNextRun(schedule, after, timeZone);
+
+    while (next && next.getTime() <= until.getTime() && runs.length < limit) {
+        runs.push(next);
+        next = getNextRun(schedule, next, timeZone);
+    }
+
+    return runs;
+}
+
+function parseField(
+    field: string,
+    spec: { name: string; min: number; max: number; names?: string[]; nameOffset?: number },
+    expression: string
+): Set<number> {
+    const values = new Set<number>();
+    const invalid = () => new Error(`Invalid cron expression "${expression}": bad ${spec.name} field "${field}"`);
+
+    const parseValue = (value: string): number => {
+        const index = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+        const parsed = index >= 0 ? index + (spec.nameOffset ?? 0) : Number(value);
+        if (!/^\w+$/.test(value) || !Number.isInteger(parsed) || parsed < spec.min || parsed > spec.max) {
+            throw invalid();
+        }
+        return parsed;
+    };
+
+    for (const item of field.split(",")) {
+        const [range, stepText] = item.split("/");
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw invalid();
+        }
+
+        let start: number;
+        let end: number;
+        if (range === "*") {
+            start = spec.min;
+            end = spec.max;
+        } else if (range.includes("-")) {
+            const [from, to] = range.split("-");
+            start = parseValue(from);
+            end = parseValue(to);
+            if (start > end) throw invalid();
+        } else {
+            start = parseValue(range);
+            // "5/10" means from 5 to the end in steps of 10
+            end = stepText === undefined ? start : spec.max;
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+function matchesDay(schedule: CronSchedule, local: LocalTime): boolean {
+    if (!schedule.months.has(local.month)) return false;
+
+    const dayOfMonth = schedule.daysOfMonth.has(local.day);
+    const dayOfWeek = schedule.daysOfWeek.has(local.weekday);
+
+    // like classic cron, a day matches either field if both are restricted
+    if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * get the start of the next local day
+ *
+ * Days are not 24 hours long across daylight saving changes, so this jumps to a few hours
+ * before the estimated midnight and steps by full local hours until the day changes.
+ */
+function getNextLocalDay(time: number, local: LocalTime, timeZone?: string): number {
+    const estimate = time + ((24 - local.hour) * 60 - local.minute) * 60000;
+    let next = Math.max(time, estimate - 3 * 3600000);
+    let nextLocal = getLocalTime(new Date(next), timeZone);
+
+    while (nextLocal.day === local.day) {
+        next += (60 - nextLocal.minute) * 60000;
+        nextLocal = getLocalTime(new Date(next), timeZone);
+    }
+
+    return next;
+}
+
+function getLocalTime(date: Date, timeZone?: string): LocalTime {
+    const key = timeZone || "";
+    let formatter = formatters.get(key);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            minute: "numeric",
+            hour: "numeric",
+            day: "numeric",
+            month: "numeric",
+            weekday: "short",
+            hourCycle: "h23"
+        });
+        formatters.set(key, formatter);
+    }
+
+    const parts = formatter.formatToParts(date);
+    const get = (type: string) => parts.find(part => part.type === type)?.value ?? "";
+
+    return {
+        minute: Number(get("minute")),
+        hour: Number(get("hour")),
+        day: Number(get("day")),
+        month: Number(get("month")),
+        weekday: DAY_NAMES.indexOf(get("weekday").toUpperCase())
+    };
+}
@@ -0,0 +1,173 @@
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
+import type { AlfaFrensMessage } from "../types";
+import { toTimestamp } from "./threads";
+
+/**
+ * persisted polling position of a channel
+ */
+export interface ChannelCursorState {
+    /** timestamp to fetch messages from (inclusive) */
+    since: number;
+    /** processed message IDs at or after `since`, mapped to their timestamps */
+    seen: Record<string, number>;
+    /** IDs of messages whose processing failed, `since` stays at or before them so they are fetched again */
+    failed: Record<string, { timestamp: number; attempts: number }>;
+}
+
+/**
+ * durable polling cursor for a single channel
+ *
+ * The cursor stores the timestamp of the newest processed message together with
+ * the IDs of processed messages sharing that timestamp. Polling from `since`
+ * inclusively and skipping seen IDs means messages with identical timestamps are
+ * neither skipped nor answered twice, including across restarts. Messages that
+ * failed hold the cursor back until they are processed or given up.
+ */
+export class ChannelCursor {
+    private runtime: IAgentRuntime;
+    private cacheKey: string;
+    private state: ChannelCursorState = { since: Date.now(), seen: {}, failed: {} };
+
+    /**
+     * creates a new cursor
+     * @param runtime the agent runtime
+     * @param channelId channel the cursor belongs to
+     */
+    constructor(runtime: IAgentRuntime, channelId: string) {
+        this.runtime = runtime;
+        this.cacheKey = `alfafrens/${channelId}/cursor`;
+    }
+
+    /**
+     * timestamp to poll messages from
+     */
+    get since(): number {
+        return this.state.since;
+    }
+
+    /**
+     * load the cursor from the cache
+     * @param maxLookbackMs how far back to catch up on messages posted while offline
+     * @returns the loaded state
+     */
+    async load(maxLookbackMs: number): Promise<ChannelCursorState> {
+        const now = Date.now();
+        const earliest = now - maxLookbackMs;
+
+        try {
+            const cached = await this.runtime.cacheManager.get<ChannelCursorState>(this.cacheKey);
+            if (cached && typeof cached.since === "number") {
+                if (cached.since < earliest) {
+                    elizaLogger.warn(`[ChannelCursor] ${this.cacheKey} is older than the max lookback, skipping messages before ${new Date(earliest).toISOString()}`);
+                }
+                this.state = {
+                    since: Math.max(cached.since, earliest),
+                    seen: cached.seen || {},
+                    failed: cached.failed || {}
+                };
+            } else {
+                // first start: only handle messages from now on
+                this.state = { since: now, seen: {}, failed: {} };
+            }
+        } catch (error) {
+            elizaLogger.error(`[ChannelCursor] Failed to load ${this.cacheKey}, starting from now:`, error);
+            this.state = { since: now, seen: {}, failed: {} };
+        }
+
+        this.prune();
+        elizaLogger.debug(`[ChannelCursor] ${this.cacheKey} loaded, polling since ${new Date(this.state.since).toISOString()}`);
+        return this.state;
+    }
+
+    /**
+     * check whether a message was already processed
+     * @param messageId the message ID
+     */
+    isProcessed(messageId: string): boolean {
+        return messageId in this.state.seen;
+    }
+
+    /**
+     * drop processed and duplicate messages and order the rest by timestamp
+     * @param messages messages returned by the API
+     * @returns messages still to be processed
+     */
+    filterNew(messages: AlfaFrensMessage[]): AlfaFrensMessage[] {
+        const ids = new Set<string>();
+
+        return messages
+            .filter(message => {
+                if (this.isProcessed(message.id) || ids.has(message.id)) {
+                    return false;
+                }
+                ids.add(message.id);
+                return true;
+            })
+            .sort((a, b) => toTimestamp(a) - toTimestamp(b));
+    }
+
+    /**
+     * record a message as processed and persist the cursor
+     * @param message the processed message
+     */
+    async markProcessed(message: AlfaFrensMessage): Promise<void> {
+        const timestamp = toTimestamp(message);
+        delete this.state.failed[message.id];
+        this.state.seen[message.id] = timestamp;
+        // never move past a failed message still to be retried
+        const oldestFailed = Math.min(...Object.values(this.state.failed).map(failed => failed.timestamp));
+        this.state.since = Math.min(Math.max(this.state.since, timestamp), oldestFailed);
+        this.prune();
+        await this.save();
+    }
+
+    /**
+     * record a failed attempt at a message, keeping the cursor at or before it
+     * so the next poll fetches it again
+     * @param message the message that failed
+     * @param maxAttempts attempts after which the message is given up and marked processed
+     * @returns whether the message will be retried
+     */
+    async markFailed(message: AlfaFrensMessage, maxAttempts: number): Promise<boolean> {
+        const timestamp = toTimestamp(message);
+        const attempts = (this.state.failed[message.id]?.attempts ?? 0) + 1;
+        if (attempts >= maxAttempts) {
+            elizaLogger.warn(`[ChannelCursor] Giving up on message ${message.id} after ${attempts} failed attempt(s)`);
+            await this.markProcessed(message);
+            return false;
+        }
+
+        this.state.failed[message.id] = { timestamp, attempts };
+        this.state.since = Math.min(this.state.since, timestamp);
+        this.prune();
+        await this.save();
+        return true;
+    }
+
+    /**
+     * persist the cursor to the cache
+     */
+    async save(): Promise<void> {
+        try {
+            await this.runtime.cacheManager.set(this.cacheKey, this.state);
+        } catch (error) {
+            elizaLogger.error(`[ChannelCursor] Failed to save ${this.cacheKey}:`, error);
+        }
+    }
+
+    /**
+     * forget seen and failed IDs older than the cursor, they can no longer be returned by a poll
+     */
+    private prune(): void {
+        for (const [id, timestamp] of Object.entries(this.state.seen)) {
+            if (timestamp < this.state.since) {
+                delete this.state.seen[id];
+            }
+        }
+        for (const [id, failed] of Object.entries(this.state.failed)) {
+            if (failed.timestamp < this.state.since) {
+                delete this.state.failed[id];
+            }
+        }
+    }
+}
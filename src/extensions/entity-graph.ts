@@ -0,0 +1,336 @@
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+/**
+ * relationship between two entities as extracted from a fact
+ */
+export interface ExtractedRelationship {
+    sourceEntityId: string;
+    targetEntityId: string;
+    tags?: string[];
+}
+
+/**
+ * entity of the graph
+ */
+export interface GraphEntity {
+    /** normalised name, used as the key */
+    id: string;
+    /** name as first seen */
+    name: string;
+    /** other names that resolve to this entity */
+    aliases: string[];
+    firstSeenAt: number;
+    lastSeenAt: number;
+}
+
+/**
+ * directed relationship between two entities
+ */
+export interface GraphRelationship {
+    sourceId: string;
+    targetId: string;
+    tags: string[];
+    /** IDs of the facts the relationship was extracted from */
+    factIds: string[];
+    metadata: {
+        /** how often the relationship was seen */
+        interactions: number;
+    };
+    lastSeenAt: number;
+}
+
+/**
+ * options for relationship queries
+ */
+export interface RelationshipQueryOptions {
+    /** only relationships with this tag */
+    tag?: string;
+    /** maximum number of relationships, most frequently seen first */
+    limit?: number;
+}
+
+export interface AlfaFrensEntityGraphOptions {
+    /** cache namespace, the graph is shared by all channels of an agent by default */
+    namespace?: string;
+    /** maximum number of fact IDs kept per relationship */
+    maxFactIds?: number;
+}
+
+interface EntityGraphState {
+    entities: Record<string, GraphEntity>;
+    /** keyed by `${sourceId}->${targetId}` */
+    relationships: Record<string, GraphRelationship>;
+    /** normalised alias to entity ID */
+    aliases: Record<string, string>;
+}
+
+/**
+ * normalise an entity name: lowercase, single spaces, no leading @ or trailing possessive
+ */
+export function normalizeEntityName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/\s+/g, " ")
+        .trim()
+        .replace(/^@/, "")
+        .replace(/['’]s$/, "")
+        .trim();
+}
+
+/**
+ * load entity aliases from ALFAFRENS_ENTITY_ALIASES, a JSON object of alias to entity name
+ */
+export function loadEntityAliases(runtime: IAgentRuntime): Record<string, string> {
+    const setting = runtime.getSetting("ALFAFRENS_ENTITY_ALIASES");
+    if (!setting) return {};
+
+    try {
+        const aliases = typeof setting === "string" ? JSON.parse(setting) : setting;
+        return aliases && typeof aliases === "object" && !Array.isArray(aliases) ? aliases : {};
+    } catch (error) {
+        elizaLogger.error("[AlfaFrensEntityGraph] Invalid ALFAFRENS_ENTITY_ALIASES:", error);
+        return {};
+    }
+}
+
+/**
+ * graph of the entities and relationships extracted from facts, persisted in the cache
+ *
+ * Entity names are normalised and aliases resolve to one entity, so "@Alice",
+ * "alice" and a configured nickname are the same node. Seeing a relationship
+ * again counts another interaction instead of adding an edge.
+ */
+export class AlfaFrensEntityGraph {
+    private runtime: IAgentRuntime;
+    private cacheKey: string;
+    private maxFactIds: number;
+    private configuredAliases: Record<string, string>;
+    private writes: Promise<unknown> = Promise.resolve();
+
+    constructor(runtime: IAgentRuntime, options: AlfaFrensEntityGraphOptions = {}) {
+        this.runtime = runtime;
+        this.cacheKey = options.namespace ? `alfafrens/${options.namespace}/entity-graph` : "alfafrens/entity-graph";
+        this.maxFactIds = options.maxFactIds ?? 20;
+        this.configuredAliases = loadEntityAliases(runtime);
+    }
+
+    /**
+     * add relationships, counting an interaction for each one already known
+     * @param relationships extracted relationships
+     * @param factId fact the relationships were extracted from
+     * @returns IDs of the entities involved
+     */
+    async addRelationships(relationships: ExtractedRelationship[], factId?: string): Promise<string[]> {
+        const valid = relationships.filter(relationship =>
+            normalizeEntityName(String(relationship?.sourceEntityId ?? "")) &&
+            normalizeEntityName(String(relationship?.targetEntityId ?? ""))
+        );
+        if (valid.length === 0) return [];
+
+        return this.update(state => {
+            const now = Date.now();
+            const entityIds = new Set<string>();
+
+            for (const relationship of valid) {
+                const sourceId = this.addEntity(state, relationship.sourceEntityId, now);
+                const targetId = this.addEntity(state, relationship.targetEntityId, now);
+                entityIds.add(sourceId);
+                entityIds.add(targetId);
+                if (sourceId === targetId) continue;
+
+                const key = `${sourceId}->${targetId}`;
+                const tags = (relationship.tags || []).map(tag => String(tag).toLowerCase());
+                const existing = state.relationships[key];
+
+                state.relationships[key] = existing
+                    ? {
+                        ...existing,
+                        tags: [...new Set([...existing.tags, ...tags])],
+                        factIds: factId && !existing.factIds.includes(factId)
+                            ? [...existing.factIds, factId].slice(-this.maxFactIds)
+                            : existing.factIds,
+                        metadata: { interactions: existing.metadata.interactions + 1 },
+                        lastSeenAt: now
+                    }
+                    : {
+                        sourceId,
+                        targetId,
+                        tags: [...new Set(tags)],
+                        factIds: factId ? [factId] : [],
+                        metadata: { interactions: 1 },
+                        lastSeenAt: now
+                    };
+            }
+
+            return [...entityIds];
+        });
+    }
+
+    /**
+     * make a name resolve to an entity
+     * @param alias the other name
+     * @param name name of the entity
+     */
+    async addAlias(alias: string, name: string): Promise<void> {
+        await this.update(state => {
+            const entityId = this.resolveIn(state, name);
+            const aliasId = normalizeEntityName(alias);
+            if (!aliasId || aliasId === entityId) return;
+
+            state.aliases[aliasId] = entityId;
+            const entity = state.entities[entityId];
+            if (entity && !entity.aliases.includes(aliasId)) {
+                entity.aliases.push(aliasId);
+            }
+        });
+    }
+
+    /**
+     * the ID of the entity a name refers to
+     */
+    async resolve(name: string): Promise<string> {
+        return this.resolveIn(await this.load(), name);
+    }
+
+    /**
+     * get an entity by name or alias
+     */
+    async getEntity(name: string): Promise<GraphEntity | undefined> {
+        const state = await this.load();
+        return state.entities[this.resolveIn(state, name)];
+    }
+
+    /**
+     * what we know about an entity: its relationships in both directions
+     * @param name entity name or alias
+     */
+    async getRelationships(name: string, options: RelationshipQueryOptions = {}): Promise<GraphRelationship[]> {
+        const state = await this.load();
+        const entityId = this.resolveIn(state, name);
+
+        return this.select(
+            Object.values(state.relationships).filter(relationship =>
+                relationship.sourceId === entityId || relationship.targetId === entityId
+            ),
+            options
+        );
+    }
+
+    /**
+     * who is related to an entity
+     * @param name entity name or alias
+     * @returns the related entities, most frequently seen relationships first
+     */
+    async findRelated(name: string, options: RelationshipQueryOptions = {}): Promise<GraphEntity[]> {
+        const state = await this.load();
+        const entityId = this.resolveIn(state, name);
+        const relationships = await this.getRelationships(name, { ...options, limit: undefined });
+
+        const related = relationships
+            .map(relationship => relationship.sourceId === entityId ? relationship.targetId : relationship.sourceId)
+            .filter((id, index, ids) => ids.indexOf(id) === index)
+            .map(id => state.entities[id])
+            .filter((entity): entity is GraphEntity => entity !== undefined);
+
+        return options.limit === undefined ? related : related.slice(0, options.limit);
+    }
+
+    /**
+     * entities mentioned in a text by name or alias
+     */
+    async findMentionedEntities(text: string): Promise<GraphEntity[]> {
+        const state = await this.load();
+        const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{N}@'’-]+/gu, " ")} `;
+        const mentioned = new Set<string>();
+
+        const names = [
+            ...Object.keys(state.entities).map(id => [id, id] as const),
+            ...Object.entries({ ...this.normalizedConfiguredAliases(), ...state.aliases })
+        ];
+        for (const [name, entityId] of names) {
+            if (state.entities[entityId] && (normalized.includes(` ${name} `) || normalized.includes(` @${name} `))) {
+                mentioned.add(entityId);
+            }
+        }
+
+        return [...mentioned].map(id => state.entities[id]);
+    }
+
+    /**
+     * relationships of the entities mentioned in a text, as lines for a prompt
+     * @param text text mentioning the entities, e.g. a message and its sender
+     * @param limit maximum number of lines
+     */
+    async describeMentioned(text: string, limit: number = 5): Promise<string[]> {
+        if (limit <= 0) return [];
+
+        const state = await this.load();
+        const entityIds = new Set((await this.findMentionedEntities(text)).map(entity => entity.id));
+        if (entityIds.size === 0) return [];
+
+        return this.select(
+            Object.values(state.relationships).filter(relationship =>
+                entityIds.has(relationship.sourceId) || entityIds.has(relationship.targetId)
+            ),
+            { limit }
+        ).map(relationship => formatRelationship(state, relationship));
+    }
+
+    private select(relationships: GraphRelationship[], options: RelationshipQueryOptions): GraphRelationship[] {
+        const tag = options.tag?.toLowerCase();
+        const selected = relationships
+            .filter(relationship => !tag || relationship.tags.includes(tag))
+            .sort((a, b) => b.metadata.interactions - a.metadata.interactions || b.lastSeenAt - a.lastSeenAt);
+
+        return options.limit === undefined ? selected : selected.slice(0, options.limit);
+    }
+
+    private addEntity(state: EntityGraphState, name: string, now: number): string {
+        const id = this.resolveIn(state, name);
+        const entity = state.entities[id];
+
+        if (entity) {
+            entity.lastSeenAt = now;
+        } else {
+            state.entities[id] = { id, name: String(name).trim(), aliases: [], firstSeenAt: now, lastSeenAt: now };
+        }
+        return id;
+    }
+
+    private resolveIn(state: EntityGraphState, name: string): string {
+        const normalized = normalizeEntityName(String(name));
+        return state.aliases[normalized] ?? this.normalizedConfiguredAliases()[normalized] ?? normalized;
+    }
+
+    private normalizedConfiguredAliases(): Record<string, string> {
+        return Object.fromEntries(
+            Object.entries(this.configuredAliases).map(([alias, name]) => [normalizeEntityName(alias), normalizeEntityName(String(name))])
+        );
+    }
+
+    private async load(): Promise<EntityGraphState> {
+        const state = await this.runtime.cacheManager.get<EntityGraphState>(this.cacheKey);
+        return state?.entities ? state : { entities: {}, relationships: {}, aliases: {} };
+    }
+
+    /**
+     * read-modify-write the graph, one update at a time
+     */
+    private update<T>(change: (state: EntityGraphState) => T): Promise<T> {
+        const result = this.writes.then(async () => {
+            const state = await this.load();
+            const value = change(state);
+            await this.runtime.cacheManager.set(this.cacheKey, state);
+            return value;
+        });
+        this.writes = result.catch(() => undefined);
+        return result;
+    }
+}
+
+function formatRelationship(state: EntityGraphState, relationship: GraphRelationship): string {
+    const source = state.entities[relationship.sourceId]?.name ?? relationship.sourceId;
+    const target = state.entities[relationship.targetId]?.name ?? relationship.targetId;
+    const tags = relationship.tags.length > 0 ? relationship.tags.join(", ") : "related";
+    return `${source} → ${target} (${tags}, seen ${relationship.metadata.interactions}x)`;
+}
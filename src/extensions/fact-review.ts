@@ -0,0 +1,299 @@
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
+import { v4 as uuidv4 } from "uuid";
+import { getFactId, getFractionSetting, loadSharedCacheState, updateSharedCacheState, type StoredFact } from "./fact-store";
+import type { FactValidation, FactValidationManager } from "./fact-validation";
+
+/**
+ * why a fact needs a moderator's review
+ */
+export type FactReviewReason = "low_confidence" | "contradiction" | "requires_confirmation";
+
+/**
+ * fact waiting for, or given, a moderator's decision
+ */
+export interface FactReviewItem {
+    id: string;
+    fact: string;
+    reason: FactReviewReason;
+    validation: FactValidation;
+    /** the message the fact was extracted from */
+    sourceMessage?: {
+        id?: string;
+        senderId: string;
+        senderUsername?: string;
+        content?: string;
+    };
+    status: "pending" | "approved" | "rejected";
+    createdAt: number;
+    reviewedAt?: number;
+    /** ID of the moderator who reviewed the fact */
+    reviewedBy?: string;
+    /** fact text as corrected by the moderator */
+    editedFact?: string;
+}
+
+export interface AlfaFrensFactReviewQueueOptions {
+    /** maximum number of reviewed items kept for reference */
+    maxReviewed?: number;
+}
+
+interface FactReviewState {
+    items: FactReviewItem[];
+}
+
+/**
+ * confidence given to facts approved by a moderator,
+ * ALFAFRENS_FACT_REVIEW_CONFIDENCE (default 0.95)
+ */
+export function getApprovedFactConfidence(runtime: IAgentRuntime): number {
+    return getFractionSetting(runtime, "ALFAFRENS_FACT_REVIEW_CONFIDENCE", 0.95);
+}
+
+/**
+ * queue of facts held back for a moderator, persisted in the cache
+ *
+ * Approved facts are written to the fact store with elevated confidence and
+ * supersede the facts they contradict; rejected facts are dropped. The most
+ * recent decisions are kept for reference. Queues of the same runtime share
+ * one in-process copy of the items.
+ */
+export class AlfaFrensFactReviewQueue {
+    private runtime: IAgentRuntime;
+    private manager: FactValidationManager | null;
+    private cacheKey: string = "alfafrens/fact-review";
+    private maxReviewed: number;
+
+    /**
+     * creates a new review queue
+     * @param runtime agent runtime
+     * @param manager fact validation manager that stores approved facts (created on first approval if omitted)
+     */
+    constructor(runtime: IAgentRuntime, manager?: FactValidationManager, options: AlfaFrensFactReviewQueueOptions = {}) {
+        this.runtime = runtime;
+        this.manager = manager ?? null;
+        this.maxReviewed = options.maxReviewed ?? 100;
+    }
+
+    /**
+     * hold a fact back for review, a fact already pending is not queued twice
+     * @returns the pending review item
+     */
+    async submit(
+        fact: string,
+        validation: FactValidation,
+        reason: FactReviewReason,
+        sourceMessage?: FactReviewItem["sourceMessage"]
+    ): Promise<FactReviewItem> {
+        return this.update(state => {
+            const factId = getFactId(fact);
+            const pending = state.items.find(item => item.status === "pending" && getFactId(item.fact) === factId);
+            if (pending) {
+                return pending;
+            }
+
+            const item: FactReviewItem = {
+                id: uuidv4(),
+                fact,
+                reason,
+                validation,
+                sourceMessage,
+                status: "pending",
+                createdAt: Date.now()
+            };
+            state.items.push(item);
+
+            elizaLogger.info(`[AlfaFrensFactReviewQueue] Queued fact for review (${reason}): ${fact}`);
+            return item;
+        });
+    }
+
+    /**
+     * facts waiting for review, oldest first
+     */
+    async listPending(): Promise<FactReviewItem[]> {
+        const state = await this.load();
+        return state.items.filter(item => item.status === "pending");
+    }
+
+    /**
+     * find a review item
+     * @param id item ID or an unambiguous prefix of at least four characters
+     */
+    async get(id: string): Promise<FactReviewItem | undefined> {
+        const state = await this.load();
+        return findItem(state, id);
+    }
+
+    /**
+     * approve a fact and store it with elevated confidence
+     * @param id item ID or prefix
+     * @param moderatorId who approved the fact
+     * @param editedFact corrected fact text to store instead
+     * @returns the stored fact, or null if the item isn't pending
+     */
+    async approve(id: string, moderatorId: string, editedFact?: string): Promise<StoredFact | null> {
+        const item = await this.decide(id, moderatorId, "approved", editedFact);
+        if (!item) return null;
+
+        const manager = await this.getManager();
+        const confidence = Math.max(
+            getApprovedFactConfidence(this.runtime),
+            item.validation.confidence,
+            manager.thresholds.confidence
+        );
+        return manager.storeFact(item.editedFact || item.fact, { ...item.validation, confidence });
+    }
+
+    /**
+     * reject a fact
+     * @param id item ID or prefix
+     * @param moderatorId who rejected the fact
+     * @returns whether a pending item was rejected
+     */
+    async reject(id: string, moderatorId: string): Promise<boolean> {
+        return (await this.decide(id, moderatorId, "rejected")) !== null;
+    }
+
+    private async decide(
+        id: string,
+        moderatorId: string,
+        status: "approved" | "rejected",
+        editedFact?: string
+    ): Promise<FactReviewItem | null> {
+        return this.update(state => {
+            const item = findItem(state, id);
+            if (!item || item.status !== "pending") {
+                return null;
+            }
+
+            item.status = status;
+            item.reviewedAt = Date.now();
+            item.reviewedBy = moderatorId;
+            if (editedFact?.trim()) {
+                item.editedFact = editedFact.trim();
+            }
+
+            const pending = state.items.filter(other => other.status === "pending");
+            const reviewed = state.items.filter(other => other.status !== "pending").slice(-this.maxReviewed);
+            state.items = [...pending, ...reviewed].sort((a, b) => a.createdAt - b.createdAt);
+
+            elizaLogger.info(`[AlfaFrensFactReviewQueue] Fact ${status} by ${moderatorId}: ${item.editedFact || item.fact}`);
+            return { ...item };
+        });
+    }
+
+    private async getManager(): Promise<FactValidationManager> {
+        if (!this.manager) {
+            // imported lazily, the fact validation module creates review queues itself
+            const { FactValidationManager } = await import("./fact-validation");
+            this.manager = new FactValidationManager(this.runtime);
+        }
+        return this.manager;
+    }
+
+    private load(): Promise<FactReviewState> {
+        return loadSharedCacheState<FactReviewState>(this.runtime, this.cacheKey, state => !!state?.items, () => ({ items: [] }));
+    }
+
+    /**
+     * read-modify-write the queue, one update at a time across all queues of the runtime
+     */
+    private update<T>(change: (state: FactReviewState) => T): Promise<T> {
+        return updateSharedCacheState(this.runtime, this.cacheKey, () => this.load(), change);
+    }
+}
+
+function findItem(state: FactReviewState, id: string): FactReviewItem | undefined {
+    const exact = state.items.find(item => item.id === id);
+    if (exact || id.length < 4) return exact;
+
+    const matches = state.items.filter(item => item.id.startsWith(id));
+    return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * whether a message was sent by a moderator: its sender ID is listed in
+ * ALFAFRENS_MODERATOR_IDS, or its username in ALFAFRENS_MODERATOR_USERNAMES
+ * (both comma-separated). Usernames can change hands, so they are only
+ * trusted when listed separately.
+ */
+export function isModerator(runtime: IAgentRuntime, senderId?: string, senderUsername?: string): boolean {
+    const list = (key: string) => (runtime.getSetting(key) || "")
+        .split(",")
+        .map(entry => entry.trim().replace(/^@/, ""))
+        .filter(Boolean);
+    const username = senderUsername?.replace(/^@/, "");
+
+    return (senderId !== undefined && list("ALFAFRENS_MODERATOR_IDS").includes(senderId)) ||
+        (username !== undefined && list("ALFAFRENS_MODERATOR_USERNAMES").includes(username));
+}
+
+/**
+ * whether a message is a review command
+ */
+export function isReviewCommand(text?: string): boolean {
+    return /^\/review(\s|$)/i.test(text?.trim() || "");
+}
+
+const REVIEW_USAGE = "Usage: /review [list] | /review approve <id> | /review reject <id> | /review edit <id> <fact>";
+
+/**
+ * run a review command and describe the outcome
+ *
+ * - `/review` or `/review list`: pending facts
+ * - `/review approve <id>`: store the fact
+ * - `/review reject <id>`: drop the fact
+ * - `/review edit <id> <fact>`: store a corrected fact
+ *
+ * @param queue the review queue
+ * @param text the command message
+ * @param moderatorId who sent the command
+ * @param onApproved called with each fact stored by the command
+ * @returns reply for the moderator
+ */
+export async function handleReviewCommand(
+    queue: AlfaFrensFactReviewQueue,
+    text: string,
+    moderatorId: string,
+    onApproved?: (fact: StoredFact) => Promise<void>
+): Promise<string> {
+    const [, action = "list", id, ...rest] = text.trim().split(/\s+/);
+
+    switch (action.toLowerCase()) {
+        case "list": {
+            const pending = await queue.listPending();
+            if (pending.length === 0) {
+                return "No facts waiting for review.";
+            }
+            return [`${pending.length} fact(s) waiting for review:`, ...pending.slice(0, 10).map(formatReviewItem)].join("\n");
+        }
+        case "approve": {
+            if (!id) return REVIEW_USAGE;
+            const stored = await queue.approve(id, moderatorId);
+            if (stored) await onApproved?.(stored);
+            return stored ? `Approved: ${stored.text}` : `No pending fact ${id}.`;
+        }
+        case "edit": {
+            const editedFact = rest.join(" ");
+            if (!id || !editedFact) return REVIEW_USAGE;
+            const stored = await queue.approve(id, moderatorId, editedFact);
+            if (stored) await onApproved?.(stored);
+            return stored ? `Approved as edited: ${stored.text}` : `No pending fact ${id}.`;
+        }
+        case "reject": {
+            if (!id) return REVIEW_USAGE;
+            return await queue.reject(id, moderatorId) ? `Rejected ${id}.` : `No pending fact ${id}.`;
+        }
+        default:
+            return REVIEW_USAGE;
+    }
+}
+
+function formatReviewItem(item: FactReviewItem): string {
+    const source = item.sourceMessage?.senderUsername || item.sourceMessage?.senderId || item.validation.source;
+    const details = [`confidence ${item.validation.confidence.toFixed(2)}`, `from ${source}`];
+    if (item.validation.contradictions.length > 0) {
+        details.push(`contradicts: ${item.validation.contradictions.join("; ")}`);
+    }
+    return `[${item.id.slice(0, 8)}] ${item.fact} (${details.join(", ")})`;
+}
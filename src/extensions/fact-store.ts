@@ -0,0 +1,559 @@
+import { IAgentRuntime, elizaLogger, stringToUuid } from "@elizaos/core";
+import type { MemoryPriority } from "./fact-validation";
+
+/**
+ * message a fact was seen in
+ */
+export interface FactSource {
+    /** ID of the user who stated the fact */
+    senderId: string;
+    /** ID of the message the fact was extracted from */
+    messageId?: string;
+    /** when the fact was seen in this message */
+    seenAt: number;
+}
+
+/**
+ * fact kept in the fact store
+ */
+export interface StoredFact {
+    /** stable ID derived from the normalised fact text */
+    id: string;
+    text: string;
+    /** lowercase names of the entities the fact is about */
+    entities: string[];
+    confidence: number;
+    /** most recent messages the fact was seen in, oldest first */
+    sources: FactSource[];
+    firstSeenAt: number;
+    lastSeenAt: number;
+    /** how often the fact was seen again after it was first stored */
+    confirmations: number;
+    /** IDs of older facts this fact contradicts and replaces */
+    supersedes: string[];
+    /** ID of the newer fact that replaced this one */
+    supersededBy?: string;
+    /** importance as of `lastAccessed`, decays afterwards */
+    priority: MemoryPriority;
+    relationships?: Array<{
+        sourceEntityId: string;
+        targetEntityId: string;
+        tags: string[];
+    }>;
+    embedding?: number[];
+}
+
+/**
+ * fact to add to the store
+ */
+export interface FactInput {
+    text: string;
+    confidence: number;
+    senderId: string;
+    messageId?: string;
+    entities?: string[];
+    relationships?: StoredFact["relationships"];
+    /** IDs of stored facts the new fact contradicts */
+    supersedes?: string[];
+    embedding?: number[];
+}
+
+/**
+ * options for fact queries
+ */
+export interface FactQueryOptions {
+    /** include facts replaced by newer ones */
+    includeSuperseded?: boolean;
+    /** maximum number of facts, most recently seen first */
+    limit?: number;
+    /** only facts seen at or after this time */
+    since?: number;
+}
+
+/**
+ * how fact priorities grow and decay
+ */
+export interface FactPriorityPolicy {
+    /** time after which an untouched fact has lost half its importance in milliseconds */
+    halfLifeMs: number;
+    /** importance added when a fact is retrieved into a prompt */
+    retrievalBoost: number;
+    /** importance added when a fact is confirmed again */
+    confirmationBoost: number;
+    /** facts whose priority decays below this are archived */
+    archiveBelow: number;
+    /** weight of the priority against the similarity when ranking facts for a prompt (0-1) */
+    retrievalWeight: number;
+}
+
+export const DEFAULT_FACT_PRIORITY_POLICY: FactPriorityPolicy = {
+    halfLifeMs: 30 * 24 * 60 * 60 * 1000,
+    retrievalBoost: 0.1,
+    confirmationBoost: 0.2,
+    archiveBelow: 0.1,
+    retrievalWeight: 0.3
+};
+
+export interface AlfaFrensFactStoreOptions {
+    /** cache namespace, facts are shared by all channels of an agent by default */
+    namespace?: string;
+    /** maximum number of sources kept per fact */
+    maxSources?: number;
+    /** maximum number of archived facts kept, the oldest are pruned */
+    maxArchived?: number;
+    /** priority policy, defaults to the runtime settings */
+    priority?: FactPriorityPolicy;
+}
+
+/**
+ * facts without their embeddings, and the archive
+ */
+interface FactStoreState {
+    facts: Record<string, StoredFact>;
+    archived?: StoredFact[];
+}
+
+/**
+ * values kept per fact ID under a key of their own
+ */
+type FactValues<T> = Record<string, T>;
+
+/**
+ * in-process copy of a cached state and the chain of its pending writes
+ */
+export interface SharedCacheState<S> {
+    /** last state read or written, undefined until first loaded */
+    state?: S;
+    /** pending first read of the cache */
+    reading?: Promise<S | undefined>;
+    writes: Promise<unknown>;
+}
+
+const sharedCacheStates = new WeakMap<IAgentRuntime, Map<string, SharedCacheState<unknown>>>();
+
+/**
+ * the shared state of a cache key, the same object for every store of a runtime
+ * using the key, so their read-modify-writes are serialized and don't overwrite
+ * each other
+ * @param runtime agent runtime
+ * @param key cache key
+ */
+export function getSharedCacheState<S>(runtime: IAgentRuntime, key: string): SharedCacheState<S> {
+    let states = sharedCacheStates.get(runtime);
+    if (!states) {
+        states = new Map();
+        sharedCacheStates.set(runtime, states);
+    }
+
+    let shared = states.get(key);
+    if (!shared) {
+        shared = { writes: Promise.resolve() };
+        states.set(key, shared);
+    }
+    return shared as SharedCacheState<S>;
+}
+
+/**
+ * read a cached state through its shared copy, reading the cache only the first time
+ * @param runtime agent runtime
+ * @param key cache key
+ * @param isValid whether a cached value has the expected shape
+ * @param empty state used when nothing valid is cached
+ */
+export async function loadSharedCacheState<S>(
+    runtime: IAgentRuntime,
+    key: string,
+    isValid: (value: S | undefined) => boolean,
+    empty: () => S
+): Promise<S> {
+    const shared = getSharedCacheState<S>(runtime, key);
+    if (shared.state === undefined) {
+        shared.reading ??= runtime.cacheManager.get<S>(key).finally(() => {
+            shared.reading = undefined;
+        });
+        const cached = await shared.reading;
+        // another store may have loaded the state while the cache was read
+        shared.state ??= isValid(cached) ? cached as S : empty();
+    }
+    return shared.state as S;
+}
+
+/**
+ * read-modify-write a cached state after the pending writes of every store sharing
+ * its key; the shared copy is dropped if the change or the write fails
+ * @param runtime agent runtime
+ * @param key cache key
+ * @param load reads the current state
+ * @param change modifies the state in place
+ */
+export function updateSharedCacheState<S, T>(
+    runtime: IAgentRuntime,
+    key: string,
+    load: () => Promise<S>,
+    change: (state: S) => T
+): Promise<T> {
+    const shared = getSharedCacheState<S>(runtime, key);
+    const result = shared.writes.then(async () => {
+        try {
+            const state = await load();
+            const value = change(state);
+            await runtime.cacheManager.set(key, state);
+            shared.state = state;
+            return value;
+        } catch (error) {
+            shared.state = undefined;
+            throw error;
+        }
+    });
+    shared.writes = result.catch(() => undefined);
+    return result;
+}
+
+/**
+ * read a setting between 0 and 1
+ * @param runtime agent runtime
+ * @param key setting name
+ * @param defaultValue value for missing or invalid settings
+ */
+export function getFractionSetting(runtime: IAgentRuntime, key: string, defaultValue: number): number {
+    const parsed = parseFloat(runtime.getSetting(key) ?? "");
+    return isNaN(parsed) ? defaultValue : Math.max(0, Math.min(1, parsed));
+}
+
+/**
+ * load the fact priority policy from runtime settings
+ * @param runtime agent runtime
+ * @returns policy with defaults for missing or invalid settings
+ */
+export function loadFactPriorityPolicy(runtime: IAgentRuntime): FactPriorityPolicy {
+    const halfLifeDays = parseFloat(runtime.getSetting("ALFAFRENS_FACT_HALF_LIFE_DAYS") ?? "");
+
+    return {
+        ...DEFAULT_FACT_PRIORITY_POLICY,
+        halfLifeMs: halfLifeDays > 0 ? halfLifeDays * 24 * 60 * 60 * 1000 : DEFAULT_FACT_PRIORITY_POLICY.halfLifeMs,
+        archiveBelow: getFractionSetting(runtime, "ALFAFRENS_FACT_ARCHIVE_PRIORITY", DEFAULT_FACT_PRIORITY_POLICY.archiveBelow),
+        retrievalWeight: getFractionSetting(runtime, "ALFAFRENS_FACT_PRIORITY_WEIGHT", DEFAULT_FACT_PRIORITY_POLICY.retrievalWeight)
+    };
+}
+
+/**
+ * current priority of a fact, its importance decayed since it was last accessed
+ * @param fact the fact
+ * @param halfLifeMs time to lose half the importance
+ * @param now current time
+ */
+export function getFactPriority(fact: StoredFact, halfLifeMs: number, now: number = Date.now()): number {
+    const { importance, lastAccessed } = fact.priority ?? { importance: fact.confidence, lastAccessed: fact.lastSeenAt };
+    const age = Math.max(0, now - lastAccessed);
+    return importance * Math.pow(0.5, age / halfLifeMs);
+}
+
+/**
+ * normalise a fact for comparison: lowercase, single spaces, no trailing punctuation
+ */
+export function normalizeFactText(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/\s+/g, " ")
+        .trim()
+        .replace(/[.!?;,]+$/, "")
+        .trim();
+}
+
+/**
+ * stable ID of a fact, the same for every wording that normalises to the same text
+ */
+export function getFactId(text: string): string {
+    return stringToUuid(`fact:${normalizeFactText(text)}`);
+}
+
+/**
+ * fact store persisted in the cache
+ *
+ * Facts are keyed by their normalised text, so a fact seen again is confirmed
+ * instead of stored twice. Every fact keeps where it came from, and a fact
+ * contradicting older ones supersedes them without deleting them. A fact's
+ * priority rises when it is confirmed or used and decays otherwise; facts that
+ * are no longer relevant are moved to a bounded archive.
+ *
+ * Stores of the same runtime and namespace share one in-process copy of the
+ * facts, read from the cache once and written through on every update.
+ * Embeddings and the priorities of retrieved facts are kept under keys of their
+ * own, so retrieving facts doesn't rewrite the facts and their sources.
+ */
+export class AlfaFrensFactStore {
+    private runtime: IAgentRuntime;
+    private cacheKey: string;
+    private embeddingsKey: string;
+    private usageKey: string;
+    private maxSources: number;
+    private maxArchived: number;
+    readonly priority: FactPriorityPolicy;
+
+    constructor(runtime: IAgentRuntime, options: AlfaFrensFactStoreOptions = {}) {
+        this.runtime = runtime;
+        this.cacheKey = options.namespace ? `alfafrens/${options.namespace}/facts` : "alfafrens/facts";
+        this.embeddingsKey = `${this.cacheKey}/embeddings`;
+        this.usageKey = `${this.cacheKey}/usage`;
+        this.maxSources = options.maxSources ?? 20;
+        this.maxArchived = options.maxArchived ?? 1000;
+        this.priority = options.priority ?? loadFactPriorityPolicy(runtime);
+    }
+
+    /**
+     * add a fact, or confirm it if it is already stored
+     * @param input the fact and where it was seen
+     * @returns the stored fact
+     */
+    async upsert(input: FactInput): Promise<StoredFact> {
+        const usage = await this.loadValues<MemoryPriority>(this.usageKey);
+
+        const stored = await this.update(state => {
+            const now = Date.now();
+            const id = getFactId(input.text);
+            const source: FactSource = { senderId: input.senderId, messageId: input.messageId, seenAt: now };
+            const entities = (input.entities || []).map(entity => entity.toLowerCase());
+            const existing = state.facts[id] && this.withUsage(state.facts[id], usage);
+
+            const fact: StoredFact = existing
+                ? {
+                    ...existing,
+                    entities: [...new Set([...existing.entities, ...entities])],
+                    confidence: Math.max(existing.confidence, input.confidence),
+                    sources: [...existing.sources, source].slice(-this.maxSources),
+                    lastSeenAt: now,
+                    confirmations: existing.confirmations + 1,
+                    priority: this.boost(existing, this.priority.confirmationBoost, now, false),
+                    relationships: input.relationships?.length ? input.relationships : existing.relationships,
+                    // embeddings are kept under their own key, older facts may still have them inline
+                    embedding: input.embedding ? undefined : existing.embedding
+                }
+                : {
+                    id,
+                    text: input.text.trim(),
+                    entities: [...new Set(entities)],
+                    confidence: input.confidence,
+                    sources: [source],
+                    firstSeenAt: now,
+                    lastSeenAt: now,
+                    confirmations: 0,
+                    supersedes: [],
+                    priority: { importance: input.confidence, lastAccessed: now, accessCount: 0 },
+                    relationships: input.relationships
+                };
+
+            for (const supersededId of input.supersedes || []) {
+                const superseded = state.facts[supersededId];
+                if (!superseded || supersededId === id) continue;
+
+                superseded.supersededBy = id;
+                if (!fact.supersedes.includes(supersededId)) {
+                    fact.supersedes = [...fact.supersedes, supersededId];
+                }
+                elizaLogger.debug(`[AlfaFrensFactStore] "${superseded.text}" superseded by "${fact.text}"`);
+            }
+
+            state.facts[id] = fact;
+            return fact;
+        });
+
+        // a confirmed fact's priority includes its retrievals
+        if (usage[stored.id]) {
+            await this.forget([stored.id], [this.usageKey]);
+        }
+        if (input.embedding) {
+            await this.updateValues<number[], void>(this.embeddingsKey, embeddings => {
+                embeddings[stored.id] = input.embedding as number[];
+            });
+        }
+        return (await this.loadDetails())(stored);
+    }
+
+    /**
+     * get a fact by ID
+     */
+    async get(id: string): Promise<StoredFact | undefined> {
+        const state = await this.load();
+        return state.facts[id] && (await this.loadDetails())(state.facts[id]);
+    }
+
+    /**
+     * facts about an entity
+     * @param entity entity name, case-insensitive
+     */
+    async findByEntity(entity: string, options: FactQueryOptions = {}): Promise<StoredFact[]> {
+        const name = entity.toLowerCase();
+        return this.query(fact => fact.entities.includes(name), options);
+    }
+
+    /**
+     * facts stated by a user or extracted from a message
+     * @param sourceId sender or message ID
+     */
+    async findBySource(sourceId: string, options: FactQueryOptions = {}): Promise<StoredFact[]> {
+        return this.query(
+            fact => fact.sources.some(source => source.senderId === sourceId || source.messageId === sourceId),
+            options
+        );
+    }
+
+    /**
+     * the most recently seen facts
+     */
+    async getRecent(options: FactQueryOptions = {}): Promise<StoredFact[]> {
+        return this.query(() => true, options);
+    }
+
+    /**
+     * record that facts were retrieved into a prompt, raising their priority
+     * @param ids IDs of the retrieved facts
+     */
+    async markRetrieved(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+
+        const state = await this.load();
+        await this.updateValues<MemoryPriority, void>(this.usageKey, usage => {
+            const now = Date.now();
+            for (const id of ids) {
+                const fact = state.facts[id];
+                if (fact) {
+                    usage[id] = this.boost(this.withUsage(fact, usage), this.priority.retrievalBoost, now, true);
+                }
+            }
+        });
+    }
+
+    /**
+     * move facts whose priority decayed below the archive threshold out of the store
+     * @returns the archived facts
+     */
+    async archiveLowPriority(): Promise<StoredFact[]> {
+        const usage = await this.loadValues<MemoryPriority>(this.usageKey);
+
+        const archived = await this.update(state => {
+            const now = Date.now();
+            const archived = Object.values(state.facts)
+                .map(fact => this.withUsage(fact, usage))
+                .filter(fact => getFactPriority(fact, this.priority.halfLifeMs, now) < this.priority.archiveBelow);
+
+            for (const fact of archived) {
+                delete state.facts[fact.id];
+            }
+            // the archive only keeps the most recently archived facts
+            state.archived = [...(state.archived || []), ...archived].slice(-this.maxArchived);
+
+            if (archived.length > 0) {
+                elizaLogger.info(`[AlfaFrensFactStore] Archived ${archived.length} low-priority facts`);
+            }
+            return archived;
+        });
+
+        await this.forget(archived.map(fact => fact.id));
+        return archived;
+    }
+
+    /**
+     * list archived facts, most recently archived last
+     */
+    async listArchived(): Promise<StoredFact[]> {
+        const state = await this.load();
+        return state.archived || [];
+    }
+
+    /**
+     * remove a fact, facts it superseded become current again
+     * @returns false if the fact wasn't stored
+     */
+    async remove(id: string): Promise<boolean> {
+        const removed = await this.update(state => {
+            if (!state.facts[id]) return false;
+
+            delete state.facts[id];
+            for (const fact of Object.values(state.facts)) {
+                if (fact.supersededBy === id) {
+                    delete fact.supersededBy;
+                }
+                fact.supersedes = fact.supersedes.filter(supersededId => supersededId !== id);
+            }
+            return true;
+        });
+
+        if (removed) {
+            await this.forget([id]);
+        }
+        return removed;
+    }
+
+    private boost(fact: StoredFact, amount: number, now: number, accessed: boolean): MemoryPriority {
+        return {
+            importance: Math.min(1, getFactPriority(fact, this.priority.halfLifeMs, now) + amount),
+            lastAccessed: now,
+            accessCount: (fact.priority?.accessCount ?? 0) + (accessed ? 1 : 0)
+        };
+    }
+
+    private async query(predicate: (fact: StoredFact) => boolean, options: FactQueryOptions): Promise<StoredFact[]> {
+        const state = await this.load();
+        const facts = Object.values(state.facts)
+            .filter(fact => options.includeSuperseded || !fact.supersededBy)
+            .filter(fact => options.since === undefined || fact.lastSeenAt >= options.since)
+            .filter(predicate)
+            .sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+
+        const withDetails = await this.loadDetails();
+        return (options.limit === undefined ? facts : facts.slice(0, options.limit)).map(withDetails);
+    }
+
+    /**
+     * a function adding their embedding and latest priority to facts
+     */
+    private async loadDetails(): Promise<(fact: StoredFact) => StoredFact> {
+        const [embeddings, usage] = await Promise.all([
+            this.loadValues<number[]>(this.embeddingsKey),
+            this.loadValues<MemoryPriority>(this.usageKey)
+        ]);
+        return fact => ({ ...this.withUsage(fact, usage), embedding: embeddings[fact.id] ?? fact.embedding });
+    }
+
+    /**
+     * a fact with the priority it was last retrieved with, if that is newer than its stored one
+     */
+    private withUsage(fact: StoredFact, usage: FactValues<MemoryPriority>): StoredFact {
+        const retrieved = usage[fact.id];
+        return retrieved && retrieved.lastAccessed >= (fact.priority?.lastAccessed ?? 0) ? { ...fact, priority: retrieved } : fact;
+    }
+
+    /**
+     * drop the embeddings and priorities of facts, by default both
+     */
+    private async forget(ids: string[], keys: string[] = [this.embeddingsKey, this.usageKey]): Promise<void> {
+        if (ids.length === 0) return;
+
+        for (const key of keys) {
+            await this.updateValues<unknown, void>(key, values => {
+                for (const id of ids) {
+                    delete values[id];
+                }
+            });
+        }
+    }
+
+    private loadValues<T>(key: string): Promise<FactValues<T>> {
+        return loadSharedCacheState<FactValues<T>>(this.runtime, key, values => !!values && typeof values === "object", () => ({}));
+    }
+
+    private updateValues<T, R>(key: string, change: (values: FactValues<T>) => R): Promise<R> {
+        return updateSharedCacheState(this.runtime, key, () => this.loadValues<T>(key), change);
+    }
+
+    private load(): Promise<FactStoreState> {
+        return loadSharedCacheState<FactStoreState>(this.runtime, this.cacheKey, state => !!state?.facts, () => ({ facts: {} }));
+    }
+
+    /**
+     * read-modify-write the stored facts, one update at a time across all stores of the key
+     */
+    private update<T>(change: (state: FactStoreState) => T): Promise<T> {
+        return updateSharedCacheState(this.runtime, this.cacheKey, () => this.load(), change);
+    }
+}
@@ -1,11 +1,29 @@
-import { IAgentRuntime, Memory, elizaLogger, stringToUuid, generateText, ModelClass, Evaluator } from "@elizaos/core";
+import { IAgentRuntime, Memory, elizaLogger, Evaluator } from "@elizaos/core";
 import { AlfaFrensMessage } from "../types";
+import { AlfaFrensEntityGraph } from "./entity-graph";
+import { AlfaFrensFactReviewQueue, type FactReviewItem } from "./fact-review";
+import { AlfaFrensFactStore, getFactId, getFactPriority, getFractionSetting, type StoredFact } from "./fact-store";
+import { createSimilarityBackend, type RankedCandidate, type SimilarityBackend } from "./similarity";
+import {
+    arraySchema,
+    booleanSchema,
+    generateStructuredOutput,
+    LLMCallBudget,
+    numberSchema,
+    objectSchema,
+    stringSchema
+} from "./structured-output";
 
 export interface FactValidation {
     confidence: number;
     source: string;
+    /** ID of the message the fact was extracted from */
+    messageId?: string;
     timestamp: number;
+    /** stored facts the fact contradicts */
     contradictions: string[];
+    /** IDs of the stored facts the fact contradicts */
+    contradictedFactIds?: string[];
     relationships?: Array<{
         sourceEntityId: string;
         targetEntityId: string;
@@ -19,16 +37,115 @@ export interface FactValidation {
 export interface Contradiction {
     fact: string;
     existingFact: string;
+    existingFactId: string;
     confidence: number;
     timestamp: number;
 }
 
+/**
+ * similarity and confidence thresholds of fact validation
+ */
+export interface FactValidationThresholds {
+    /** minimum similarity of a stored fact to be compared with a new one */
+    relevance: number;
+    /** minimum similarity of two facts to be checked for a contradiction */
+    contradiction: number;
+    /** minimum confidence of a fact to be stored */
+    confidence: number;
+}
+
+export const DEFAULT_FACT_VALIDATION_THRESHOLDS: FactValidationThresholds = {
+    relevance: 0.5,
+    contradiction: 0.8,
+    confidence: 0.7
+};
+
+/**
+ * load the fact validation thresholds from runtime settings
+ * @param runtime agent runtime
+ * @returns thresholds with defaults for missing or invalid settings
+ */
+export function loadFactValidationThresholds(runtime: IAgentRuntime): FactValidationThresholds {
+    return {
+        relevance: getFractionSetting(runtime, "ALFAFRENS_FACT_RELEVANCE_THRESHOLD", DEFAULT_FACT_VALIDATION_THRESHOLDS.relevance),
+        contradiction: getFractionSetting(runtime, "ALFAFRENS_FACT_CONTRADICTION_THRESHOLD", DEFAULT_FACT_VALIDATION_THRESHOLDS.contradiction),
+        confidence: getFractionSetting(runtime, "ALFAFRENS_FACT_CONFIDENCE_THRESHOLD", DEFAULT_FACT_VALIDATION_THRESHOLDS.confidence)
+    };
+}
+
+/**
+ * how the facts of a generated response are validated
+ * - per-fact: each fact with its own model calls for relationships and contradictions
+ * - batch: all facts with one model call before the response is sent
+ * - async: like batch, but after the response was sent, correcting it with a follow-up
+ */
+export type FactValidationMode = "per-fact" | "batch" | "async";
+
+/**
+ * the response validation mode from ALFAFRENS_FACT_VALIDATION_MODE (default batch)
+ */
+export function loadFactValidationMode(runtime: IAgentRuntime): FactValidationMode {
+    const mode = runtime.getSetting("ALFAFRENS_FACT_VALIDATION_MODE")?.toLowerCase();
+    return mode === "per-fact" || mode === "async" ? mode : "batch";
+}
+
+/**
+ * a fact together with its validation
+ */
+export interface ValidatedFact {
+    fact: string;
+    validation: FactValidation;
+}
+
+/**
+ * priority of a stored fact
+ */
 export interface MemoryPriority {
     importance: number;
     lastAccessed: number;
     accessCount: number;
 }
 
+/**
+ * confidence of a stated fact the model gave no confidence for
+ */
+const DEFAULT_STATED_FACT_CONFIDENCE = 0.8;
+
+const FACTS_SCHEMA = arraySchema(stringSchema, { skipInvalid: true });
+
+const CONTRADICTION_SCHEMA = objectSchema<{ contradicts: boolean; confidence: number; explanation?: string }>(
+    { contradicts: booleanSchema, confidence: numberSchema(0, 1), explanation: stringSchema },
+    ["explanation"]
+);
+
+type RelationshipOutput = { sourceEntityId: string; targetEntityId: string; tags?: string[] };
+
+const RELATIONSHIP_SCHEMA = objectSchema<RelationshipOutput>(
+    { sourceEntityId: stringSchema, targetEntityId: stringSchema, tags: arraySchema(stringSchema, { skipInvalid: true }) },
+    ["tags"]
+);
+
+const RELATIONSHIPS_SCHEMA = arraySchema(RELATIONSHIP_SCHEMA, { skipInvalid: true });
+
+const FACT_ANALYSIS_SCHEMA = objectSchema<{ confidence?: number; relationships?: RelationshipOutput[] }>(
+    { confidence: numberSchema(0, 1), relationships: RELATIONSHIPS_SCHEMA },
+    ["confidence", "relationships"]
+);
+
+const BATCH_VALIDATION_SCHEMA = arraySchema(
+    objectSchema<{ statement: number; confidence?: number; contradicts?: number[]; certainty?: number; relationships?: RelationshipOutput[] }>(
+        {
+            statement: numberSchema(),
+            confidence: numberSchema(0, 1),
+            contradicts: arraySchema(numberSchema(), { skipInvalid: true }),
+            certainty: numberSchema(0, 1),
+            relationships: RELATIONSHIPS_SCHEMA
+        },
+        ["confidence", "contradicts", "certainty", "relationships"]
+    ),
+    { skipInvalid: true }
+);
+
 export const factEvaluator: Evaluator = {
     name: "FACT_VALIDATION",
     similes: ["VALIDATE_FACTS", "CHECK_FACTS", "VERIFY_FACTS"],
@@ -68,20 +185,15 @@ export const factEvaluator: Evaluator = {
                 senderUsername: message.userId,
                 content: message.content.text
             });
-            if (validation.confidence >= 0.7) {
-                await manager.storeFact(fact, validation);
-                results.push({
-                    fact,
-                    validation,
-                    stored: true
-                });
-            } else {
-                results.push({
-                    fact,
-                    validation,
-                    stored: false
-                });
-            }
+            const { stored, review } = await manager.storeOrReview(fact, validation, {
+                sourceMessage: { id: message.id, senderId: message.userId, content: message.content.text }
+            });
+            results.push({
+                fact,
+                validation,
+                stored: stored !== null,
+                queuedForReview: review !== undefined
+            });
         }
 
         return { results };
@@ -90,13 +202,31 @@ export const factEvaluator: Evaluator = {
 
 export class FactValidationManager {
     private runtime: IAgentRuntime;
-    private confidenceThreshold: number = 0.7;
-
-    constructor(runtime: IAgentRuntime) {
+    /** similarity backend, also used to ground replies so its embedding cache is reused */
+    readonly similarity: SimilarityBackend;
+    readonly store: AlfaFrensFactStore;
+    readonly review: AlfaFrensFactReviewQueue;
+    readonly graph: AlfaFrensEntityGraph;
+    readonly thresholds: FactValidationThresholds;
+
+    constructor(
+        runtime: IAgentRuntime,
+        similarity: SimilarityBackend = createSimilarityBackend(runtime),
+        store: AlfaFrensFactStore = new AlfaFrensFactStore(runtime)
+    ) {
         this.runtime = runtime;
+        this.similarity = similarity;
+        this.store = store;
+        this.review = new AlfaFrensFactReviewQueue(runtime, this);
+        this.graph = new AlfaFrensEntityGraph(runtime);
+        this.thresholds = loadFactValidationThresholds(runtime);
     }
 
-    async extractFacts(content: string): Promise<string[]> {
+    /**
+     * extract the factual statements of a text
+     * @param budget model calls the extraction may use
+     */
+    async extractFacts(content: string, budget?: LLMCallBudget): Promise<string[]> {
         const prompt = `Extract factual statements from this text. Return ONLY a JSON array of strings.
         Only include clear, factual statements, not opinions or subjective content.
         The JSON array must be properly formatted with square brackets and quoted strings.
@@ -107,43 +237,22 @@ export class FactValidationManager {
         ["Fact 1", "Fact 2", "Fact 3"]
         `;
 
-        try {
-            const result = await generateText({
-                runtime: this.runtime,
-                context: prompt,
-                modelClass: ModelClass.SMALL,
-            });
-
-            elizaLogger.debug("[FactValidation] Raw fact extraction result:", result);
-
-            // Find JSON array in the response using regex
-            const jsonMatch = result.match(/\[.*\]/s);
-            if (!jsonMatch) {
-                elizaLogger.error("[FactValidation] No JSON array found in result:", result);
-                return this.extractFactsFallback(content);
-            }
-
-            try {
-                const jsonStr = jsonMatch[0];
-                const facts = JSON.parse(jsonStr);
-
-                if (!Array.isArray(facts)) {
-                    elizaLogger.error("[FactValidation] Parsed result is not an array:", facts);
-                    return this.extractFactsFallback(content);
-                }
+        const result = await generateStructuredOutput({
+            runtime: this.runtime,
+            context: prompt,
+            schema: FACTS_SCHEMA,
+            budget,
+            traceId: "FactValidation.extractFacts"
+        });
 
-                // Filter out non-string items and empty strings
-                const validFacts = facts.filter(fact => typeof fact === 'string' && fact.trim().length > 0);
-                elizaLogger.debug("[FactValidation] Extracted facts:", validFacts);
-                return validFacts;
-            } catch (parseError) {
-                elizaLogger.error("[FactValidation] Failed to parse JSON:", parseError);
-                return this.extractFactsFallback(content);
-            }
-        } catch (error) {
-            elizaLogger.error("[FactValidation] Error during fact extraction:", error);
+        if (result.status === "error") {
+            elizaLogger.error(`[FactValidation] Fact extraction failed (${result.error.kind}):`, result.error.message);
             return this.extractFactsFallback(content);
         }
+
+        const facts = result.value.filter(fact => fact.trim().length > 0);
+        elizaLogger.debug("[FactValidation] Extracted facts:", facts);
+        return facts;
     }
 
     /**
@@ -179,48 +288,105 @@ export class FactValidationManager {
         return potentialFacts;
     }
 
-    async validateFact(fact: string, message: AlfaFrensMessage): Promise<FactValidation> {
-        const existingFacts = await this.getRelevantFacts(fact);
-        const contradictions = await this.detectContradictions(fact, existingFacts);
-        const confidence = this.calculateFactConfidence(fact, message, contradictions);
-        const relationships = await this.extractRelationships(fact, message);
+    /**
+     * validate a fact with its own model calls for its confidence and relationships and for contradictions
+     * @param budget model calls the validation may use, contradictions left unchecked once it is used up
+     */
+    async validateFact(fact: string, message: AlfaFrensMessage, budget?: LLMCallBudget): Promise<FactValidation> {
+        const { confidence: modelConfidence, relationships } = await this.analyzeFact(fact, budget);
+        const entities = await Promise.all(getRelationshipEntities(relationships).map(entity => this.graph.resolve(entity)));
+        const existingFacts = await this.getRelevantFacts(fact, entities);
+        const contradictions = await this.detectContradictions(fact, existingFacts, budget);
+        const confidence = this.calculateFactConfidence(message, modelConfidence);
 
         return {
             confidence,
             source: message.senderId,
+            messageId: message.id,
             timestamp: Date.now(),
-            contradictions: contradictions.map(c => c.fact),
+            contradictions: contradictions.map(c => c.existingFact),
+            contradictedFactIds: contradictions.map(c => c.existingFactId),
             relationships
         };
     }
 
-    private async getRelevantFacts(fact: string): Promise<Memory[]> {
+    /**
+     * stored facts similar to a fact, looked up among the facts about its
+     * entities and the most recently seen facts
+     */
+    private async getRelevantFacts(fact: string, entities: string[]): Promise<RankedCandidate<StoredFact>[]> {
         try {
-            const memories = await this.runtime.messageManager.getMemories({
-                roomId: this.runtime.agentId,
-                count: 100
-            });
+            const candidates = new Map<string, StoredFact>();
+            for (const entity of entities) {
+                for (const stored of await this.store.findByEntity(entity, { limit: 50 })) {
+                    candidates.set(stored.id, stored);
+                }
+            }
+            for (const stored of await this.store.getRecent({ limit: 200 })) {
+                candidates.set(stored.id, stored);
+            }
 
-            return memories.filter(memory =>
-                this.calculateSemanticSimilarity(fact, memory.content.text) > 0.5
-            );
+            return await this.similarity.rank(fact, [...candidates.values()], {
+                threshold: this.thresholds.relevance,
+                count: 20
+            });
         } catch (error) {
             elizaLogger.error("[FactValidation] Failed to get relevant facts:", error);
             return [];
         }
     }
 
-    private async detectContradictions(fact: string, existingFacts: Memory[]): Promise<Contradiction[]> {
+    /**
+     * stored facts to give the model as context for a query, ranked by
+     * similarity blended with priority; retrieving a fact raises its priority
+     * @param query text the facts should be relevant to
+     * @param limit maximum number of facts
+     */
+    async retrieveFacts(query: string, limit: number = 5): Promise<StoredFact[]> {
+        if (limit <= 0) return [];
+
+        try {
+            const candidates = await this.store.getRecent();
+            const ranked = await this.similarity.rank(query, candidates, {
+                threshold: this.thresholds.relevance,
+                count: limit * 3
+            });
+
+            const { halfLifeMs, retrievalWeight } = this.store.priority;
+            const facts = ranked
+                .map(({ item, similarity }) => ({
+                    item,
+                    score: (1 - retrievalWeight) * similarity + retrievalWeight * getFactPriority(item, halfLifeMs)
+                }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit)
+                .map(({ item }) => item);
+
+            await this.store.markRetrieved(facts.map(fact => fact.id));
+            return facts;
+        } catch (error) {
+            elizaLogger.error("[FactValidation] Failed to retrieve facts:", error);
+            return [];
+        }
+    }
+
+    private async detectContradictions(
+        fact: string,
+        existingFacts: RankedCandidate<StoredFact>[],
+        budget?: LLMCallBudget
+    ): Promise<Contradiction[]> {
         const contradictions: Contradiction[] = [];
 
-        for (const existingFact of existingFacts) {
-            const similarity = this.calculateSemanticSimilarity(fact, existingFact.content.text);
-            if (similarity > 0.8) {
-                const contradiction = await this.analyzeContradiction(fact, existingFact.content.text);
+        for (const { item: existingFact, similarity } of existingFacts) {
+            if (existingFact.id === getFactId(fact)) continue;
+
+            if (similarity >= this.thresholds.contradiction) {
+                const contradiction = await this.analyzeContradiction(fact, existingFact.text, budget);
                 if (contradiction) {
                     contradictions.push({
                         fact,
-                        existingFact: existingFact.content.text,
+                        existingFact: existingFact.text,
+                        existingFactId: existingFact.id,
                         confidence: contradiction.confidence,
                         timestamp: Date.now()
                     });
@@ -231,7 +397,7 @@ export class FactValidationManager {
         return contradictions;
     }
 
-    private async analyzeContradiction(fact1: string, fact2: string): Promise<{ confidence: number } | null> {
+    private async analyzeContradiction(fact1: string, fact2: string, budget?: LLMCallBudget): Promise<{ confidence: number } | null> {
         const prompt = `Analyze if these two facts contradict each other:
         Fact 1: ${fact1}
         Fact 2: ${fact2}
@@ -243,112 +409,259 @@ export class FactValidationManager {
             "explanation": string
         }`;
 
-        try {
-            const result = await generateText({
-                runtime: this.runtime,
-                context: prompt,
-                modelClass: ModelClass.SMALL,
-            });
+        const result = await generateStructuredOutput({
+            runtime: this.runtime,
+            context: prompt,
+            schema: CONTRADICTION_SCHEMA,
+            budget,
+            traceId: "FactValidation.analyzeContradiction"
+        });
 
-            const analysis = JSON.parse(result);
-            if (analysis.contradicts && analysis.confidence > 0.7) {
-                return { confidence: analysis.confidence };
-            }
-        } catch (error) {
-            elizaLogger.error("[FactValidation] Failed to analyze contradiction:", error);
+        if (result.status === "error") {
+            elizaLogger.error("[FactValidation] Failed to analyze contradiction:", result.error.message);
+            return null;
         }
 
+        if (result.value.contradicts && result.value.confidence > 0.7) {
+            return { confidence: result.value.confidence };
+        }
         return null;
     }
 
-    private async extractRelationships(fact: string, message: AlfaFrensMessage): Promise<FactValidation['relationships']> {
-        const prompt = `Extract relationships from this fact. Return them as a JSON array of objects.
-        Each object should have:
+    /**
+     * ask the model how plausible a fact is and which relationships it states
+     */
+    private async analyzeFact(
+        fact: string,
+        budget?: LLMCallBudget
+    ): Promise<{ confidence?: number; relationships: FactValidation['relationships'] }> {
+        const prompt = `Analyze this fact. Return a JSON object with:
         {
-            "sourceEntityId": string (the subject),
-            "targetEntityId": string (the object),
-            "tags": string[] (relationship types)
+            "confidence": number (0-1, how confident you are that it is a plausible, factual claim rather than an opinion, joke or guess),
+            "relationships": array of the relationships it states, each an object {
+                "sourceEntityId": string (the subject),
+                "targetEntityId": string (the object),
+                "tags": string[] (relationship types)
+            }
         }
         
         Fact: "${fact}"
         `;
 
-        try {
-            const result = await generateText({
-                runtime: this.runtime,
-                context: prompt,
-                modelClass: ModelClass.SMALL,
-            });
+        const result = await generateStructuredOutput({
+            runtime: this.runtime,
+            context: prompt,
+            schema: FACT_ANALYSIS_SCHEMA,
+            budget,
+            traceId: "FactValidation.analyzeFact"
+        });
 
-            return JSON.parse(result);
-        } catch (error) {
-            elizaLogger.error("[FactValidation] Failed to extract relationships:", error);
-            return [];
+        if (result.status === "error") {
+            elizaLogger.error("[FactValidation] Failed to analyze fact:", result.error.message);
+            return { relationships: [] };
         }
+        return {
+            confidence: result.value.confidence,
+            relationships: (result.value.relationships ?? []).map(relationship => ({ ...relationship, tags: relationship.tags ?? [] }))
+        };
     }
 
-    private calculateFactConfidence(
-        fact: string,
-        message: AlfaFrensMessage,
-        contradictions: Contradiction[]
-    ): number {
-        let confidence = 0.5; // Base confidence
+    /**
+     * validate several facts with one model call, checking them against the
+     * stored facts relevant to any of them and extracting their relationships
+     * @param facts facts to validate
+     * @param message message the facts were extracted from
+     * @param budget model calls the validation may use
+     * @returns the facts the model gave an answer for, none if the call failed
+     */
+    async validateFacts(facts: string[], message: AlfaFrensMessage, budget?: LLMCallBudget): Promise<ValidatedFact[]> {
+        if (facts.length === 0) return [];
 
-        // Adjust based on message source
-        if (message.senderId === this.runtime.agentId) {
-            confidence += 0.2; // Higher confidence for bot's own facts
+        const relevant = new Map<string, RankedCandidate<StoredFact>>();
+        for (const fact of facts) {
+            for (const candidate of await this.getRelevantFacts(fact, [])) {
+                const known = relevant.get(candidate.item.id);
+                if (!known || known.similarity < candidate.similarity) {
+                    relevant.set(candidate.item.id, candidate);
+                }
+            }
         }
+        const knownFacts = [...relevant.values()]
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, 20)
+            .map(({ item }) => item);
+
+        const numbered = (lines: string[]) => lines.map((line, index) => `${index + 1}. ${line}`).join("\n");
+        const prompt = `Check these new statements against the known facts.
+
+Known facts:
+${numbered(knownFacts.map(fact => fact.text)) || "None"}
+
+New statements:
+${numbered(facts)}
+
+For each new statement return an object with:
+- "statement": the number of the statement
+- "confidence": how confident you are that it is a plausible, factual claim rather than an opinion, joke or guess (0-1)
+- "contradicts": numbers of the known facts it contradicts, empty if none
+- "certainty": how certain you are about the contradictions (0-1)
+- "relationships": relationships it states, as objects {"sourceEntityId": subject, "targetEntityId": object, "tags": relationship types}
+
+Return ONLY a JSON array with one object per statement.`;
+
+        const result = await generateStructuredOutput({
+            runtime: this.runtime,
+            context: prompt,
+            schema: BATCH_VALIDATION_SCHEMA,
+            budget,
+            traceId: "FactValidation.validateFacts"
+        });
 
-        // Adjust based on contradictions
-        if (contradictions.length > 0) {
-            const avgContradictionConfidence = contradictions.reduce(
-                (acc, c) => acc + c.confidence,
-                0
-            ) / contradictions.length;
-            confidence -= avgContradictionConfidence * 0.3;
+        if (result.status === "error") {
+            elizaLogger.error("[FactValidation] Failed to validate facts:", result.error.message);
+            return [];
         }
 
-        // Ensure confidence is between 0 and 1
-        return Math.max(0, Math.min(1, confidence));
+        const validated: ValidatedFact[] = [];
+        for (const answer of result.value) {
+            const fact = facts[answer.statement - 1];
+            if (!fact || validated.some(other => other.fact === fact)) continue;
+
+            const certainty = answer.certainty ?? 1;
+            const contradictions: Contradiction[] = certainty > 0.7
+                ? (answer.contradicts ?? [])
+                    .map(number => knownFacts[number - 1])
+                    .filter(known => known && known.id !== getFactId(fact))
+                    .map(known => ({
+                        fact,
+                        existingFact: known.text,
+                        existingFactId: known.id,
+                        confidence: certainty,
+                        timestamp: Date.now()
+                    }))
+                : [];
+
+            validated.push({
+                fact,
+                validation: {
+                    confidence: this.calculateFactConfidence(message, answer.confidence),
+                    source: message.senderId,
+                    messageId: message.id,
+                    timestamp: Date.now(),
+                    contradictions: contradictions.map(c => c.existingFact),
+                    contradictedFactIds: contradictions.map(c => c.existingFactId),
+                    relationships: (answer.relationships ?? []).map(relationship => ({ ...relationship, tags: relationship.tags ?? [] }))
+                }
+            });
+        }
+
+        return validated.sort((a, b) => facts.indexOf(a.fact) - facts.indexOf(b.fact));
     }
 
-    private calculateSemanticSimilarity(text1: string, text2: string): number {
-        const words1 = new Set(text1.toLowerCase().split(/\s+/));
-        const words2 = new Set(text2.toLowerCase().split(/\s+/));
+    /**
+     * confidence of a fact: the model's confidence that it is a true, factual
+     * claim, or the default for stated facts when the model gave none
+     */
+    private calculateFactConfidence(message: AlfaFrensMessage, modelConfidence?: number): number {
+        let confidence = modelConfidence ?? DEFAULT_STATED_FACT_CONFIDENCE;
 
-        const intersection = new Set([...words1].filter(x => words2.has(x)));
-        const union = new Set([...words1, ...words2]);
+        // Adjust based on message source
+        if (message.senderId === this.runtime.agentId) {
+            confidence += 0.1; // Higher confidence for bot's own facts
+        }
 
-        return intersection.size / union.size;
+        // Ensure confidence is between 0 and 1
+        return Math.max(0, Math.min(1, confidence));
     }
 
-    async storeFact(fact: string, validation: FactValidation): Promise<void> {
-        if (validation.confidence < this.confidenceThreshold) {
+    /**
+     * store a fact, confirming it if it is known and superseding the facts it contradicts
+     * @returns the stored fact, or null if its confidence is too low or storing failed
+     */
+    async storeFact(fact: string, validation: FactValidation): Promise<StoredFact | null> {
+        if (validation.confidence < this.thresholds.confidence) {
             elizaLogger.debug("[FactValidation] Skipping low confidence fact:", fact);
-            return;
+            return null;
         }
 
         try {
-            const memory: Memory = {
-                id: stringToUuid(`fact-${Date.now()}`),
-                content: {
-                    text: fact,
-                    metadata: {
-                        confidence: validation.confidence,
-                        source: validation.source,
-                        timestamp: validation.timestamp,
-                        contradictions: validation.contradictions,
-                        relationships: validation.relationships
-                    }
-                },
-                roomId: this.runtime.agentId,
-                userId: this.runtime.agentId,
-                agentId: this.runtime.agentId
-            };
-
-            await this.runtime.messageManager.createMemory(memory);
+            const relationships = Array.isArray(validation.relationships) ? validation.relationships : [];
+            const entities = await this.graph.addRelationships(relationships, getFactId(fact));
+
+            return await this.store.upsert({
+                text: fact,
+                confidence: validation.confidence,
+                senderId: validation.source,
+                messageId: validation.messageId,
+                entities,
+                relationships: relationships.length > 0 ? relationships : undefined,
+                supersedes: validation.contradictedFactIds,
+                embedding: await this.similarity.embed(fact)
+            });
         } catch (error) {
             elizaLogger.error("[FactValidation] Failed to store fact:", error);
+            return null;
         }
     }
-} 
\ No newline at end of file
+
+    /**
+     * store a validated fact, or hold it back for a moderator if its confidence
+     * is too low, it contradicts confirmed or more confident stored facts, or it
+     * needs confirmation
+     * @returns the stored fact or the review item
+     */
+    async storeOrReview(
+        fact: string,
+        validation: FactValidation,
+        options: {
+            requiresConfirmation?: boolean;
+            sourceMessage?: FactReviewItem["sourceMessage"];
+        } = {}
+    ): Promise<{ stored: StoredFact | null; review?: FactReviewItem }> {
+        const reason = options.requiresConfirmation ? "requires_confirmation" :
+            validation.contradictions.length > 0 && !(await this.outranksContradicted(validation)) ? "contradiction" :
+            validation.confidence < this.thresholds.confidence ? "low_confidence" :
+            null;
+
+        if (reason) {
+            try {
+                const review = await this.review.submit(fact, validation, reason, options.sourceMessage);
+                return { stored: null, review };
+            } catch (error) {
+                elizaLogger.error("[FactValidation] Failed to queue fact for review:", error);
+                return { stored: null };
+            }
+        }
+
+        return { stored: await this.storeFact(fact, validation) };
+    }
+
+    /**
+     * whether a fact may supersede the facts it contradicts without a review:
+     * each of them is known, less confident than the fact and was never confirmed
+     */
+    private async outranksContradicted(validation: FactValidation): Promise<boolean> {
+        const ids = validation.contradictedFactIds ?? [];
+        if (ids.length < validation.contradictions.length) return false;
+
+        for (const id of ids) {
+            const existing = await this.store.get(id);
+            if (existing && (existing.confirmations > 0 || existing.confidence >= validation.confidence)) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
+
+/**
+ * names of the entities in extracted relationships
+ */
+function getRelationshipEntities(relationships: FactValidation['relationships']): string[] {
+    if (!Array.isArray(relationships)) return [];
+
+    return [...new Set(relationships
+        .flatMap(relationship => [relationship?.sourceEntityId, relationship?.targetEntityId])
+        .filter((entity): entity is string => typeof entity === "string" && entity.trim().length > 0)
+        .map(entity => entity.trim().toLowerCase()))];
+}
@@ -0,0 +1,275 @@
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
+import { readFile, stat } from "fs/promises";
+import { existsSync } from "fs";
+import { resolve } from "path";
+import { tokenize } from "./similarity";
+
+/**
+ * answer of the FAQ with the headings it is nested under
+ */
+export interface FaqChunk {
+    /** stable ID, the section path and variant, e.g. `What is AlfaFrens (technical)` */
+    id: string;
+    /** headings from the top-level topic down to the question */
+    path: string[];
+    /** the innermost heading, usually the question */
+    question: string;
+    answer: string;
+    /** variant of the answer, e.g. `technical` for `RESPONSE (technical):` */
+    variant?: string;
+}
+
+/**
+ * FAQ chunk matching a query
+ */
+export interface FaqMatch {
+    chunk: FaqChunk;
+    score: number;
+    /** section path to cite, e.g. `AF token > What are the tokenomics > Tradability` */
+    citation: string;
+}
+
+export interface AlfaFrensFaqKnowledgeOptions {
+    /** FAQ file, defaults to ALFAFRENS_FAQ_PATH or the FAQ shipped with the plugin */
+    path?: string;
+    /** BM25 term frequency saturation */
+    k1?: number;
+    /** BM25 length normalisation */
+    b?: number;
+}
+
+/**
+ * where the FAQ shipped with the plugin is looked for, relative to the working directory
+ */
+export const DEFAULT_FAQ_PATHS = [
+    "docs/alfafrens-faq.md",
+    "node_modules/@elizaos/client-alfafrens/docs/alfafrens-faq.md",
+    "packages/client-alfafrens/docs/alfafrens-faq.md"
+];
+
+const RESPONSE_PATTERN = /^RESPONSE\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/i;
+const ITEM_PATTERN = /^(\s*)\d+\.\s+(.*)$/;
+
+/**
+ * parse the nested FAQ outline into answers
+ *
+ * Topics and questions are numbered list items, answers are items starting
+ * with `RESPONSE:` (or `RESPONSE (variant):`). Lines and items indented under
+ * an answer belong to it. Headings outside the outline reset the path, and
+ * questions without an answer are skipped.
+ */
+export function parseFaqMarkdown(markdown: string): FaqChunk[] {
+    const chunks: FaqChunk[] = [];
+    const headings: { indent: number; title: string }[] = [];
+    let answer: { indent: number; variant?: string; lines: string[] } | null = null;
+
+    const finishAnswer = () => {
+        if (!answer) return;
+
+        const text = answer.lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+        const path = headings.map(heading => heading.title);
+        if (text && path.length > 0) {
+            const section = path.join(" > ");
+            chunks.push({
+                id: answer.variant ? `${section} (${answer.variant})` : section,
+                path,
+                question: path[path.length - 1],
+                answer: text,
+                variant: answer.variant
+            });
+        }
+        answer = null;
+    };
+
+    for (const rawLine of markdown.split(/\r?\n/)) {
+        const line = rawLine.replace(/\t/g, "    ");
+        const indent = line.length - line.trimStart().length;
+        const item = line.match(ITEM_PATTERN);
+
+        if (/^#+\s/.test(line)) {
+            finishAnswer();
+            headings.length = 0;
+        } else if (item) {
+            if (answer && indent > answer.indent) {
+                answer.lines.push(line.trim());
+                continue;
+            }
+            finishAnswer();
+
+            while (headings.length > 0 && headings[headings.length - 1].indent >= indent) {
+                headings.pop();
+            }
+
+            const text = cleanHeading(item[2]);
+            const response = text.match(RESPONSE_PATTERN);
+            if (response) {
+                answer = { indent, variant: response[1]?.trim() || undefined, lines: [response[2]] };
+            } else {
+                headings.push({ indent, title: text });
+            }
+        } else if (answer && (indent >= answer.indent || !line.trim())) {
+            answer.lines.push(line.trim());
+        }
+    }
+    finishAnswer();
+
+    return chunks;
+}
+
+function cleanHeading(text: string): string {
+    return text.replace(/\*\*/g, "").trim();
+}
+
+/**
+ * the FAQ file configured in ALFAFRENS_FAQ_PATH, or the first of the default paths that exists
+ */
+export function resolveFaqPath(runtime: IAgentRuntime): string | undefined {
+    const configured = runtime.getSetting("ALFAFRENS_FAQ_PATH");
+    if (configured) return resolve(configured);
+
+    return DEFAULT_FAQ_PATHS.map(path => resolve(path)).find(path => existsSync(path));
+}
+
+/**
+ * FAQ knowledge indexed locally with BM25
+ *
+ * The FAQ is parsed into answers that keep their section path, which is
+ * indexed together with the answer so questions match their headings too.
+ * The file is read on the first search and read again whenever it changed.
+ */
+export class AlfaFrensFaqKnowledge {
+    private path: string | undefined;
+    private k1: number;
+    private b: number;
+    private loadedMtimeMs: number | null = null;
+    private loading: Promise<void> | null = null;
+    private chunks: FaqChunk[] = [];
+    private documents: Map<string, number>[] = [];
+    private lengths: number[] = [];
+    private documentFrequency: Map<string, number> = new Map();
+    private averageLength: number = 0;
+
+    constructor(runtime: IAgentRuntime, options: AlfaFrensFaqKnowledgeOptions = {}) {
+        this.path = options.path ? resolve(options.path) : resolveFaqPath(runtime);
+        this.k1 = options.k1 ?? 1.2;
+        this.b = options.b ?? 0.75;
+
+        if (!this.path) {
+            elizaLogger.warn("[AlfaFrensFaqKnowledge] No FAQ file found, set ALFAFRENS_FAQ_PATH to use one");
+        }
+    }
+
+    /**
+     * the answers of the FAQ, read again if the file changed
+     */
+    async getChunks(): Promise<FaqChunk[]> {
+        await this.refresh();
+        return this.chunks;
+    }
+
+    /**
+     * answers matching a query, best first
+     * @param query question or message
+     * @param limit maximum number of answers
+     */
+    async search(query: string, limit: number = 3): Promise<FaqMatch[]> {
+        await this.refresh();
+
+        const terms = [...new Set(tokenize(query))];
+        if (terms.length === 0 || this.chunks.length === 0 || limit <= 0) return [];
+
+        return this.chunks
+            .map((chunk, index) => ({ chunk, score: this.score(terms, index), citation: chunk.id }))
+            .filter(match => match.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    private score(terms: string[], index: number): number {
+        const document = this.documents[index];
+        const length = this.lengths[index];
+        const count = this.chunks.length;
+
+        return terms.reduce((score, term) => {
+            const frequency = document.get(term) ?? 0;
+            if (frequency === 0) return score;
+
+            const documents = this.documentFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (count - documents + 0.5) / (documents + 0.5));
+            const normalization = this.k1 * (1 - this.b + this.b * length / (this.averageLength || 1));
+            return score + idf * frequency * (this.k1 + 1) / (frequency + normalization);
+        }, 0);
+    }
+
+    /**
+     * read and index the FAQ if it wasn't yet or the file changed since
+     */
+    private async refresh(): Promise<void> {
+        if (!this.path) return;
+        if (this.loading) return this.loading;
+
+        this.loading = (async () => {
+            try {
+                const { mtimeMs } = await stat(this.path!);
+                if (mtimeMs === this.loadedMtimeMs) return;
+
+                this.index(parseFaqMarkdown(await readFile(this.path!, "utf-8")));
+                this.loadedMtimeMs = mtimeMs;
+                elizaLogger.info(`[AlfaFrensFaqKnowledge] Indexed ${this.chunks.length} FAQ answers from ${this.path}`);
+            } catch (error) {
+                if (this.loadedMtimeMs !== -1) {
+                    elizaLogger.error(`[AlfaFrensFaqKnowledge] Failed to read FAQ ${this.path}:`, error);
+                }
+                // keep answering from the last version, don't log again until the file is back
+                this.loadedMtimeMs = -1;
+            }
+        })().finally(() => {
+            this.loading = null;
+        });
+        return this.loading;
+    }
+
+    private index(chunks: FaqChunk[]): void {
+        this.chunks = chunks;
+        this.documents = [];
+        this.lengths = [];
+        this.documentFrequency = new Map();
+
+        for (const chunk of chunks) {
+            const words = tokenize(`${chunk.path.join(" ")} ${chunk.answer}`);
+            const frequencies = new Map<string, number>();
+            for (const word of words) {
+                frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+            }
+            for (const word of frequencies.keys()) {
+                this.documentFrequency.set(word, (this.documentFrequency.get(word) ?? 0) + 1);
+            }
+            this.documents.push(frequencies);
+            this.lengths.push(words.length);
+        }
+
+        this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / (this.lengths.length || 1);
+    }
+}
+
+/**
+ * FAQ matches as prompt context, each answer under its citation
+ */
+export function formatFaqMatches(matches: FaqMatch[]): string {
+    return matches.map(match => `[FAQ: ${match.citation}]\n${match.chunk.answer}`).join("\n\n");
+}
+
+const sharedKnowledge = new Map<string, AlfaFrensFaqKnowledge>();
+
+/**
+ * the FAQ knowledge of the configured FAQ file, shared by all channels
+ */
+export function getFaqKnowledge(runtime: IAgentRuntime): AlfaFrensFaqKnowledge {
+    const path = resolveFaqPath(runtime) ?? "";
+    let knowledge = sharedKnowledge.get(path);
+    if (!knowledge) {
+        knowledge = new AlfaFrensFaqKnowledge(runtime, { path: path || undefined });
+        sharedKnowledge.set(path, knowledge);
+    }
+    return knowledge;
+}
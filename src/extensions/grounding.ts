@@ -0,0 +1,137 @@
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
+import type { AlfaFrensGroundingAction, AlfaFrensGroundingDecision } from "../types";
+import { getFractionSetting } from "./fact-store";
+import { tokenize, type SimilarityBackend } from "./similarity";
+
+/**
+ * how questions about AlfaFrens without supporting knowledge are answered
+ * - off: answered freely
+ * - hedge: answered with an instruction to say the bot isn't sure
+ * - refuse: answered with the fallback message, without a model call
+ */
+export type GroundingMode = "off" | "hedge" | "refuse";
+
+export interface GroundingConfig {
+    mode: GroundingMode;
+    /** minimum similarity of a supporting chunk to the question */
+    threshold: number;
+    /** reply sent instead of an unsupported answer */
+    fallback: string;
+    /** words marking a message as a question about AlfaFrens */
+    topics: string[];
+}
+
+/**
+ * retrieved knowledge that may support an answer
+ */
+export interface GroundingChunk {
+    /** ID recorded with the reply, e.g. `faq:AF token > What are the tokenomics > Tradability` */
+    id: string;
+    text: string;
+    /** heading or question the text answers, compared to the question too */
+    title?: string;
+}
+
+export const DEFAULT_GROUNDING_TOPICS = [
+    "alfafrens", "af", "spark", "sparks", "stake", "staked", "staking", "staker", "stakers", "unstake", "unstaking",
+    "cashback", "sup", "spr", "superfluid", "stream", "streaming", "subscribe", "subscription", "subscriptions",
+    "subscriber", "subscribers", "channel", "channels", "reward", "rewards", "season", "seasons", "airdrop",
+    "airdrops", "token", "tokens", "tokenomics", "fee", "fees", "price", "treasury"
+];
+
+export const DEFAULT_GROUNDING_FALLBACK = "I don't know that for sure, please check https://alfafrens.com/info or ask the team at https://warpcast.com/alfafrens";
+
+const QUESTION_PATTERN = /\?|^\s*(who|what|when|where|why|how|which|can|could|do|does|did|is|are|was|were|will|should|would)\b/i;
+
+/**
+ * load the grounding settings, grounding is off unless ALFAFRENS_GROUNDING_MODE is set
+ * @param runtime agent runtime
+ */
+export function loadGroundingConfig(runtime: IAgentRuntime): GroundingConfig {
+    const mode = runtime.getSetting("ALFAFRENS_GROUNDING_MODE")?.toLowerCase();
+    const topics = runtime.getSetting("ALFAFRENS_GROUNDING_TOPICS")
+        ?.split(",")
+        .map(topic => topic.trim().toLowerCase())
+        .filter(Boolean);
+
+    return {
+        mode: mode === "hedge" || mode === "refuse" ? mode : "off",
+        threshold: getFractionSetting(runtime, "ALFAFRENS_GROUNDING_THRESHOLD", 0.3),
+        fallback: runtime.getSetting("ALFAFRENS_GROUNDING_FALLBACK") || DEFAULT_GROUNDING_FALLBACK,
+        topics: topics?.length ? topics : DEFAULT_GROUNDING_TOPICS
+    };
+}
+
+/**
+ * whether a message is a question, by its question mark or first word
+ */
+export function isQuestion(message: string): boolean {
+    return QUESTION_PATTERN.test(message);
+}
+
+/**
+ * whether a message asks about AlfaFrens: it is a question and mentions one of the topics
+ * @param message message text
+ * @param topics topic words, matched against the words of the message
+ */
+export function isProductQuestion(message: string, topics: string[] = DEFAULT_GROUNDING_TOPICS): boolean {
+    if (!isQuestion(message)) return false;
+
+    const words = new Set(tokenize(message));
+    return topics.some(topic => tokenize(topic).every(word => words.has(word)));
+}
+
+/**
+ * decide how to answer a message from the knowledge retrieved for it
+ *
+ * Messages that aren't questions about AlfaFrens are always answered. Product
+ * questions need a chunk whose text or title is at least as similar to the
+ * question as the threshold, otherwise the mode decides.
+ * @param message message text
+ * @param chunks knowledge retrieved for the message
+ * @param config grounding settings
+ * @param similarity backend comparing the question to the chunks
+ */
+export async function decideGrounding(
+    message: string,
+    chunks: GroundingChunk[],
+    config: GroundingConfig,
+    similarity: SimilarityBackend
+): Promise<AlfaFrensGroundingDecision> {
+    const productQuestion = isProductQuestion(message, config.topics);
+    if (!productQuestion) {
+        return { action: "answer", productQuestion, supportingChunkIds: [], similarity: 0 };
+    }
+
+    const candidates = chunks.flatMap(chunk => [
+        { text: chunk.text, chunk },
+        ...(chunk.title ? [{ text: chunk.title, chunk }] : [])
+    ]);
+    const ranked = await similarity.rank(message, candidates, { threshold: 0, count: candidates.length });
+    const supporting = ranked.filter(({ similarity }) => similarity >= config.threshold);
+
+    const action: AlfaFrensGroundingAction = supporting.length > 0 || config.mode === "off" ?
+        "answer" :
+        config.mode;
+
+    const decision: AlfaFrensGroundingDecision = {
+        action,
+        productQuestion,
+        supportingChunkIds: [...new Set(supporting.map(({ item }) => item.chunk.id))],
+        similarity: ranked[0]?.similarity ?? 0
+    };
+
+    elizaLogger.info(
+        `[Grounding] Product question with ${decision.supportingChunkIds.length} supporting chunk(s) ` +
+        `(best similarity ${decision.similarity.toFixed(2)}), action: ${decision.action}`
+    );
+    return decision;
+}
+
+/**
+ * prompt instruction for answering a question the knowledge doesn't cover
+ * @param fallback the fallback message, suggested as the answer
+ */
+export function getHedgeInstruction(fallback: string): string {
+    return `GROUNDING:\nThe knowledge doesn't cover this question. Don't state numbers, dates or other details you can't back up. Say you aren't sure and point the user to where they can check, for example: "${fallback}"`;
+}
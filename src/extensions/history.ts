@@ -0,0 +1,113 @@
+import type { AlfaFrensMessage } from "../types";
+
+/**
+ * options for formatting conversation history
+ */
+export interface HistoryFormatOptions {
+    /** user ID the bot posts as */
+    botUserId?: string;
+    /** username the bot posts as, with or without a leading @ */
+    botUsername?: string;
+    /** IDs of messages the bot has sent */
+    sentMessageIds?: ReadonlySet<string>;
+    /** approximate number of tokens the formatted history may use */
+    tokenBudget?: number;
+}
+
+/**
+ * default token budget for formatted history
+ */
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 1000;
+
+/**
+ * rough token estimate, about four characters per token
+ * @param text the text to estimate
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * check whether a message was sent by the bot
+ * @param message the message to check
+ * @param options bot identity
+ */
+export function isBotMessage(message: AlfaFrensMessage, options: HistoryFormatOptions): boolean {
+    if (options.sentMessageIds?.has(message.id)) {
+        return true;
+    }
+
+    if (options.botUserId && message.senderId === options.botUserId) {
+        return true;
+    }
+
+    const username = normalizeUsername(message.senderUsername);
+    return !!username && username === normalizeUsername(options.botUsername);
+}
+
+/**
+ * format conversation history for a prompt
+ *
+ * Messages are labelled ASSISTANT or USER (name), prefixed with their timestamp
+ * and marked when they reply to another message. The newest messages are kept
+ * and older ones dropped once the token budget is used up.
+ * @param messages messages to format, oldest first
+ * @param options bot identity and token budget
+ * @returns formatted conversation history
+ */
+export function formatConversationHistory(messages: AlfaFrensMessage[], options: HistoryFormatOptions = {}): string {
+    if (messages.length === 0) {
+        return "No previous messages.";
+    }
+
+    const byId = new Map(messages.map(m => [m.id, m]));
+    const roleOf = (message: AlfaFrensMessage) => isBotMessage(message, options) ?
+        "ASSISTANT" :
+        `USER (${message.senderUsername})`;
+
+    const lines = messages.map(message => {
+        let reply = "";
+        if (message.replyTo) {
+            const parent = byId.get(message.replyTo);
+            reply = parent ? ` (replying to ${roleOf(parent)})` : " (replying to an earlier message)";
+        }
+        return `[${formatTimestamp(message.timestamp)}] ${roleOf(message)}${reply}: ${message.content}`;
+    });
+
+    // keep the newest lines that fit in the budget
+    const budget = options.tokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET;
+    const kept: string[] = [];
+    let used = 0;
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const tokens = estimateTokens(lines[i]);
+        if (used + tokens > budget) {
+            // always include the latest message, even if it has to be cut
+            if (kept.length === 0) {
+                kept.unshift(`${lines[i].substring(0, Math.max(budget * 4 - 3, 0))}...`);
+            }
+            break;
+        }
+        kept.unshift(lines[i]);
+        used += tokens;
+    }
+
+    const omitted = lines.length - kept.length;
+    if (omitted > 0) {
+        kept.unshift(`[${omitted} earlier message${omitted === 1 ? "" : "s"} omitted]`);
+    }
+
+    return kept.join("\n\n");
+}
+
+function normalizeUsername(username?: string): string {
+    return username?.replace("@", "").trim().toLowerCase() || "";
+}
+
+function formatTimestamp(timestamp: string): string {
+    const date = new Date(isNaN(Number(timestamp)) ? timestamp : Number(timestamp));
+    if (isNaN(date.getTime())) {
+        return timestamp;
+    }
+    // YYYY-MM-DD HH:mm in UTC
+    return date.toISOString().substring(0, 16).replace("T", " ");
+}
@@ -7,12 +7,34 @@
 
 import { AlfaFrensAIPost } from "./ai-post";
 import { AlfaFrensAIInteraction } from "./ai-interaction";
+import { ThreadService } from "./threads";
+import { PostScheduler } from "./post-scheduler";
+import { AlfaFrensContentCalendar } from "./content-calendar";
+import { AlfaFrensTaskManager } from "./tasks";
+import { AlfaFrensFactStore } from "./fact-store";
+import { AlfaFrensFactReviewQueue } from "./fact-review";
+import { AlfaFrensEntityGraph } from "./entity-graph";
+import { AlfaFrensCorrections } from "./corrections";
+import { AlfaFrensFaqKnowledge } from "./faq-knowledge";
+import { AlfaFrensWebSearch } from "./web-search";
+import { ReplyRateLimiter } from "./rate-limit";
 import { createAlfaFrensActions, registerAlfaFrensActions } from "./actions";
 import * as utils from "./utils";
 
 export {
     AlfaFrensAIPost,
     AlfaFrensAIInteraction,
+    ThreadService,
+    PostScheduler,
+    AlfaFrensContentCalendar,
+    AlfaFrensTaskManager,
+    AlfaFrensFactStore,
+    AlfaFrensFactReviewQueue,
+    AlfaFrensEntityGraph,
+    AlfaFrensCorrections,
+    AlfaFrensFaqKnowledge,
+    AlfaFrensWebSearch,
+    ReplyRateLimiter,
     createAlfaFrensActions,
     registerAlfaFrensActions,
     utils
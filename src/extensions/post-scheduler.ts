@@ -0,0 +1,283 @@
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
+
+/**
+ * daily period in which no posts are made, in minutes since midnight
+ */
+export interface QuietHours {
+    /** start of the quiet period */
+    start: number;
+    /** end of the quiet period, may be before `start` if it spans midnight */
+    end: number;
+}
+
+/**
+ * options for the post scheduler
+ */
+export interface PostSchedulerOptions {
+    /** minimum delay between posts in seconds */
+    minIntervalSeconds: number;
+    /** maximum delay between posts in seconds */
+    maxIntervalSeconds: number;
+    /** quiet hours as "HH:mm-HH:mm", e.g. "22:00-07:00" */
+    quietHours?: string;
+    /** IANA time zone the quiet hours are in, defaults to the system time zone */
+    timeZone?: string;
+}
+
+// setTimeout can't wait longer than this
+const MAX_TIMEOUT_MS = 2147483647;
+
+/**
+ * parse quiet hours in the form "HH:mm-HH:mm"
+ * @param value the setting value
+ * @returns the parsed quiet hours, or undefined if not set or invalid
+ */
+export function parseQuietHours(value?: string): QuietHours | undefined {
+    if (!value) return undefined;
+
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+    if (!match) {
+        elizaLogger.warn(`[PostScheduler] Ignoring invalid quiet hours "${value}", expected HH:mm-HH:mm`);
+        return undefined;
+    }
+
+    const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number);
+    if (startHour > 23 || endHour > 23 || startMinute > 59 || endMinute > 59) {
+        elizaLogger.warn(`[PostScheduler] Ignoring invalid quiet hours "${value}"`);
+        return undefined;
+    }
+
+    return {
+        start: startHour * 60 + startMinute,
+        end: endHour * 60 + endMinute
+    };
+}
+
+/**
+ * get the time of day of a date in a time zone
+ * @param date the date
+ * @param timeZone IANA time zone, defaults to the system time zone
+ * @returns minutes since midnight
+ */
+export function getMinutesOfDay(date: Date, timeZone?: string): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hour: "numeric",
+        minute: "numeric",
+        hourCycle: "h23"
+    }).formatToParts(date);
+
+    const hour = Number(parts.find(part => part.type === "hour")?.value ?? 0);
+    const minute = Number(parts.find(part => part.type === "minute")?.value ?? 0);
+    return hour * 60 + minute;
+}
+
+/**
+ * get how long until the quiet period is over
+ * @param date the date to check
+ * @param quietHours the quiet hours, if any
+ * @param timeZone IANA time zone of the quiet hours
+ * @returns milliseconds until posting is allowed again, 0 if it is allowed now
+ */
+export function getQuietDelay(date: Date, quietHours: QuietHours | undefined, timeZone?: string): number {
+    if (!quietHours || quietHours.start === quietHours.end) return 0;
+
+    const minutes = getMinutesOfDay(date, timeZone);
+    const { start, end } = quietHours;
+    const quiet = start < end ?
+        minutes >= start && minutes < end :
+        minutes >= start || minutes < end;
+
+    if (!quiet) return 0;
+
+    const remaining = (end - minutes + 1440) % 1440;
+    // count from the start of the current minute
+    return remaining * 60000 - date.getSeconds() * 1000 - date.getMilliseconds();
+}
+
+/**
+ * schedules automated posts for a channel
+ *
+ * After every post the next delay is picked at random between the minimum and
+ * maximum interval. The time of the last post is kept in the cache, so after a
+ * restart an overdue post is made right away instead of starting over. Posts
+ * falling into quiet hours are moved to the end of the quiet period.
+ */
+export class PostScheduler {
+    private runtime: IAgentRuntime;
+    private channelId: string;
+    private post: () => Promise<unknown>;
+    private options: PostSchedulerOptions;
+    private quietHours?: QuietHours;
+    private cacheKey: string;
+    private timer: NodeJS.Timeout | null = null;
+    private running: boolean = false;
+    private paused: boolean = false;
+    private lastPostAt: number | null = null;
+    private nextAt: number | null = null;
+
+    /**
+     * creates a new post scheduler
+     * @param runtime the agent runtime
+     * @param channelId channel the posts are made in
+     * @param post creates a post
+     * @param options interval, quiet hours and time zone
+     */
+    constructor(runtime: IAgentRuntime, channelId: string, post: () => Promise<unknown>, options: PostSchedulerOptions) {
+        this.runtime = runtime;
+        this.channelId = channelId;
+        this.post = post;
+        this.options = options;
+        this.quietHours = parseQuietHours(options.quietHours);
+        this.cacheKey = `alfafrens/${channelId}/last-post-at`;
+    }
+
+    /**
+     * time of the next scheduled post, or null if none is scheduled
+     */
+    get nextPostAt(): number | null {
+        return this.nextAt;
+    }
+
+    /**
+     * whether posting is paused
+     */
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    /**
+     * start scheduling posts, catching up if a post is overdue
+     */
+    async start(): Promise<void> {
+        if (this.running) {
+            elizaLogger.debug("[PostScheduler] already running, returning early");
+            return;
+        }
+        this.running = true;
+
+        try {
+            this.lastPostAt = await this.runtime.cacheManager.get<number>(this.cacheKey) ?? null;
+        } catch (error) {
+            elizaLogger.error(`[PostScheduler] Failed to load ${this.cacheKey}:`, error);
+        }
+
+        this.scheduleNext();
+    }
+
+    /**
+     * stop scheduling posts
+     */
+    stop(): void {
+        this.running = false;
+        this.clearTimer();
+    }
+
+    /**
+     * pause posting until resumed
+     */
+    pause(): void {
+        if (this.paused) return;
+
+        elizaLogger.info(`[PostScheduler] Posting paused in ${this.channelId}`);
+        this.paused = true;
+        this.clearTimer();
+    }
+
+    /**
+     * resume posting, making an overdue post right away
+     */
+    resume(): void {
+        if (!this.paused) return;
+
+        elizaLogger.info(`[PostScheduler] Posting resumed in ${this.channelId}`);
+        this.paused = false;
+        if (this.running) {
+            this.scheduleNext();
+        }
+    }
+
+    /**
+     * schedule the next post relative to the last one
+     */
+    private scheduleNext(): void {
+        const delay = this.getRandomDelay();
+        const at = this.lastPostAt === null ?
+            Date.now() + delay :
+            Math.max(this.lastPostAt + delay, Date.now());
+
+        this.schedule(at);
+    }
+
+    /**
+     * schedule a post at a point in time, moving it out of quiet hours
+     */
+    private schedule(at: number): void {
+        this.clearTimer();
+        if (!this.running || this.paused) return;
+
+        at += getQuietDelay(new Date(at), this.quietHours, this.options.timeZone);
+        this.nextAt = at;
+
+        const delay = Math.min(Math.max(at - Date.now(), 0), MAX_TIMEOUT_MS);
+        elizaLogger.debug(`[PostScheduler] Next post in ${this.channelId} at ${new Date(at).toISOString()}`);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.run().catch(err => {
+                elizaLogger.error("[PostScheduler] Error running scheduled post:", err);
+            });
+        }, delay);
+    }
+
+    /**
+     * make a post if it is due, then schedule the next one
+     */
+    private async run(): Promise<void> {
+        if (!this.running || this.paused) return;
+
+        // the timer may fire early if the delay was capped
+        if (this.nextAt !== null && this.nextAt > Date.now()) {
+            this.schedule(this.nextAt);
+            return;
+        }
+
+        // the clock may have moved into quiet hours while waiting
+        if (getQuietDelay(new Date(), this.quietHours, this.options.timeZone) > 0) {
+            this.schedule(Date.now());
+            return;
+        }
+
+        try {
+            await this.post();
+        } catch (error) {
+            // a failed post still counts, so errors don't turn into a posting loop
+            elizaLogger.error(`[PostScheduler] Scheduled post in ${this.channelId} failed:`, error);
+        }
+
+        this.lastPostAt = Date.now();
+        try {
+            await this.runtime.cacheManager.set(this.cacheKey, this.lastPostAt);
+        } catch (error) {
+            elizaLogger.error(`[PostScheduler] Failed to save ${this.cacheKey}:`, error);
+        }
+
+        this.scheduleNext();
+    }
+
+    /**
+     * pick a random delay between the minimum and maximum interval
+     */
+    private getRandomDelay(): number {
+        const min = Math.max(this.options.minIntervalSeconds, 0);
+        const max = Math.max(this.options.maxIntervalSeconds, min);
+        return Math.floor((min + Math.random() * (max - min)) * 1000);
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.nextAt = null;
+    }
+}
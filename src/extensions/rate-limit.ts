@@ -0,0 +1,337 @@
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
+import type { AlfaFrensMessage } from "../types";
+import { toTimestamp } from "./threads";
+
+/**
+ * number of replies allowed per period, refilled continuously
+ */
+export interface RateLimit {
+    replies: number;
+    periodSeconds: number;
+}
+
+/**
+ * why a reply was not allowed
+ * - sender: the sender used up their replies
+ * - thread: the thread used up its replies
+ * - channel: the channel used up its replies
+ * - cooldown: the bot replied in the thread too recently
+ * - loop: the sender answers the bot so fast it is likely a bot itself
+ */
+export type RateLimitReason = "sender" | "thread" | "channel" | "cooldown" | "loop";
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    reason?: RateLimitReason;
+    /** when a reply would be allowed again */
+    retryAfterMs?: number;
+}
+
+export interface ReplyRateLimitConfig {
+    /** limit per sender, null for none */
+    sender: RateLimit | null;
+    /** limit per thread, null for none */
+    thread: RateLimit | null;
+    /** limit for the whole channel, null for none */
+    channel: RateLimit | null;
+    /** minimum time between two replies in the same thread */
+    threadCooldownMs: number;
+    /** a reply to the bot faster than this counts as a fast reply */
+    loopReplyMs: number;
+    /** number of fast replies in a row that count as a loop, 0 to disable loop detection */
+    loopMaxFastReplies: number;
+    /** how long a sender in a loop is not replied to */
+    loopPauseMs: number;
+}
+
+/**
+ * counts of reply decisions since the limiter was created
+ */
+export interface ReplyRateLimitMetrics {
+    allowed: number;
+    limited: Record<RateLimitReason, number>;
+    /** loops detected, each pausing a sender */
+    loopsDetected: number;
+    /** senders currently paused because of a loop */
+    pausedSenders: string[];
+}
+
+export const DEFAULT_REPLY_RATE_LIMITS: ReplyRateLimitConfig = {
+    sender: { replies: 5, periodSeconds: 60 },
+    thread: { replies: 10, periodSeconds: 300 },
+    channel: { replies: 30, periodSeconds: 60 },
+    threadCooldownMs: 10 * 1000,
+    loopReplyMs: 10 * 1000,
+    loopMaxFastReplies: 3,
+    loopPauseMs: 600 * 1000
+};
+
+/** sent replies and idle buckets kept for at most this many keys */
+const MAX_TRACKED = 500;
+
+/**
+ * parse a rate limit like `5/60`, five replies per 60 seconds
+ * @param value setting value, `0` or `off` for no limit
+ * @param defaultValue limit for missing or invalid values
+ */
+export function parseRateLimit(value: string | undefined | null, defaultValue: RateLimit | null): RateLimit | null {
+    if (!value) return defaultValue;
+    if (value.trim() === "0" || value.trim().toLowerCase() === "off") return null;
+
+    const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+    if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+        elizaLogger.warn(`[ReplyRateLimiter] Invalid rate limit "${value}", expected replies/seconds, e.g. 5/60`);
+        return defaultValue;
+    }
+    return { replies: Number(match[1]), periodSeconds: Number(match[2]) };
+}
+
+/**
+ * load the reply rate limits from runtime settings
+ * @param runtime agent runtime
+ * @returns limits with defaults for missing or invalid settings
+ */
+export function loadReplyRateLimitConfig(runtime: IAgentRuntime): ReplyRateLimitConfig {
+    const seconds = (key: string, defaultMs: number) => {
+        const parsed = parseInt(runtime.getSetting(key) ?? "", 10);
+        return isNaN(parsed) ? defaultMs : Math.max(0, parsed) * 1000;
+    };
+    const count = parseInt(runtime.getSetting("ALFAFRENS_LOOP_MAX_FAST_REPLIES") ?? "", 10);
+
+    return {
+        sender: parseRateLimit(runtime.getSetting("ALFAFRENS_RATE_LIMIT_PER_SENDER"), DEFAULT_REPLY_RATE_LIMITS.sender),
+        thread: parseRateLimit(runtime.getSetting("ALFAFRENS_RATE_LIMIT_PER_THREAD"), DEFAULT_REPLY_RATE_LIMITS.thread),
+        channel: parseRateLimit(runtime.getSetting("ALFAFRENS_RATE_LIMIT_PER_CHANNEL"), DEFAULT_REPLY_RATE_LIMITS.channel),
+        threadCooldownMs: seconds("ALFAFRENS_THREAD_COOLDOWN_SECONDS", DEFAULT_REPLY_RATE_LIMITS.threadCooldownMs),
+        loopReplyMs: seconds("ALFAFRENS_LOOP_REPLY_SECONDS", DEFAULT_REPLY_RATE_LIMITS.loopReplyMs),
+        loopMaxFastReplies: isNaN(count) ? DEFAULT_REPLY_RATE_LIMITS.loopMaxFastReplies : Math.max(0, count),
+        loopPauseMs: seconds("ALFAFRENS_LOOP_PAUSE_SECONDS", DEFAULT_REPLY_RATE_LIMITS.loopPauseMs)
+    };
+}
+
+/**
+ * token bucket holding up to `replies` tokens, refilled over `periodSeconds`
+ */
+export class TokenBucket {
+    private capacity: number;
+    private refillPerMs: number;
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(limit: RateLimit, now: number = Date.now()) {
+        this.capacity = limit.replies;
+        this.refillPerMs = limit.replies / (limit.periodSeconds * 1000);
+        this.tokens = limit.replies;
+        this.updatedAt = now;
+    }
+
+    /**
+     * time until a token is available, 0 if one is available now
+     */
+    waitTime(now: number = Date.now()): number {
+        this.refill(now);
+        return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+    }
+
+    /**
+     * take a token if one is available
+     * @returns whether a token was taken
+     */
+    take(now: number = Date.now()): boolean {
+        if (this.waitTime(now) > 0) return false;
+        this.tokens -= 1;
+        return true;
+    }
+
+    /**
+     * whether the bucket is full again, so it can be forgotten
+     */
+    isFull(now: number = Date.now()): boolean {
+        this.refill(now);
+        return this.tokens >= this.capacity;
+    }
+
+    private refill(now: number): void {
+        this.tokens = Math.min(this.capacity, this.tokens + Math.max(0, now - this.updatedAt) * this.refillPerMs);
+        this.updatedAt = Math.max(this.updatedAt, now);
+    }
+}
+
+/**
+ * limits how often the bot replies per sender, per thread and in the channel
+ *
+ * Besides the token buckets, the bot waits a cooldown after replying in a
+ * thread, and stops replying for a while to senders that answer its replies
+ * faster than a person would several times in a row, e.g. another bot.
+ * Decisions are logged and counted in the metrics.
+ */
+export class ReplyRateLimiter {
+    private config: ReplyRateLimitConfig;
+    private senders: Map<string, TokenBucket> = new Map();
+    private threads: Map<string, TokenBucket> = new Map();
+    private channel: Map<string, TokenBucket> = new Map();
+    private lastReplyAt: Map<string, number> = new Map();
+    private sent: Map<string, number> = new Map();
+    private fastReplies: Map<string, number> = new Map();
+    private pausedUntil: Map<string, number> = new Map();
+    private metrics: ReplyRateLimitMetrics = {
+        allowed: 0,
+        limited: { sender: 0, thread: 0, channel: 0, cooldown: 0, loop: 0 },
+        loopsDetected: 0,
+        pausedSenders: []
+    };
+
+    /**
+     * creates a new reply rate limiter
+     * @param config limits, see loadReplyRateLimitConfig
+     */
+    constructor(config: ReplyRateLimitConfig = DEFAULT_REPLY_RATE_LIMITS) {
+        this.config = config;
+    }
+
+    /**
+     * remember a message the bot sent, replies to it are checked for loops
+     */
+    trackSent(message: AlfaFrensMessage): void {
+        this.sent.set(message.id, toTimestamp(message) || Date.now());
+        trim(this.sent);
+    }
+
+    /**
+     * check an incoming message for a reply loop; call once per message
+     * @returns whether a loop was detected with the sender
+     */
+    observe(message: AlfaFrensMessage, now: number = Date.now()): boolean {
+        const sentAt = message.replyTo ? this.sent.get(message.replyTo) : undefined;
+        if (sentAt === undefined || this.config.loopMaxFastReplies <= 0) return false;
+
+        const sender = senderKey(message);
+        const fast = toTimestamp(message) - sentAt < this.config.loopReplyMs;
+        const count = fast ? (this.fastReplies.get(sender) ?? 0) + 1 : 0;
+        this.fastReplies.set(sender, count);
+        trim(this.fastReplies);
+
+        if (count < this.config.loopMaxFastReplies) return false;
+
+        this.fastReplies.delete(sender);
+        this.pausedUntil.set(sender, now + this.config.loopPauseMs);
+        this.metrics.loopsDetected++;
+        elizaLogger.warn(
+            `[ReplyRateLimiter] ${message.senderUsername || sender} answered ${count} replies within ` +
+            `${this.config.loopReplyMs / 1000}s each, pausing replies for ${this.config.loopPauseMs / 1000}s`
+        );
+        return true;
+    }
+
+    /**
+     * whether a reply to a message would be allowed, without counting it
+     * @param message message to reply to
+     * @param threadId thread the message belongs to
+     */
+    check(message: AlfaFrensMessage, threadId: string, now: number = Date.now()): RateLimitDecision {
+        const sender = senderKey(message);
+
+        const pausedUntil = this.pausedUntil.get(sender);
+        if (pausedUntil !== undefined) {
+            if (pausedUntil > now) return { allowed: false, reason: "loop", retryAfterMs: pausedUntil - now };
+            this.pausedUntil.delete(sender);
+        }
+
+        const lastReplyAt = this.lastReplyAt.get(threadId);
+        if (lastReplyAt !== undefined && now - lastReplyAt < this.config.threadCooldownMs) {
+            return { allowed: false, reason: "cooldown", retryAfterMs: lastReplyAt + this.config.threadCooldownMs - now };
+        }
+
+        const buckets: [RateLimitReason, TokenBucket | null][] = [
+            ["sender", this.bucket(this.senders, sender, this.config.sender, now)],
+            ["thread", this.bucket(this.threads, threadId, this.config.thread, now)],
+            ["channel", this.bucket(this.channel, "channel", this.config.channel, now)]
+        ];
+        for (const [reason, bucket] of buckets) {
+            const wait = bucket?.waitTime(now) ?? 0;
+            if (wait > 0) return { allowed: false, reason, retryAfterMs: wait };
+        }
+
+        return { allowed: true };
+    }
+
+    /**
+     * count a reply to a message if it is allowed, logging the decision
+     * @param message message to reply to
+     * @param threadId thread the message belongs to
+     */
+    acquire(message: AlfaFrensMessage, threadId: string, now: number = Date.now()): RateLimitDecision {
+        const decision = this.check(message, threadId, now);
+        this.record(message, decision);
+        if (!decision.allowed) return decision;
+
+        this.bucket(this.senders, senderKey(message), this.config.sender, now)?.take(now);
+        this.bucket(this.threads, threadId, this.config.thread, now)?.take(now);
+        this.bucket(this.channel, "channel", this.config.channel, now)?.take(now);
+        this.lastReplyAt.set(threadId, now);
+        trim(this.lastReplyAt);
+
+        this.metrics.allowed++;
+        return decision;
+    }
+
+    /**
+     * log and count a reply that was not allowed
+     * @param message message that won't be replied to
+     * @param decision the decision of check
+     */
+    record(message: AlfaFrensMessage, decision: RateLimitDecision): void {
+        if (decision.allowed) return;
+
+        this.metrics.limited[decision.reason!]++;
+        elizaLogger.info(
+            `[ReplyRateLimiter] Not replying to message ${message.id} from ${message.senderUsername || senderKey(message)}: ` +
+            `${decision.reason} limit, allowed again in ${Math.ceil((decision.retryAfterMs ?? 0) / 1000)}s`
+        );
+    }
+
+    /**
+     * counts of reply decisions and the senders paused for loops
+     */
+    getMetrics(now: number = Date.now()): ReplyRateLimitMetrics {
+        return {
+            allowed: this.metrics.allowed,
+            limited: { ...this.metrics.limited },
+            loopsDetected: this.metrics.loopsDetected,
+            pausedSenders: [...this.pausedUntil.entries()].filter(([, until]) => until > now).map(([sender]) => sender)
+        };
+    }
+
+    /**
+     * the bucket of a key, created full; full buckets of other keys are dropped once too many are kept
+     */
+    private bucket(buckets: Map<string, TokenBucket>, key: string, limit: RateLimit | null, now: number): TokenBucket | null {
+        if (!limit) return null;
+
+        let bucket = buckets.get(key);
+        if (!bucket) {
+            if (buckets.size >= MAX_TRACKED) {
+                for (const [other, idle] of buckets) {
+                    if (idle.isFull(now)) buckets.delete(other);
+                }
+            }
+            bucket = new TokenBucket(limit, now);
+            buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+}
+
+function senderKey(message: AlfaFrensMessage): string {
+    return message.senderId || message.senderUsername || "unknown";
+}
+
+/**
+ * drop the oldest entries of a map beyond MAX_TRACKED
+ */
+function trim(map: Map<string, unknown>): void {
+    for (const key of map.keys()) {
+        if (map.size <= MAX_TRACKED) break;
+        map.delete(key);
+    }
+}
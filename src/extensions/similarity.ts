@@ -0,0 +1,253 @@
+import { IAgentRuntime, elizaLogger, embed } from "@elizaos/core";
+
+/**
+ * available similarity backends
+ * - embedding: cosine similarity of the runtime's text embeddings
+ * - jaccard: word overlap, works offline
+ */
+export type SimilarityBackendName = "embedding" | "jaccard";
+
+/**
+ * text to compare, with its embedding if one was stored
+ */
+export interface SimilarityCandidate {
+    text: string;
+    embedding?: number[];
+}
+
+/**
+ * candidate ranked by its similarity to a query
+ */
+export interface RankedCandidate<T extends SimilarityCandidate> {
+    item: T;
+    /** similarity to the query between 0 and 1 */
+    similarity: number;
+}
+
+/**
+ * options for ranking candidates
+ */
+export interface RankOptions {
+    /** minimum similarity of a result */
+    threshold: number;
+    /** maximum number of results */
+    count?: number;
+    /** minimum word overlap of a result when the embedding backend falls back to it */
+    fallbackThreshold?: number;
+}
+
+/**
+ * compares texts and ranks candidates by their similarity to a query
+ */
+export interface SimilarityBackend {
+    readonly name: SimilarityBackendName;
+    /** similarity of two texts between 0 and 1 */
+    similarity(text1: string, text2: string): Promise<number>;
+    /** the candidates at least as similar as the threshold, most similar first */
+    rank<T extends SimilarityCandidate>(text: string, candidates: T[], options: RankOptions): Promise<RankedCandidate<T>[]>;
+    /** embedding to store with a text, undefined if the backend doesn't use embeddings */
+    embed(text: string): Promise<number[] | undefined>;
+}
+
+const STOPWORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "in",
+    "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was", "were", "will", "with"
+]);
+
+const DEFAULT_RANK_COUNT = 10;
+
+/** texts embedded at the same time while ranking */
+const EMBEDDING_BATCH_SIZE = 10;
+
+/**
+ * share of a cosine threshold used for word overlap by default, texts with the
+ * same meaning share far fewer words than their embeddings are similar
+ */
+const FALLBACK_THRESHOLD_RATIO = 0.6;
+
+/**
+ * split a text into lowercase words without punctuation and stopwords
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word.length > 0 && !STOPWORDS.has(word));
+}
+
+/**
+ * word overlap of two texts between 0 and 1
+ */
+export function jaccardSimilarity(text1: string, text2: string): number {
+    const words1 = new Set(tokenize(text1));
+    const words2 = new Set(tokenize(text2));
+    if (words1.size === 0 || words2.size === 0) return 0;
+
+    const intersection = [...words1].filter(word => words2.has(word)).length;
+    return intersection / (words1.size + words2.size - intersection);
+}
+
+/**
+ * cosine similarity of two vectors, clamped to 0..1
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+
+    return Math.max(0, Math.min(1, dot / Math.sqrt(normA * normB)));
+}
+
+/**
+ * sort ranked candidates, most similar first, and apply the rank options
+ */
+function selectRanked<T extends SimilarityCandidate>(ranked: RankedCandidate<T>[], options: RankOptions): RankedCandidate<T>[] {
+    return ranked
+        .filter(result => result.similarity >= options.threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, options.count ?? DEFAULT_RANK_COUNT);
+}
+
+/**
+ * word overlap backend, works without an embedding model
+ */
+export class JaccardSimilarityBackend implements SimilarityBackend {
+    readonly name = "jaccard";
+
+    async similarity(text1: string, text2: string): Promise<number> {
+        return jaccardSimilarity(text1, text2);
+    }
+
+    async rank<T extends SimilarityCandidate>(text: string, candidates: T[], options: RankOptions): Promise<RankedCandidate<T>[]> {
+        return selectRanked(
+            candidates.map(item => ({ item, similarity: jaccardSimilarity(text, item.text) })),
+            options
+        );
+    }
+
+    async embed(): Promise<number[] | undefined> {
+        return undefined;
+    }
+}
+
+/**
+ * embedding backend, uses the runtime's embedding model
+ *
+ * Candidates are compared by their stored embedding, or embedded on the fly if
+ * they have none. Falls back to word overlap whenever no embedding is
+ * available, e.g. when the embedding provider can't be reached, with a lower
+ * threshold since word overlap scores paraphrases lower.
+ */
+export class EmbeddingSimilarityBackend implements SimilarityBackend {
+    readonly name = "embedding";
+    private runtime: IAgentRuntime;
+    private fallback: SimilarityBackend;
+    private embeddings: Map<string, number[]> = new Map();
+    private maxCachedEmbeddings: number = 500;
+
+    /**
+     * creates a new embedding backend
+     * @param runtime agent runtime
+     * @param fallback backend used when embeddings are unavailable
+     */
+    constructor(runtime: IAgentRuntime, fallback: SimilarityBackend = new JaccardSimilarityBackend()) {
+        this.runtime = runtime;
+        this.fallback = fallback;
+    }
+
+    async similarity(text1: string, text2: string): Promise<number> {
+        try {
+            const [embedding1, embedding2] = await Promise.all([this.getEmbedding(text1), this.getEmbedding(text2)]);
+            return cosineSimilarity(embedding1, embedding2);
+        } catch (error) {
+            elizaLogger.warn("[EmbeddingSimilarityBackend] Embedding unavailable, using fallback:", error);
+            return this.fallback.similarity(text1, text2);
+        }
+    }
+
+    async rank<T extends SimilarityCandidate>(text: string, candidates: T[], options: RankOptions): Promise<RankedCandidate<T>[]> {
+        try {
+            const embedding = await this.getEmbedding(text);
+            const missing = candidates.filter(item => item.embedding?.length !== embedding.length).map(item => item.text);
+            const embedded = await this.getEmbeddings(missing);
+
+            return selectRanked(
+                candidates.map(item => {
+                    const candidateEmbedding = item.embedding?.length === embedding.length
+                        ? item.embedding
+                        : embedded.get(item.text) ?? [];
+                    return { item, similarity: cosineSimilarity(embedding, candidateEmbedding) };
+                }),
+                options
+            );
+        } catch (error) {
+            elizaLogger.warn("[EmbeddingSimilarityBackend] Embedding unavailable, using fallback:", error);
+            return this.fallback.rank(text, candidates, {
+                ...options,
+                threshold: options.fallbackThreshold ?? options.threshold * FALLBACK_THRESHOLD_RATIO
+            });
+        }
+    }
+
+    async embed(text: string): Promise<number[] | undefined> {
+        try {
+            return await this.getEmbedding(text);
+        } catch (error) {
+            elizaLogger.warn("[EmbeddingSimilarityBackend] Failed to embed text:", error);
+            return undefined;
+        }
+    }
+
+    /**
+     * embed texts a batch at a time instead of one after another
+     */
+    private async getEmbeddings(texts: string[]): Promise<Map<string, number[]>> {
+        const embeddings = new Map<string, number[]>();
+        const unique = [...new Set(texts)];
+
+        for (let i = 0; i < unique.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = unique.slice(i, i + EMBEDDING_BATCH_SIZE);
+            const results = await Promise.all(batch.map(text => this.getEmbedding(text)));
+            batch.forEach((text, index) => embeddings.set(text, results[index]));
+        }
+
+        return embeddings;
+    }
+
+    private async getEmbedding(text: string): Promise<number[]> {
+        const cached = this.embeddings.get(text);
+        if (cached) return cached;
+
+        const embedding = await embed(this.runtime, text);
+        if (!embedding?.length || embedding.every(value => value === 0)) {
+            throw new Error("No embedding returned");
+        }
+
+        this.embeddings.set(text, embedding);
+        for (const key of this.embeddings.keys()) {
+            if (this.embeddings.size <= this.maxCachedEmbeddings) break;
+            this.embeddings.delete(key);
+        }
+        return embedding;
+    }
+}
+
+/**
+ * create the similarity backend selected by ALFAFRENS_SIMILARITY_BACKEND
+ * @param runtime agent runtime
+ * @returns embedding backend unless "jaccard" is configured
+ */
+export function createSimilarityBackend(runtime: IAgentRuntime): SimilarityBackend {
+    const name = runtime.getSetting("ALFAFRENS_SIMILARITY_BACKEND")?.toLowerCase();
+    return name === "jaccard"
+        ? new JaccardSimilarityBackend()
+        : new EmbeddingSimilarityBackend(runtime);
+}
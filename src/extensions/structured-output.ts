@@ -0,0 +1,300 @@
+import { IAgentRuntime, elizaLogger, generateText, ModelClass } from "@elizaos/core";
+
+/**
+ * outcome of checking a value against a schema: the checked value, or what doesn't match
+ */
+export type SchemaResult<T> =
+    | { status: "ok"; value: T }
+    | { status: "error"; error: string };
+
+/**
+ * expected shape of a model's JSON output
+ */
+export interface OutputSchema<T> {
+    /** shape described for the model, e.g. `array of string` */
+    description: string;
+    /** check a parsed JSON value */
+    validate(value: unknown): SchemaResult<T>;
+}
+
+/**
+ * why structured output could not be produced
+ * - generation: the model call failed
+ * - no_json: the output contained no JSON
+ * - invalid_json: the output contained broken JSON
+ * - schema: the JSON didn't match the schema
+ * - budget: no model calls were left in the budget
+ */
+export type StructuredOutputErrorKind = "generation" | "no_json" | "invalid_json" | "schema" | "budget";
+
+/**
+ * why a structured output call failed
+ */
+export interface StructuredOutputError {
+    kind: StructuredOutputErrorKind;
+    message: string;
+}
+
+/**
+ * typed outcome of a structured output call: the parsed and checked output, or why it failed
+ */
+export type StructuredOutputResult<T> =
+    | (StructuredOutputAnswer & { status: "ok"; value: T })
+    | (StructuredOutputAnswer & { status: "error"; error: StructuredOutputError });
+
+/**
+ * the answer a structured output result was parsed from
+ */
+interface StructuredOutputAnswer {
+    /** the model's last answer */
+    raw: string;
+    /** whether the answer was only usable after a repair prompt */
+    repaired: boolean;
+}
+
+/**
+ * parameters of a structured output call
+ */
+export interface StructuredOutputOptions<T> {
+    runtime: IAgentRuntime;
+    context: string;
+    schema: OutputSchema<T>;
+    modelClass?: ModelClass;
+    /** ask the model to fix an unusable answer once (default true) */
+    repair?: boolean;
+    /** timeout per model call in milliseconds */
+    timeoutMs?: number;
+    /** identifies the call in logs */
+    traceId?: string;
+    /** budget the model calls, including a repair, are taken from */
+    budget?: LLMCallBudget;
+}
+
+/**
+ * number of model calls a task may make, shared by its structured output calls
+ */
+export class LLMCallBudget {
+    readonly limit: number;
+    private used: number = 0;
+
+    constructor(limit: number) {
+        this.limit = limit;
+    }
+
+    /** model calls left */
+    get remaining(): number {
+        return Math.max(0, this.limit - this.used);
+    }
+
+    /**
+     * use up a model call
+     * @returns false if none are left
+     */
+    take(): boolean {
+        if (this.remaining === 0) return false;
+        this.used++;
+        return true;
+    }
+}
+
+const ok = <T>(value: T): SchemaResult<T> => ({ status: "ok", value });
+const fail = <T>(error: string): SchemaResult<T> => ({ status: "error", error });
+
+export const stringSchema: OutputSchema<string> = {
+    description: "string",
+    validate: value => typeof value === "string" ? ok(value) : fail(`expected a string, got ${typeof value}`)
+};
+
+export const booleanSchema: OutputSchema<boolean> = {
+    description: "boolean",
+    validate: value => typeof value === "boolean" ? ok(value) : fail(`expected a boolean, got ${typeof value}`)
+};
+
+/**
+ * a number, optionally within bounds
+ */
+export function numberSchema(min?: number, max?: number): OutputSchema<number> {
+    const bounds = min !== undefined && max !== undefined ? ` between ${min} and ${max}` : "";
+    return {
+        description: `number${bounds}`,
+        validate: value => {
+            if (typeof value !== "number" || isNaN(value)) return fail(`expected a number, got ${typeof value}`);
+            if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+                return fail(`expected a number${bounds}, got ${value}`);
+            }
+            return ok(value);
+        }
+    };
+}
+
+/**
+ * an array of items
+ * @param item schema of the items
+ * @param options `skipInvalid` drops items that don't match instead of failing
+ */
+export function arraySchema<T>(item: OutputSchema<T>, options: { skipInvalid?: boolean } = {}): OutputSchema<T[]> {
+    return {
+        description: `array of ${item.description}`,
+        validate: value => {
+            if (!Array.isArray(value)) return fail(`expected an array, got ${typeof value}`);
+
+            const items: T[] = [];
+            for (const [index, element] of value.entries()) {
+                const result = item.validate(element);
+                if (result.status === "ok") {
+                    items.push(result.value);
+                } else if (!options.skipInvalid) {
+                    return fail(`item ${index}: ${result.error}`);
+                }
+            }
+            return ok(items);
+        }
+    };
+}
+
+/**
+ * an object with the given properties, extra properties are ignored
+ * @param properties schema of each property
+ * @param optional names of properties that may be missing
+ */
+export function objectSchema<T extends Record<string, unknown>>(
+    properties: { [K in keyof T]-?: OutputSchema<Exclude<T[K], undefined>> },
+    optional: (keyof T)[] = []
+): OutputSchema<T> {
+    const keys = Object.keys(properties) as (keyof T & string)[];
+    return {
+        description: `object {${keys.map(key =>
+            `"${key}"${optional.includes(key) ? "?" : ""}: ${properties[key].description}`).join(", ")}}`,
+        validate: value => {
+            if (!value || typeof value !== "object" || Array.isArray(value)) {
+                return fail(`expected an object, got ${Array.isArray(value) ? "array" : typeof value}`);
+            }
+
+            const record = value as Record<string, unknown>;
+            const result: Record<string, unknown> = {};
+            for (const key of keys) {
+                if (record[key] === undefined || record[key] === null) {
+                    if (optional.includes(key)) continue;
+                    return fail(`missing property "${key}"`);
+                }
+                const property = properties[key].validate(record[key]);
+                if (property.status === "error") return fail(`property "${key}": ${property.error}`);
+                result[key] = property.value;
+            }
+            return ok(result as T);
+        }
+    };
+}
+
+/**
+ * JSON candidates in a model's output, most likely first: the content of a
+ * fenced code block, the whole text, then the outermost array and object
+ */
+export function extractJsonCandidates(text: string): string[] {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const body = (fenced ? fenced[1] : text).trim();
+
+    const candidates = [body];
+    const arrayStart = body.indexOf("[");
+    const arrayEnd = body.lastIndexOf("]");
+    if (arrayStart !== -1 && arrayEnd > arrayStart) candidates.push(body.slice(arrayStart, arrayEnd + 1));
+    const objectStart = body.indexOf("{");
+    const objectEnd = body.lastIndexOf("}");
+    if (objectStart !== -1 && objectEnd > objectStart) candidates.push(body.slice(objectStart, objectEnd + 1));
+
+    return [...new Set(candidates)].filter(Boolean);
+}
+
+/**
+ * parse a model's output against a schema
+ * @param text raw model output, JSON optionally surrounded by prose or code fences
+ * @param schema expected shape
+ */
+export function parseStructuredOutput<T>(text: string, schema: OutputSchema<T>): StructuredOutputResult<T> {
+    const raw = text || "";
+    let parsedAny = false;
+    let schemaError = "";
+
+    for (const candidate of extractJsonCandidates(raw)) {
+        let value: unknown;
+        try {
+            value = JSON.parse(candidate);
+        } catch {
+            continue;
+        }
+
+        parsedAny = true;
+        const result = schema.validate(value);
+        if (result.status === "ok") {
+            return { status: "ok", value: result.value, raw, repaired: false };
+        }
+        schemaError ||= result.error;
+    }
+
+    if (parsedAny) {
+        return { status: "error", error: { kind: "schema", message: schemaError }, raw, repaired: false };
+    }
+    return /[[{]/.test(raw)
+        ? { status: "error", error: { kind: "invalid_json", message: "the JSON could not be parsed" }, raw, repaired: false }
+        : { status: "error", error: { kind: "no_json", message: "the answer contained no JSON" }, raw, repaired: false };
+}
+
+/**
+ * generate JSON output with the model and check it against a schema
+ *
+ * If the answer can't be used, the model is asked once to repair it, with the
+ * problem and the expected shape, unless the budget is used up. Failures are
+ * returned, not thrown.
+ */
+export async function generateStructuredOutput<T>(options: StructuredOutputOptions<T>): Promise<StructuredOutputResult<T>> {
+    const { runtime, context, schema, budget, modelClass = ModelClass.SMALL, repair = true, timeoutMs = 30000 } = options;
+    const id = options.traceId ? ` (${options.traceId})` : "";
+
+    const generate = async (prompt: string): Promise<StructuredOutputResult<T>> => {
+        if (budget && !budget.take()) {
+            return { status: "error", error: { kind: "budget", message: "no model calls left in the budget" }, raw: "", repaired: false };
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error("LLM request timed out")), timeoutMs);
+            });
+            const text = await Promise.race([generateText({ runtime, context: prompt, modelClass }), timeout]);
+            return parseStructuredOutput(text, schema);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { status: "error", error: { kind: "generation", message }, raw: "", repaired: false };
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    const first = await generate(context);
+    if (first.status === "ok") {
+        return first;
+    }
+
+    const canRepair = repair && first.error.kind !== "generation" && first.error.kind !== "budget" && budget?.remaining !== 0;
+    if (!canRepair) {
+        elizaLogger.warn(`[StructuredOutput] Unusable output${id} (${first.error.kind}): ${first.error.message}`);
+        return first;
+    }
+
+    elizaLogger.debug(`[StructuredOutput] Asking the model to repair its output${id}: ${first.error.message}`);
+    const repairPrompt = `${context}
+
+Your previous answer could not be used: ${first.error.message}.
+Previous answer:
+${first.raw}
+
+Answer again with only valid JSON matching this shape, without any other text: ${schema.description}`;
+
+    const second = await generate(repairPrompt);
+    if (second.status === "ok") {
+        return { ...second, repaired: true };
+    }
+
+    elizaLogger.warn(`[StructuredOutput] Unusable output after repair${id} (${second.error.kind}): ${second.error.message}`);
+    return second;
+}
@@ -1,162 +1,221 @@
-import { IAgentRuntime, Memory, elizaLogger, UUID, State } from "@elizaos/core";
-import { AlfaFrensMessage } from "../types";
+import { IAgentRuntime, elizaLogger } from "@elizaos/core";
 import { FactValidationManager } from "./fact-validation";
+import type { AlfaFrensCorrections } from "./corrections";
+import { getNumericSetting, validateSentResponse, type DeferredResponseValidation } from "./utils";
+import { RecurringJob } from "./concurrency";
 import { v4 as uuidv4 } from "uuid";
 
-// Import Task and TaskWorker types from ElizaOS core
-interface Task {
-    id?: UUID;
+/**
+ * when a task runs
+ * - once: a single run at `scheduledFor`
+ * - recurring: runs every `intervalMs`, starting at `scheduledFor`
+ */
+export type TaskSchedule =
+    | { type: "once" }
+    | { type: "recurring"; intervalMs: number };
+
+/**
+ * task persisted in the cache
+ */
+export interface PersistedTask<T extends Record<string, unknown> = Record<string, unknown>> {
+    id: string;
+    /** name of the worker that runs the task */
     name: string;
-    description: string;
-    roomId?: UUID;
-    worldId?: UUID;
-    tags: string[];
-    metadata?: {
-        updateInterval?: number;
-        options?: {
-            name: string;
-            description: string;
-        }[];
-        [key: string]: unknown;
-    };
+    /** data passed to the worker */
+    payload: T;
+    schedule: TaskSchedule;
+    /** time of the next run */
+    scheduledFor: number;
+    /** failed attempts of the current run */
+    attempts: number;
+    /** attempts before the task is moved to the dead-letter list */
+    maxAttempts: number;
+    status: "pending" | "running" | "dead";
+    createdAt: number;
+    lastRunAt?: number;
+    lastError?: string;
 }
 
-interface TaskWorker {
-    name: string;
-    execute: (
-        runtime: IAgentRuntime,
-        options: { [key: string]: unknown },
-        task: Task
-    ) => Promise<void>;
-    validate?: (
-        runtime: IAgentRuntime,
-        message: Memory,
-        state: State
-    ) => Promise<boolean>;
+/**
+ * runs tasks of one name
+ */
+export type TaskWorker<T extends Record<string, unknown> = Record<string, unknown>> = (
+    task: PersistedTask<T>,
+    runtime: IAgentRuntime
+) => Promise<void>;
+
+/**
+ * options for scheduling a task
+ */
+export interface ScheduleTaskOptions {
+    /** time of the first run (defaults to now) */
+    runAt?: number;
+    /** delay before the first run in milliseconds, ignored if `runAt` is set */
+    delayMs?: number;
+    /** run the task repeatedly with this interval in milliseconds */
+    intervalMs?: number;
+    /** attempts before the task is moved to the dead-letter list */
+    maxAttempts?: number;
 }
 
-interface FactValidationTask extends Task {
-    name: "FACT_VALIDATION";
-    metadata: {
-        fact: string;
-        source: string;
-        requiresConfirmation?: boolean;
-        scheduledFor?: number;
-        validation?: {
-            confidence: number;
-            contradictions: string[];
-        };
-    };
+/**
+ * options for configuring the task manager
+ */
+export interface AlfaFrensTaskManagerOptions {
+    /** separates the persisted tasks of several managers, e.g. per channel */
+    namespace?: string;
+    /** how often to check for due tasks in milliseconds */
+    pollIntervalMs?: number;
+    /** base delay for retries in milliseconds, doubled per attempt */
+    retryBaseDelayMs?: number;
+    /** upper bound for a retry delay in milliseconds */
+    retryMaxDelayMs?: number;
+    /** validates and stores the facts of FACT_VALIDATION tasks, a new one is created if omitted */
+    factValidationManager?: FactValidationManager;
+    /** sends the follow-ups of RESPONSE_VALIDATION tasks, which are only run if given */
+    corrections?: AlfaFrensCorrections;
 }
 
-interface AIInteractionTask extends Task {
-    name: "AI_INTERACTION";
-    metadata: {
-        type: "POLL" | "POST" | "RESPONSE";
-        interval: number;
-        lastProcessed: number;
-        messageId?: string;
-    };
+/**
+ * payload of a fact validation task
+ */
+export interface FactValidationTaskPayload extends Record<string, unknown> {
+    fact: string;
+    source: string;
+    requiresConfirmation?: boolean;
 }
 
 /**
- * Simple task definition
+ * payload of a response validation task
  */
-export interface SimpleTask {
-    id: string;
-    name: string;
-    type: "POLL" | "POST" | "RESPONSE";
-    interval: number;
-    lastRun: number;
-    handler: () => Promise<void>;
+export interface ResponseValidationTaskPayload extends DeferredResponseValidation, Record<string, unknown> {
+    /** ID of the sent reply a correction answers */
+    replyId: string;
+}
+
+/**
+ * persisted state of the task queue
+ */
+interface TaskQueueState {
+    tasks: PersistedTask[];
+    deadLetters: PersistedTask[];
 }
 
+// keep the dead-letter list from growing without bound
+const MAX_DEAD_LETTERS = 100;
+
 /**
- * Simplified task manager that doesn't rely on ElizaOS runtime task methods
+ * persistent task queue
+ *
+ * Tasks are stored in the cache and survive restarts. Workers are registered by
+ * task name; a failing task is retried with exponential backoff and moved to
+ * the dead-letter list once it runs out of attempts.
  */
 export class AlfaFrensTaskManager {
     private runtime: IAgentRuntime;
     private factValidationManager: FactValidationManager;
-    private tasks: Map<string, SimpleTask> = new Map();
-    private intervals: Map<string, NodeJS.Timeout> = new Map();
+    private workers: Map<string, TaskWorker> = new Map();
+    private state: TaskQueueState = { tasks: [], deadLetters: [] };
+    private cacheKey: string;
+    private retryBaseDelayMs: number;
+    private retryMaxDelayMs: number;
+    private job: RecurringJob;
+    private loaded: Promise<void> | null = null;
     private isRunning: boolean = false;
 
-    constructor(runtime: IAgentRuntime) {
+    constructor(runtime: IAgentRuntime, options: AlfaFrensTaskManagerOptions = {}) {
         this.runtime = runtime;
-        this.factValidationManager = new FactValidationManager(runtime);
-        elizaLogger.debug("[AlfaFrensTaskManager] Initialized");
-    }
+        this.factValidationManager = options.factValidationManager ?? new FactValidationManager(runtime);
+        this.cacheKey = options.namespace ? `alfafrens/${options.namespace}/tasks` : "alfafrens/tasks";
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? 30000;
+        this.retryMaxDelayMs = options.retryMaxDelayMs ?? 3600000;
+        this.job = new RecurringJob(`tasks ${this.cacheKey}`, () => this.runDueTasks(), options.pollIntervalMs ?? 5000);
 
-    private registerTaskWorkers(): void {
-        // Fact Validation Worker
-        (this.runtime as any).registerTaskWorker({
-            name: "FACT_VALIDATION",
-            validate: async (runtime, message, state) => {
-                // Only validate facts from non-bot users
-                return message.userId !== runtime.agentId;
-            },
-            execute: async (runtime, options, task) => {
-                const factTask = task as FactValidationTask;
-                const validation = await this.factValidationManager.validateFact(
-                    factTask.metadata.fact,
-                    {
-                        id: task.id,
-                        timestamp: new Date().toISOString(),
-                        senderId: factTask.metadata.source,
-                        senderUsername: factTask.metadata.source,
-                        content: factTask.metadata.fact
-                    }
-                );
-
-                if (validation.confidence >= 0.7) {
-                    await this.factValidationManager.storeFact(
-                        factTask.metadata.fact,
-                        validation
-                    );
-                }
+        this.registerWorker<FactValidationTaskPayload>("FACT_VALIDATION", async task => {
+            const { fact, source, requiresConfirmation } = task.payload;
+            const validation = await this.factValidationManager.validateFact(fact, {
+                id: task.id,
+                timestamp: new Date().toISOString(),
+                senderId: source,
+                senderUsername: source,
+                content: fact
+            });
 
-                // Delete the task after completion
-                await (runtime as any).deleteTask(task.id);
-            }
+            await this.factValidationManager.storeOrReview(fact, validation, {
+                requiresConfirmation,
+                sourceMessage: { senderId: source }
+            });
         });
 
-        // AI Interaction Worker
-        (this.runtime as any).registerTaskWorker({
-            name: "AI_INTERACTION",
-            validate: async (runtime, message, state) => {
-                const task = await (runtime as any).getTask(message.id);
-                if (!task) return false;
-
-                const interactionTask = task as AIInteractionTask;
-                const now = Date.now();
-                return now - interactionTask.metadata.lastProcessed >= interactionTask.metadata.interval;
-            },
-            execute: async (runtime, options, task) => {
-                const interactionTask = task as AIInteractionTask;
-
-                switch (interactionTask.metadata.type) {
-                    case "POLL":
-                        // Handle message polling
-                        break;
-                    case "POST":
-                        // Handle content posting
-                        break;
-                    case "RESPONSE":
-                        // Handle response generation
-                        break;
+        const corrections = options.corrections;
+        if (corrections) {
+            this.registerWorker<ResponseValidationTaskPayload>("RESPONSE_VALIDATION", async task => {
+                const correction = await validateSentResponse(this.runtime, this.factValidationManager, task.payload);
+                if (correction) {
+                    await corrections.correct(task.payload.replyId, correction, "fact validation after sending");
                 }
+            });
+        }
 
-                // Update last processed time
-                await (runtime as any).updateTask(task.id, {
-                    metadata: {
-                        ...interactionTask.metadata,
-                        lastProcessed: Date.now()
-                    }
-                });
-            }
+        this.registerWorker("FACT_MAINTENANCE", async () => {
+            await this.factValidationManager.store.archiveLowPriority();
         });
+
+        elizaLogger.debug("[AlfaFrensTaskManager] Initialized");
+    }
+
+    /**
+     * register the worker for tasks of a name
+     * @param name task name
+     * @param worker runs the task, throwing to signal a failure
+     */
+    registerWorker<T extends Record<string, unknown>>(name: string, worker: TaskWorker<T>): void {
+        // payloads are persisted untyped, tasks of a name are scheduled with the payload of its worker
+        this.workers.set(name, worker as TaskWorker);
+    }
+
+    /**
+     * schedule a task
+     * @param name name of the worker to run
+     * @param payload data passed to the worker
+     * @param options when and how often to run the task
+     * @returns the persisted task
+     */
+    async schedule<T extends Record<string, unknown>>(
+        name: string,
+        payload: T,
+        options: ScheduleTaskOptions = {}
+    ): Promise<PersistedTask<T>> {
+        await this.load();
+
+        const now = Date.now();
+        const task: PersistedTask<T> = {
+            id: uuidv4(),
+            name,
+            payload,
+            schedule: options.intervalMs ?
+                { type: "recurring", intervalMs: options.intervalMs } :
+                { type: "once" },
+            scheduledFor: options.runAt ?? now + (options.delayMs ?? 0),
+            attempts: 0,
+            maxAttempts: options.maxAttempts ?? 3,
+            status: "pending",
+            createdAt: now
+        };
+
+        this.state.tasks.push(task);
+        await this.save();
+
+        elizaLogger.debug(`[AlfaFrensTaskManager] Scheduled ${name} task ${task.id} for ${new Date(task.scheduledFor).toISOString()}`);
+        return { ...task };
     }
 
+    /**
+     * schedule validation of a fact
+     * @param fact the fact to validate
+     * @param source who stated the fact
+     * @param options `deferred` delays validation by ALFAFRENS_FACT_VALIDATION_DELAY_SECONDS (default 3600)
+     */
     async createFactValidationTask(
         fact: string,
         source: string,
@@ -164,53 +223,102 @@ export class AlfaFrensTaskManager {
             deferred?: boolean;
             requiresConfirmation?: boolean;
         } = {}
-    ): Promise<FactValidationTask> {
-        const task: FactValidationTask = {
-            name: "FACT_VALIDATION",
-            description: `Validate fact: ${fact}`,
-            tags: ["fact-validation"],
-            metadata: {
-                fact,
-                source,
-                requiresConfirmation: options.requiresConfirmation,
-                scheduledFor: options.deferred ? Date.now() + 3600000 : undefined // 1 hour delay if deferred
-            }
-        };
+    ): Promise<PersistedTask<FactValidationTaskPayload>> {
+        const delayMs = options.deferred ?
+            getNumericSetting(this.runtime, "ALFAFRENS_FACT_VALIDATION_DELAY_SECONDS", 3600) * 1000 :
+            0;
 
-        return (this.runtime as any).createTask(task) as Promise<FactValidationTask>;
+        return this.schedule<FactValidationTaskPayload>(
+            "FACT_VALIDATION",
+            { fact, source, requiresConfirmation: options.requiresConfirmation },
+            { delayMs }
+        );
     }
 
     /**
-     * Create a task for AI interaction
+     * schedule validation of the facts of a sent reply, correcting it with a follow-up if needed
+     * @param validation the deferred validation of the response
+     * @param replyId ID of the sent reply
      */
-    async createAIInteractionTask(
-        type: "POLL" | "POST" | "RESPONSE",
-        interval: number,
-        handler?: () => Promise<void>
-    ): Promise<SimpleTask> {
-        const id = uuidv4();
-        const task: SimpleTask = {
-            id,
-            name: `AI_INTERACTION_${type}`,
-            type,
-            interval,
-            lastRun: Date.now(),
-            handler: handler || (() => Promise.resolve())
-        };
+    async createResponseValidationTask(
+        validation: DeferredResponseValidation,
+        replyId: string
+    ): Promise<PersistedTask<ResponseValidationTaskPayload>> {
+        return this.schedule<ResponseValidationTaskPayload>("RESPONSE_VALIDATION", { ...validation, replyId });
+    }
 
-        this.tasks.set(id, task);
-        elizaLogger.debug(`[AlfaFrensTaskManager] Created ${type} task with interval ${interval}ms`);
+    /**
+     * schedule archiving of low-priority facts every
+     * ALFAFRENS_FACT_MAINTENANCE_INTERVAL_SECONDS (default 86400), unless already scheduled
+     */
+    async scheduleFactMaintenance(): Promise<void> {
+        if ((await this.listTasks("FACT_MAINTENANCE")).length > 0) {
+            return;
+        }
 
-        // Set up interval if running
-        if (this.isRunning) {
-            this.startTaskInterval(task);
+        const intervalMs = getNumericSetting(this.runtime, "ALFAFRENS_FACT_MAINTENANCE_INTERVAL_SECONDS", 86400) * 1000;
+        await this.schedule("FACT_MAINTENANCE", {}, { delayMs: intervalMs, intervalMs });
+    }
+
+    /**
+     * list scheduled tasks
+     * @param name only list tasks of this name
+     */
+    async listTasks(name?: string): Promise<PersistedTask[]> {
+        await this.load();
+        return this.state.tasks
+            .filter(task => !name || task.name === name)
+            .map(task => ({ ...task }));
+    }
+
+    /**
+     * list tasks that ran out of attempts
+     */
+    async listDeadLetters(): Promise<PersistedTask[]> {
+        await this.load();
+        return this.state.deadLetters.map(task => ({ ...task }));
+    }
+
+    /**
+     * cancel a scheduled task
+     * @param id task ID
+     * @returns whether the task was found
+     */
+    async cancelTask(id: string): Promise<boolean> {
+        await this.load();
+
+        const index = this.state.tasks.findIndex(task => task.id === id);
+        if (index === -1) {
+            return false;
         }
 
-        return task;
+        this.state.tasks.splice(index, 1);
+        await this.save();
+        elizaLogger.info(`[AlfaFrensTaskManager] Cancelled task ${id}`);
+        return true;
     }
 
     /**
-     * Start running task intervals
+     * move a dead task back into the queue
+     * @param id task ID
+     * @returns whether the task was found
+     */
+    async requeueDeadLetter(id: string): Promise<boolean> {
+        await this.load();
+
+        const index = this.state.deadLetters.findIndex(task => task.id === id);
+        if (index === -1) {
+            return false;
+        }
+
+        const [task] = this.state.deadLetters.splice(index, 1);
+        this.state.tasks.push({ ...task, status: "pending", attempts: 0, scheduledFor: Date.now() });
+        await this.save();
+        return true;
+    }
+
+    /**
+     * start running due tasks
      */
     async start(): Promise<void> {
         if (this.isRunning) {
@@ -220,14 +328,12 @@ export class AlfaFrensTaskManager {
         this.isRunning = true;
         elizaLogger.debug("[AlfaFrensTaskManager] Starting task manager");
 
-        // Start all task intervals
-        for (const task of this.tasks.values()) {
-            this.startTaskInterval(task);
-        }
+        await this.load();
+        this.job.start(true);
     }
 
     /**
-     * Stop all task intervals
+     * stop running tasks, scheduled tasks stay persisted
      */
     async stop(): Promise<void> {
         if (!this.isRunning) {
@@ -237,49 +343,126 @@ export class AlfaFrensTaskManager {
         this.isRunning = false;
         elizaLogger.debug("[AlfaFrensTaskManager] Stopping task manager");
 
-        // Clear all intervals
-        for (const [id, interval] of this.intervals.entries()) {
-            clearInterval(interval);
-            this.intervals.delete(id);
-        }
+        this.job.stop();
     }
 
     /**
-     * Process all tasks immediately
+     * run all tasks that are due, waiting for a run already in progress instead of overlapping it
      */
     async processTasks(): Promise<void> {
-        elizaLogger.debug(`[AlfaFrensTaskManager] Processing ${this.tasks.size} tasks`);
-
-        for (const task of this.tasks.values()) {
-            try {
-                await task.handler();
-                task.lastRun = Date.now();
-            } catch (error) {
-                elizaLogger.error(`[AlfaFrensTaskManager] Error processing task ${task.name}:`, error);
-            }
+        await this.job.trigger();
+    }
+
+    /**
+     * run all tasks that are due
+     * @returns number of tasks run
+     */
+    private async runDueTasks(): Promise<number> {
+        await this.load();
+
+        const now = Date.now();
+        const due = this.state.tasks.filter(task => task.status === "pending" && task.scheduledFor <= now);
+
+        for (const task of due) {
+            await this.runTask(task);
         }
+
+        return due.length;
     }
 
     /**
-     * Start interval for a task
+     * run a single task and reschedule, retry or dead-letter it
      */
-    private startTaskInterval(task: SimpleTask): void {
-        // Clear existing interval if any
-        if (this.intervals.has(task.id)) {
-            clearInterval(this.intervals.get(task.id)!);
+    private async runTask(task: PersistedTask): Promise<void> {
+        const worker = this.workers.get(task.name);
+        if (!worker) {
+            elizaLogger.warn(`[AlfaFrensTaskManager] No worker registered for ${task.name}, skipping task ${task.id}`);
+            return;
         }
 
-        // Set new interval
-        const interval = setInterval(async () => {
-            try {
-                await task.handler();
-                task.lastRun = Date.now();
-            } catch (error) {
-                elizaLogger.error(`[AlfaFrensTaskManager] Error in task ${task.name}:`, error);
+        task.status = "running";
+        task.lastRunAt = Date.now();
+        await this.save();
+
+        try {
+            await worker(task, this.runtime);
+
+            task.attempts = 0;
+            task.lastError = undefined;
+            if (task.schedule.type === "recurring") {
+                task.status = "pending";
+                task.scheduledFor = Math.max(task.scheduledFor + task.schedule.intervalMs, Date.now());
+            } else {
+                this.remove(task);
+            }
+            elizaLogger.debug(`[AlfaFrensTaskManager] Task ${task.name} ${task.id} completed`);
+        } catch (error) {
+            task.attempts++;
+            task.lastError = error instanceof Error ? error.message : String(error);
+
+            if (task.attempts >= task.maxAttempts) {
+                elizaLogger.error(`[AlfaFrensTaskManager] Task ${task.name} ${task.id} failed ${task.attempts} times, moving to dead letters: ${task.lastError}`);
+                this.deadLetter(task);
+            } else {
+                const delay = Math.min(this.retryBaseDelayMs * 2 ** (task.attempts - 1), this.retryMaxDelayMs);
+                elizaLogger.warn(`[AlfaFrensTaskManager] Task ${task.name} ${task.id} failed (attempt ${task.attempts}/${task.maxAttempts}), retrying in ${delay}ms: ${task.lastError}`);
+                task.status = "pending";
+                task.scheduledFor = Date.now() + delay;
             }
-        }, task.interval);
+        }
+
+        await this.save();
+    }
+
+    /**
+     * move a failed task to the dead-letter list; recurring tasks keep their schedule
+     */
+    private deadLetter(task: PersistedTask): void {
+        this.state.deadLetters.push({ ...task, status: "dead" });
+        this.state.deadLetters = this.state.deadLetters.slice(-MAX_DEAD_LETTERS);
 
-        this.intervals.set(task.id, interval);
-        elizaLogger.debug(`[AlfaFrensTaskManager] Started interval for task ${task.name}`);
+        if (task.schedule.type === "recurring") {
+            task.status = "pending";
+            task.attempts = 0;
+            task.scheduledFor = Date.now() + task.schedule.intervalMs;
+        } else {
+            this.remove(task);
+        }
+    }
+
+    private remove(task: PersistedTask): void {
+        this.state.tasks = this.state.tasks.filter(t => t.id !== task.id);
+    }
+
+    /**
+     * load the queue from the cache once
+     */
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                try {
+                    const cached = await this.runtime.cacheManager.get<TaskQueueState>(this.cacheKey);
+                    if (cached) {
+                        this.state = {
+                            // tasks interrupted by a restart run again
+                            tasks: (cached.tasks || []).map(task => ({ ...task, status: task.status === "running" ? "pending" : task.status })),
+                            deadLetters: cached.deadLetters || []
+                        };
+                        elizaLogger.debug(`[AlfaFrensTaskManager] Loaded ${this.state.tasks.length} tasks from ${this.cacheKey}`);
+                    }
+                } catch (error) {
+                    elizaLogger.error(`[AlfaFrensTaskManager] Failed to load ${this.cacheKey}:`, error);
+                }
+            })();
+        }
+        return this.loaded;
     }
-} 
\ No newline at end of file
+
+    private async save(): Promise<void> {
+        try {
+            await this.runtime.cacheManager.set(this.cacheKey, this.state);
+        } catch (error) {
+            elizaLogger.error(`[AlfaFrensTaskManager] Failed to save ${this.cacheKey}:`, error);
+        }
+    }
+}
@@ -0,0 +1,254 @@
+import { elizaLogger } from "@elizaos/core";
+import type { AlfaFrensMessage } from "../types";
+
+/**
+ * minimal client surface needed to fetch missing thread messages
+ */
+export interface ThreadMessageSource {
+    getMessages(params: {
+        roomId: string;
+        since?: number;
+        until?: number;
+        includeReactions?: boolean;
+        includeReplies?: boolean;
+    }): Promise<AlfaFrensMessage[]>;
+}
+
+/**
+ * options for the thread service
+ */
+export interface ThreadServiceOptions {
+    /** how far back to fetch when ancestors of a message are unknown, in milliseconds */
+    lookbackMs?: number;
+    /** maximum number of messages kept in the local index */
+    maxMessages?: number;
+    /** also include earlier direct replies to the messages replied to, e.g. other answers to the same question */
+    includeDirectReplies?: boolean;
+}
+
+/**
+ * reply tree node
+ */
+export interface ReplyTreeNode {
+    message: AlfaFrensMessage;
+    replies: ReplyTreeNode[];
+}
+
+/**
+ * build reply trees from a flat list of messages
+ * @param messages messages in any order
+ * @returns root nodes (messages without a known parent), oldest first
+ */
+export function buildReplyTree(messages: AlfaFrensMessage[]): ReplyTreeNode[] {
+    const nodes = new Map<string, ReplyTreeNode>();
+    for (const message of [...messages].sort(compareByTimestamp)) {
+        nodes.set(message.id, { message, replies: [] });
+    }
+
+    const roots: ReplyTreeNode[] = [];
+    for (const node of nodes.values()) {
+        const parent = node.message.replyTo ? nodes.get(node.message.replyTo) : undefined;
+        if (parent && parent !== node) {
+            parent.replies.push(node);
+        } else {
+            roots.push(node);
+        }
+    }
+
+    return roots;
+}
+
+/**
+ * reconstructs conversation threads from `replyTo` links
+ *
+ * A thread is the chain of messages a message replies to, up to its root;
+ * other branches of the reply tree are left out. Messages seen while polling
+ * are kept in a bounded local index. When a message replies to something
+ * outside the index, the channel is fetched once with replies included and the
+ * missing ancestors are added to the index.
+ */
+export class ThreadService {
+    private client: ThreadMessageSource;
+    private channelId: string;
+    private lookbackMs: number;
+    private maxMessages: number;
+    private includeDirectReplies: boolean;
+    private messages: Map<string, AlfaFrensMessage> = new Map();
+
+    /**
+     * creates a new thread service
+     * @param client client used to fetch missing messages
+     * @param channelId channel the threads belong to
+     * @param options optional configuration options
+     */
+    constructor(client: ThreadMessageSource, channelId: string, options: ThreadServiceOptions = {}) {
+        this.client = client;
+        this.channelId = channelId;
+        this.lookbackMs = options.lookbackMs ?? 24 * 60 * 60 * 1000;
+        this.maxMessages = options.maxMessages ?? 200;
+        this.includeDirectReplies = options.includeDirectReplies ?? false;
+    }
+
+    /**
+     * add messages to the local index, dropping the oldest ones beyond the limit
+     * @param messages messages to remember
+     */
+    remember(messages: AlfaFrensMessage[]): void {
+        for (const message of messages) {
+            // re-insert so the map stays in arrival order
+            this.messages.delete(message.id);
+            this.messages.set(message.id, message);
+        }
+
+        for (const id of this.messages.keys()) {
+            if (this.messages.size <= this.maxMessages) break;
+            this.messages.delete(id);
+        }
+    }
+
+    /**
+     * get the most recent messages of the channel in arrival order
+     * @param limit maximum number of messages
+     */
+    getRecentMessages(limit: number): AlfaFrensMessage[] {
+        return [...this.messages.values()].slice(-limit);
+    }
+
+    /**
+     * get the conversation a message belongs to: the messages it replies to, up to the root
+     * @param messageOrId the message, or the ID of a message
+     * @param maxMessages maximum number of thread messages to return
+     * @returns thread messages up to and including the message, oldest first
+     */
+    async getThread(messageOrId: AlfaFrensMessage | string, maxMessages: number = 10): Promise<AlfaFrensMessage[]> {
+        let message = typeof messageOrId === "string" ? this.messages.get(messageOrId) : messageOrId;
+        let fetched = new Map<string, AlfaFrensMessage>();
+
+        if (!message || this.hasMissingAncestor(message)) {
+            fetched = await this.fetchAround(message ? toTimestamp(message) : Date.now());
+            message = message || fetched.get(messageOrId as string);
+        }
+
+        if (!message) {
+            elizaLogger.debug(`[ThreadService] Message ${messageOrId} not found in channel ${this.channelId}`);
+            return [];
+        }
+
+        // walk up the replyTo links to the root of the thread
+        const thread = new Map<string, AlfaFrensMessage>([[message.id, message]]);
+        let current = message;
+        while (current.replyTo && !thread.has(current.replyTo)) {
+            const parent = this.messages.get(current.replyTo) ?? fetched.get(current.replyTo);
+            if (!parent) break;
+            thread.set(parent.id, parent);
+            current = parent;
+        }
+
+        if (this.includeDirectReplies) {
+            const cutoff = toTimestamp(message);
+            const ancestors = new Set(thread.keys());
+            for (const candidate of [...this.messages.values(), ...fetched.values()]) {
+                if (candidate.replyTo && ancestors.has(candidate.replyTo) && toTimestamp(candidate) <= cutoff) {
+                    thread.set(candidate.id, candidate);
+                }
+            }
+        }
+
+        // keep what was fetched for this thread, not the whole lookback window
+        this.remember([...thread.values()]
+            .filter(m => fetched.has(m.id) && !this.messages.has(m.id))
+            .sort(compareByTimestamp));
+
+        return [...thread.values()]
+            .sort(compareByTimestamp)
+            .slice(-maxMessages);
+    }
+
+    /**
+     * ID of the message a thread starts with, as far as the local index reaches
+     * @param message a message of the thread
+     */
+    getRootId(message: AlfaFrensMessage): string {
+        let root = message;
+        const visited = new Set<string>([root.id]);
+        while (root.replyTo && !visited.has(root.replyTo)) {
+            const parent = this.messages.get(root.replyTo);
+            if (!parent) return root.replyTo;
+            root = parent;
+            visited.add(root.id);
+        }
+        return root.id;
+    }
+
+    /**
+     * summarize recent channel activity outside of a thread
+     * @param thread messages of the current thread, excluded from the summary
+     * @param limit maximum number of messages to summarize
+     * @returns one line per message, or a placeholder if there is nothing to summarize
+     */
+    summarizeChannel(thread: AlfaFrensMessage[], limit: number = 5): string {
+        const threadIds = new Set(thread.map(m => m.id));
+        const others = [...this.messages.values()]
+            .filter(m => !threadIds.has(m.id))
+            .slice(-limit);
+
+        if (others.length === 0) {
+            return "No other recent activity.";
+        }
+
+        return others.map(m => {
+            const content = (m.content || "").replace(/\s+/g, " ").trim();
+            const preview = content.length > 80 ? `${content.substring(0, 77)}...` : content;
+            return `- ${m.senderUsername}: ${preview}`;
+        }).join("\n");
+    }
+
+    /**
+     * check whether a message replies to something outside the index
+     */
+    private hasMissingAncestor(message: AlfaFrensMessage): boolean {
+        let current = message;
+        const visited = new Set<string>();
+        while (current.replyTo && !visited.has(current.id)) {
+            visited.add(current.id);
+            const parent = this.messages.get(current.replyTo);
+            if (!parent) return true;
+            current = parent;
+        }
+        return false;
+    }
+
+    /**
+     * fetch channel messages with replies around a point in time
+     * @returns the fetched messages by ID, none if fetching failed
+     */
+    private async fetchAround(timestamp: number): Promise<Map<string, AlfaFrensMessage>> {
+        try {
+            const messages = await this.client.getMessages({
+                roomId: this.channelId,
+                since: timestamp - this.lookbackMs,
+                includeReplies: true
+            });
+            elizaLogger.debug(`[ThreadService] Fetched ${messages.length} messages to reconstruct threads in ${this.channelId}`);
+            return new Map(messages.map(message => [message.id, message]));
+        } catch (error) {
+            elizaLogger.warn(`[ThreadService] Failed to fetch thread messages for ${this.channelId}:`, error);
+            return new Map();
+        }
+    }
+}
+
+function compareByTimestamp(a: AlfaFrensMessage, b: AlfaFrensMessage): number {
+    return toTimestamp(a) - toTimestamp(b);
+}
+
+/**
+ * time a message was sent in milliseconds, 0 if its timestamp can't be read
+ */
+export function toTimestamp(message: AlfaFrensMessage): number {
+    const parsed = new Date(message.timestamp).getTime();
+    if (!isNaN(parsed)) return parsed;
+
+    const numeric = Number(message.timestamp);
+    return isNaN(numeric) ? 0 : numeric;
+}
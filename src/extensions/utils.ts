@@ -1,8 +1,27 @@
-import { IAgentRuntime, elizaLogger, generateText, ModelClass, ServiceType } from "@elizaos/core";
+import { IAgentRuntime, elizaLogger, generateText, ModelClass } from "@elizaos/core";
 import type { AlfaFrensMessage } from "../types";
-import type { AlfaFrensGenerationConfig } from "../types";
+import type { AlfaFrensGenerationConfig, AlfaFrensGroundingDecision } from "../types";
 import { v4 as uuidv4 } from 'uuid';
-import { FactValidationManager } from "./fact-validation";
+import { FactValidationManager, loadFactValidationMode, type FactValidationMode, type ValidatedFact } from "./fact-validation";
+import {
+    extractJsonCandidates,
+    generateStructuredOutput,
+    LLMCallBudget,
+    parseStructuredOutput,
+    type OutputSchema
+} from "./structured-output";
+import { formatFaqMatches, getFaqKnowledge } from "./faq-knowledge";
+import { DEFAULT_HISTORY_TOKEN_BUDGET, formatConversationHistory, type HistoryFormatOptions } from "./history";
+import {
+    assembleContext,
+    DEFAULT_CONTEXT_BUDGETS,
+    getContextValues,
+    injectContextPlaceholders,
+    insertBeforeFinalCue,
+    type ContextBudgets
+} from "./context-assembly";
+import { decideGrounding, getHedgeInstruction, loadGroundingConfig, type GroundingChunk } from "./grounding";
+import { AlfaFrensWebSearch, formatSourceAttribution, formatWebSearchItems } from "./web-search";
 
 /**
  * process a template string with runtime data
@@ -106,7 +125,19 @@ export const DEFAULT_RESPONSE_TEMPLATE = `You are {{character.name}}, an AI assi
 Your topics of expertise include:
 {{character.topics}}
 
-CONVERSATION HISTORY:
+RECENT CHANNEL ACTIVITY:
+{{message.summary}}
+
+KNOWN FACTS:
+{{message.facts}}
+
+KNOWLEDGE:
+{{knowledge}}
+
+WEB SEARCH RESULTS:
+{{websearch}}
+
+CONVERSATION THREAD:
 {{message.history}}
 
 USER ({{message.sender}}): {{message.content}}
@@ -118,6 +149,7 @@ RULES:
 2. Be direct and helpful
 3. Stay focused on the question
 4. No meta-commentary
+5. When the knowledge answers the question, rely on it instead of guessing
 
 YOUR RESPONSE:`;
 
@@ -153,28 +185,10 @@ Or:
 \`\`\`
 `;
 
-/**
- * format conversation history for context
- * @param messages array of messages to format
- * @returns formatted conversation history
- */
-function formatConversationHistory(messages: AlfaFrensMessage[]): string {
-    if (messages.length === 0) {
-        return "No previous messages.";
-    }
-
-    return messages.map(msg => {
-        const role = msg.senderId === msg.senderUsername ?
-            "ASSISTANT" :
-            `USER (${msg.senderUsername})`;
-        return `${role}: ${msg.content}`;
-    }).join("\n\n");
-}
-
 /**
  * common function for generating text with LLM with detailed logging
  */
-async function generateLLMResponse({
+export async function generateLLMResponse({
     runtime,
     context,
     modelClass,
@@ -270,6 +284,48 @@ export async function generatePostContent(
     }
 }
 
+/**
+ * token budgets of the retrieved context from the ALFAFRENS_CONTEXT_*_TOKEN_BUDGET settings
+ */
+export function loadContextBudgets(runtime: IAgentRuntime): ContextBudgets {
+    return {
+        knowledge: getNumericSetting(runtime, "ALFAFRENS_CONTEXT_KNOWLEDGE_TOKEN_BUDGET", DEFAULT_CONTEXT_BUDGETS.knowledge),
+        websearch: getNumericSetting(runtime, "ALFAFRENS_CONTEXT_WEBSEARCH_TOKEN_BUDGET", DEFAULT_CONTEXT_BUDGETS.websearch),
+        facts: getNumericSetting(runtime, "ALFAFRENS_CONTEXT_FACTS_TOKEN_BUDGET", DEFAULT_CONTEXT_BUDGETS.facts)
+    };
+}
+
+/**
+ * additional context for generating a response
+ */
+export interface ResponseContext {
+    /** username of the sender of the message being answered */
+    sender?: string;
+    /** short summary of recent channel activity outside the current thread */
+    channelSummary?: string;
+    /** bot identity and budget for formatting the history, defaults to the client's config */
+    history?: HistoryFormatOptions;
+    /**
+     * receives the fact validation of the response to run once it was sent;
+     * in async validation mode the response is then returned unchecked
+     */
+    onDeferredValidation?: (validation: DeferredResponseValidation) => void;
+    /** receives the grounding decision when ALFAFRENS_GROUNDING_MODE is on, to attach it to the reply */
+    onGrounding?: (decision: AlfaFrensGroundingDecision) => void;
+    /** fact validation manager of the caller, so replies share its fact store, review queue and similarity backend */
+    factValidationManager?: FactValidationManager;
+}
+
+/**
+ * fact validation of a response left for after it was sent
+ */
+export interface DeferredResponseValidation {
+    /** prompt the response was generated from */
+    prompt: string;
+    response: string;
+    modelClass?: ModelClass;
+}
+
 /**
  * Generates a response to a message
  */
@@ -279,63 +335,122 @@ export async function generateResponse(
     message: string,
     messageHistory: any[],
     template: string,
-    modelClass?: ModelClass
+    modelClass?: ModelClass,
+    context: ResponseContext = {}
 ): Promise<string> {
-    // Explicitly check for web search service and try to use it
-    let webSearchResults = "";
+    // Get relevant knowledge for this message, FAQ answers first with their section to cite
+    const knowledgeParts: string[] = [];
+    const groundingChunks: GroundingChunk[] = [];
     try {
-        const webSearchService = runtime.getService(ServiceType.WEB_SEARCH);
-        if (webSearchService) {
-            elizaLogger.info("[AlfaFrens] Web search service found, attempting to search for: " + message);
-            // Cast the service to any to access its search method
-            const searchResults = await (webSearchService as any).search(message, {
-                limit: 3,
-                includeAnswer: true
-            });
-
-            if (searchResults && searchResults.results && searchResults.results.length > 0) {
-                elizaLogger.info("[AlfaFrens] Web search results found!");
-                webSearchResults = `${searchResults.answer || ""}\n\nRelevant web search results:\n`;
-                webSearchResults += searchResults.results.map((result: any, i: number) =>
-                    `${i + 1}. ${result.title} - ${result.url}`
-                ).join('\n');
-            }
-        } else {
-            elizaLogger.warn("[AlfaFrens] Web search service not found");
-        }
+        const faqMatches = await getFaqKnowledge(runtime).search(
+            message,
+            getNumericSetting(runtime, "ALFAFRENS_FAQ_RESULT_COUNT", 3)
+        );
+        knowledgeParts.push(...faqMatches.map(match => formatFaqMatches([match])));
+        groundingChunks.push(...faqMatches.map(match => ({
+            id: `faq:${match.citation}`,
+            text: match.chunk.answer,
+            title: match.chunk.path.join(" ")
+        })));
     } catch (error) {
-        elizaLogger.error("[AlfaFrens] Error using web search service:", error);
+        elizaLogger.warn("[AlfaFrens] Error searching the FAQ:", error);
     }
-
-    // Get relevant knowledge for this message
-    let knowledgeContext = "";
     try {
         // Use the client's knowledge search capability
         const knowledgeResults = await client.searchKnowledge(message, 3);
         if (knowledgeResults && knowledgeResults.length > 0) {
-            knowledgeContext = "\n\nRelevant knowledge:\n" +
-                knowledgeResults.map(r => r.content?.text || "").filter(Boolean).join("\n\n");
+            knowledgeParts.push(...knowledgeResults.map(r => r.content?.text || "").filter(Boolean));
+            groundingChunks.push(...knowledgeResults
+                .filter(r => r.content?.text)
+                .map((r, i) => ({ id: `knowledge:${r.id ?? i}`, text: r.content.text })));
         }
     } catch (error) {
         elizaLogger.warn("[AlfaFrens] Error fetching knowledge context:", error);
     }
 
-    // Format the history for the prompt
-    const formattedHistory = formatConversationHistory(messageHistory);
+    const factValidationManager = context.factValidationManager ?? new FactValidationManager(runtime);
+
+    // Questions about AlfaFrens need supporting knowledge, the model invents numbers otherwise
+    const groundingConfig = loadGroundingConfig(runtime);
+    let grounding: AlfaFrensGroundingDecision | undefined;
+    if (groundingConfig.mode !== "off") {
+        try {
+            grounding = await decideGrounding(message, groundingChunks, groundingConfig, factValidationManager.similarity);
+            context.onGrounding?.(grounding);
+        } catch (error) {
+            elizaLogger.warn("[AlfaFrens] Error checking the knowledge supporting an answer:", error);
+        }
+        if (grounding?.action === "refuse") {
+            elizaLogger.info("[AlfaFrens] No knowledge supports an answer, replying with the grounding fallback");
+            return groundingConfig.fallback;
+        }
+    }
 
-    // Add knowledge context and web search results to the message
-    const contextEnhancedMessage = message;
+    // Search the web for time-sensitive and factual questions, with a query completed from the thread
+    const webSearch = await new AlfaFrensWebSearch(runtime).search(message, messageHistory);
 
-    // Process the template with the message, history, and web search results
-    let prompt = processTemplate(template, runtime, {
+    // Get stored facts relevant to this message
+    const knownFacts = await factValidationManager.retrieveFacts(
+        message,
+        getNumericSetting(runtime, "ALFAFRENS_PROMPT_FACT_COUNT", 5)
+    );
+
+    // Get known relationships of the sender and the entities mentioned in the message
+    let knownRelationships: string[] = [];
+    try {
+        knownRelationships = await factValidationManager.graph.describeMentioned(
+            `${context.sender || ""} ${message}`,
+            getNumericSetting(runtime, "ALFAFRENS_PROMPT_RELATIONSHIP_COUNT", 5)
+        );
+    } catch (error) {
+        elizaLogger.warn("[AlfaFrens] Error fetching relationship context:", error);
+    }
+    const factLines = [
+        ...knownFacts.map(fact => `- ${fact.text}`),
+        ...knownRelationships.map(relationship => `- ${relationship}`)
+    ];
+
+    // Format the history for the prompt
+    const historyOptions: HistoryFormatOptions = {
+        botUserId: client?.config?.userId,
+        botUsername: client?.config?.username,
+        tokenBudget: getNumericSetting(runtime, "ALFAFRENS_HISTORY_TOKEN_BUDGET", DEFAULT_HISTORY_TOKEN_BUDGET),
+        ...context.history
+    };
+    const formattedHistory = formatConversationHistory(messageHistory, historyOptions);
+
+    // Fit the retrieved context into its token budgets, and add it to templates without placeholders for it
+    const contextSections = assembleContext([
+        { source: "facts", items: factLines },
+        { source: "knowledge", items: knowledgeParts },
+        { source: "websearch", items: formatWebSearchItems(webSearch) }
+    ], loadContextBudgets(runtime));
+    const contextValues = getContextValues(contextSections);
+
+    // Name the web sources given to the model at the end of the reply
+    const sources = runtime.getSetting("ALFAFRENS_WEB_SEARCH_ATTRIBUTION") === "true" ?
+        formatSourceAttribution(webSearch, contextValues.websearch) :
+        "";
+    const withSources = (response: string) => sources ? `${response}\n\n${sources}` : response;
+
+    // Process the template with the message, history, and retrieved context
+    let prompt = processTemplate(injectContextPlaceholders(template, contextSections), runtime, {
         message: {
-            content: contextEnhancedMessage,
-            history: formattedHistory
+            content: message,
+            history: formattedHistory,
+            sender: context.sender || "user",
+            summary: context.channelSummary || "No other recent activity.",
+            facts: contextValues.facts,
+            relationships: knownRelationships.map(relationship => `- ${relationship}`).join("\n") || "No known relationships."
         },
-        websearch: webSearchResults,
-        knowledge: knowledgeContext
+        websearch: contextValues.websearch,
+        knowledge: contextValues.knowledge
     });
 
+    if (grounding?.action === "hedge") {
+        prompt = insertBeforeFinalCue(prompt, getHedgeInstruction(groundingConfig.fallback));
+    }
+
     // Generate the response
     const rawResponse = await generateLLMResponse({
         runtime,
@@ -344,64 +459,23 @@ export async function generateResponse(
         traceId: "response"
     });
 
-    // Perform fact validation
-    const factValidationManager = new FactValidationManager(runtime);
+    // Validate the facts of the response, after it was sent if a follow-up correction can be sent
+    const mode = loadFactValidationMode(runtime);
+    if (mode === "async" && context.onDeferredValidation) {
+        context.onDeferredValidation({ prompt, response: rawResponse, modelClass });
+        return withSources(rawResponse);
+    }
 
     try {
-        // Extract facts from the generated response
-        const extractedFacts = await factValidationManager.extractFacts(rawResponse);
-        elizaLogger.debug("[AlfaFrens] Extracted facts from response:", extractedFacts);
-
-        if (extractedFacts.length === 0) {
-            // No facts to validate, return the original response
-            return rawResponse;
-        }
-
-        // Create a dummy message for validation context
-        const dummyMessage = {
-            id: `validation-${Date.now()}`,
-            timestamp: new Date().toISOString(),
-            content: rawResponse,
-            senderId: runtime.agentId,
-            senderUsername: runtime.character?.name || "AI Assistant"
-        };
-
-        // Validate each extracted fact
-        let requiresCorrection = false;
-        const factValidationResults = [];
-
-        for (const fact of extractedFacts) {
-            const validation = await factValidationManager.validateFact(fact, dummyMessage);
-            factValidationResults.push({
-                fact,
-                confidence: validation.confidence,
-                contradictions: validation.contradictions
-            });
-
-            // If the fact has contradictions or low confidence, we might need to correct the response
-            if (validation.contradictions.length > 0 || validation.confidence < 0.7) {
-                requiresCorrection = true;
-            }
-        }
-
-        elizaLogger.debug("[AlfaFrens] Fact validation results:", factValidationResults);
+        const checked = await checkResponseFacts(runtime, factValidationManager, rawResponse, mode);
+        elizaLogger.debug("[AlfaFrens] Fact validation results:", checked);
+        await storeResponseFacts(factValidationManager, checked, rawResponse);
 
         // If corrections are needed, regenerate with corrected context
-        if (requiresCorrection) {
+        const correctionContext = describeFactIssues(checked, factValidationManager.thresholds.confidence);
+        if (correctionContext) {
             elizaLogger.info("[AlfaFrens] Facts require correction, enhancing prompt with factual context");
 
-            // Create a correction context
-            const correctionContext = factValidationResults
-                .filter(r => r.contradictions.length > 0 || r.confidence < 0.7)
-                .map(r => {
-                    if (r.contradictions.length > 0) {
-                        return `CORRECTION: "${r.fact}" contradicts known facts: ${r.contradictions.join(", ")}`;
-                    } else {
-                        return `CORRECTION: "${r.fact}" has low confidence (${r.confidence.toFixed(2)})`;
-                    }
-                })
-                .join("\n");
-
             // Create a revised prompt with correction context
             const revisedPrompt = `${prompt}\n\nYour initial response contains factual issues that need correction:\n${correctionContext}\n\nRevised response:`;
 
@@ -414,19 +488,7 @@ export async function generateResponse(
             });
 
             elizaLogger.info("[AlfaFrens] Generated fact-corrected response");
-            return correctedResponse;
-        }
-
-        // Store validated facts with high confidence
-        for (const result of factValidationResults) {
-            if (result.confidence >= 0.7 && result.contradictions.length === 0) {
-                await factValidationManager.storeFact(result.fact, {
-                    confidence: result.confidence,
-                    source: runtime.agentId,
-                    timestamp: Date.now(),
-                    contradictions: []
-                });
-            }
+            return withSources(correctedResponse);
         }
     } catch (error) {
         // If fact validation fails, log and return the original response
@@ -434,7 +496,225 @@ export async function generateResponse(
         elizaLogger.warn("[AlfaFrens] Returning original response due to fact validation error");
     }
 
-    return rawResponse;
+    return withSources(rawResponse);
+}
+
+/**
+ * extract the facts of a generated response and validate them, using at most
+ * ALFAFRENS_FACT_VALIDATION_MAX_LLM_CALLS (default 4) model calls
+ * @returns the validated facts, facts left unchecked are omitted
+ */
+async function checkResponseFacts(
+    runtime: IAgentRuntime,
+    manager: FactValidationManager,
+    response: string,
+    mode: FactValidationMode
+): Promise<ValidatedFact[]> {
+    const budget = new LLMCallBudget(getNumericSetting(runtime, "ALFAFRENS_FACT_VALIDATION_MAX_LLM_CALLS", 4));
+
+    const facts = await manager.extractFacts(response, budget);
+    elizaLogger.debug("[AlfaFrens] Extracted facts from response:", facts);
+    if (facts.length === 0) {
+        return [];
+    }
+
+    // the response is the message the facts come from
+    const responseMessage: AlfaFrensMessage = {
+        id: `validation-${Date.now()}`,
+        timestamp: new Date().toISOString(),
+        content: response,
+        senderId: runtime.agentId,
+        senderUsername: runtime.character?.name || "AI Assistant"
+    };
+
+    if (mode !== "per-fact") {
+        return manager.validateFacts(facts, responseMessage, budget);
+    }
+
+    const checked: ValidatedFact[] = [];
+    for (const fact of facts) {
+        if (budget.remaining === 0) {
+            elizaLogger.debug(`[AlfaFrens] Fact validation budget used up, ${facts.length - checked.length} fact(s) left unchecked`);
+            break;
+        }
+        checked.push({ fact, validation: await manager.validateFact(fact, responseMessage, budget) });
+    }
+    return checked;
+}
+
+/**
+ * correction notes for the facts that contradict stored facts or have low confidence
+ * @returns the notes, empty if no fact needs correcting
+ */
+function describeFactIssues(checked: ValidatedFact[], confidenceThreshold: number): string {
+    return checked
+        .filter(({ validation }) => validation.contradictions.length > 0 || validation.confidence < confidenceThreshold)
+        .map(({ fact, validation }) => validation.contradictions.length > 0
+            ? `CORRECTION: "${fact}" contradicts known facts: ${validation.contradictions.join(", ")}`
+            : `CORRECTION: "${fact}" has low confidence (${validation.confidence.toFixed(2)})`)
+        .join("\n");
+}
+
+/**
+ * store the validated facts of a response, holding back those with low
+ * confidence or contradictions for a moderator to review
+ */
+async function storeResponseFacts(manager: FactValidationManager, checked: ValidatedFact[], response: string): Promise<void> {
+    for (const { fact, validation } of checked) {
+        await manager.storeOrReview(fact, validation, {
+            sourceMessage: { id: validation.messageId, senderId: validation.source, content: response }
+        });
+    }
+}
+
+/**
+ * validate the facts of a response that was already sent
+ * @returns a follow-up correcting the response, null if its facts need no correction
+ */
+export async function validateSentResponse(
+    runtime: IAgentRuntime,
+    manager: FactValidationManager,
+    { prompt, response, modelClass }: DeferredResponseValidation
+): Promise<string | null> {
+    const checked = await checkResponseFacts(runtime, manager, response, "async");
+    elizaLogger.debug("[AlfaFrens] Deferred fact validation results:", checked);
+    await storeResponseFacts(manager, checked, response);
+
+    const correctionContext = describeFactIssues(checked, manager.thresholds.confidence);
+    if (!correctionContext) return null;
+
+    elizaLogger.info("[AlfaFrens] Sent response contains factual issues, generating a follow-up correction");
+    return generateLLMResponse({
+        runtime,
+        context: `${prompt}\n\nYou already sent this response:\n${response}\n\nIt contains factual issues:\n${correctionContext}\n\nWrite a short follow-up message correcting them:`,
+        modelClass: modelClass || ModelClass.MEDIUM,
+        traceId: "correction-follow-up"
+    });
+}
+
+/**
+ * result of evaluating whether the AI should respond to a message
+ */
+export interface MessageEvaluation {
+    /** whether the AI should respond */
+    shouldRespond: boolean;
+    /** short explanation for the decision */
+    reason: string;
+    /** whether the decision came from the LLM or the fallback heuristic */
+    source: "llm" | "heuristic";
+}
+
+/**
+ * parse the `[bool, "reason"]` answer of the evaluation model
+ * @param text raw model output, optionally wrapped in a fenced code block
+ * @returns parsed decision or null if the output could not be understood
+ */
+export function parseEvaluationResponse(text: string): { shouldRespond: boolean; reason: string } | null {
+    if (!text) return null;
+
+    const result = parseStructuredOutput(text, EVALUATION_SCHEMA);
+    if (result.status === "ok") return result.value;
+
+    const body = extractJsonCandidates(text)[0] ?? "";
+
+    // last resort: a bare leading boolean such as `true - it's a question`
+    const bare = body.match(/^\[?\s*(true|false)\b[\s,:\-]*["']?([^"'\]]*)/i);
+    if (bare) {
+        return {
+            shouldRespond: bare[1].toLowerCase() === "true",
+            reason: bare[2].trim() || "no reason given"
+        };
+    }
+
+    return null;
+}
+
+/**
+ * the `[bool, "reason"]` answer of the evaluation model, `{shouldRespond, reason}` is accepted too
+ */
+const EVALUATION_SCHEMA: OutputSchema<{ shouldRespond: boolean; reason: string }> = {
+    description: 'array [boolean, string]: whether to respond and a short reason, e.g. [true, "asks a question"]',
+    validate: value => {
+        const decision = toEvaluationDecision(value);
+        return decision
+            ? { status: "ok", value: decision }
+            : { status: "error", error: 'expected [boolean, "reason"]' };
+    }
+};
+
+/**
+ * convert a parsed JSON value into an evaluation decision
+ */
+function toEvaluationDecision(value: unknown): { shouldRespond: boolean; reason: string } | null {
+    const toBoolean = (v: unknown): boolean | null => {
+        if (typeof v === "boolean") return v;
+        if (typeof v === "string" && /^(true|false|yes|no)$/i.test(v.trim())) {
+            return /^(true|yes)$/i.test(v.trim());
+        }
+        return null;
+    };
+
+    if (Array.isArray(value) && value.length > 0) {
+        const shouldRespond = toBoolean(value[0]);
+        if (shouldRespond === null) return null;
+        return {
+            shouldRespond,
+            reason: typeof value[1] === "string" && value[1].trim() ? value[1].trim() : "no reason given"
+        };
+    }
+
+    if (value && typeof value === "object") {
+        const record = value as Record<string, unknown>;
+        const shouldRespond = toBoolean(record.shouldRespond ?? record.respond ?? record.decision);
+        if (shouldRespond === null) return null;
+        return {
+            shouldRespond,
+            reason: typeof record.reason === "string" && record.reason.trim() ? record.reason.trim() : "no reason given"
+        };
+    }
+
+    return null;
+}
+
+/**
+ * cheap rule-based evaluation used when the LLM answer cannot be parsed
+ * @param message the message to evaluate
+ * @param botNames names the bot can be addressed by
+ * @returns evaluation decision
+ */
+export function evaluateMessageHeuristically(message: AlfaFrensMessage, botNames: string[] = []): MessageEvaluation {
+    const content = (message.content || "").trim();
+    const decide = (shouldRespond: boolean, reason: string): MessageEvaluation =>
+        ({ shouldRespond, reason, source: "heuristic" });
+
+    if (!content) {
+        return decide(false, "empty message");
+    }
+
+    const lower = content.toLowerCase();
+    const mentioned = botNames
+        .map(name => name?.replace("@", "").toLowerCase())
+        .filter(Boolean)
+        .some(name => lower.includes(name));
+    if (mentioned) {
+        return decide(true, "message mentions the assistant");
+    }
+
+    if (content.includes("?")) {
+        return decide(true, "message asks a question");
+    }
+
+    // strip emojis, punctuation and short greetings like "gm" before counting words
+    const words = lower
+        .replace(/[^\p{L}\p{N}\s]/gu, " ")
+        .split(/\s+/)
+        .filter(word => word && !/^(gm|gn|hi|hey|hello|yo|lol|lmao|wow|nice|thanks|ty|ok|okay)$/.test(word));
+
+    if (words.length < 6) {
+        return decide(false, "message is too short or a greeting");
+    }
+
+    return decide(true, "substantial message");
 }
 
 /**
@@ -442,22 +722,48 @@ export async function generateResponse(
  * @param runtime agent runtime
  * @param message the message to evaluate
  * @param config configuration for evaluation
- * @returns boolean indicating whether to respond
+ * @returns the decision together with the reason behind it
  */
 export async function evaluateMessage(
     runtime: IAgentRuntime,
     message: AlfaFrensMessage,
-    config: { template: string, modelClass?: ModelClass }
-): Promise<boolean> {
+    config: { template: string, modelClass?: ModelClass, botNames?: string[] }
+): Promise<MessageEvaluation> {
     // generate a unique trace ID for this evaluation call
     const traceId = `eval-${message.id.substring(0, 8)}-${Date.now().toString().substring(9, 13)}`;
+    const botNames = config.botNames || [runtime.character?.name];
 
-    // remove console.log statements
-    elizaLogger.debug(`[EVALUATION START ${traceId}] Message from ${message.senderUsername}: ${message.content?.substring(0, 100)}`);
+    elizaLogger.debug(`[AlfaFrens] Evaluation start (${traceId}) for message from ${message.senderUsername}: ${message.content?.substring(0, 100)}`);
 
-    // force debug mode: skip LLM evaluation and always return true
-    // remove console.log statements
-    elizaLogger.debug(`[FORCE DEBUG MODE] Skipping LLM evaluation and returning TRUE`);
+    const context = processTemplate(config.template || DEFAULT_EVALUATION_TEMPLATE, runtime, {
+        message: {
+            content: message.content || "",
+            sender: message.senderUsername || message.senderId
+        }
+    });
 
-    return true;
-}
\ No newline at end of file
+    let evaluation: MessageEvaluation;
+    const result = await generateStructuredOutput({
+        runtime,
+        context,
+        modelClass: config.modelClass || ModelClass.SMALL,
+        schema: EVALUATION_SCHEMA,
+        traceId
+    });
+
+    if (result.status === "ok") {
+        evaluation = { ...result.value, source: "llm" };
+    } else {
+        // the model may still have answered with a bare boolean
+        const parsed = result.error.kind === "generation" ? null : parseEvaluationResponse(result.raw);
+        if (parsed) {
+            evaluation = { ...parsed, source: "llm" };
+        } else {
+            elizaLogger.warn(`[AlfaFrens] Could not evaluate message (${traceId}, ${result.error.kind}), using heuristic:`, result.error.message);
+            evaluation = evaluateMessageHeuristically(message, botNames);
+        }
+    }
+
+    elizaLogger.debug(`[AlfaFrens] Evaluation result (${traceId}):`, evaluation);
+    return evaluation;
+}
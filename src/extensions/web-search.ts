@@ -0,0 +1,212 @@
+import { IAgentRuntime, Service, ServiceType, elizaLogger } from "@elizaos/core";
+import type { AlfaFrensMessage } from "../types";
+import { isQuestion } from "./grounding";
+import { tokenize } from "./similarity";
+
+/**
+ * when messages are looked up on the web
+ * - auto: only time-sensitive or factual questions
+ * - always: every message answered
+ * - off: never
+ */
+export type WebSearchMode = "auto" | "always" | "off";
+
+export interface WebSearchResult {
+    title: string;
+    url: string;
+}
+
+/**
+ * results of a web search for a message
+ */
+export interface WebSearchResponse {
+    /** the query sent to the search service */
+    query: string;
+    answer?: string;
+    results: WebSearchResult[];
+    /** whether the results came from the cache */
+    cached: boolean;
+}
+
+export interface AlfaFrensWebSearchOptions {
+    /** maximum number of results per search */
+    limit?: number;
+}
+
+/**
+ * the part of the runtime's web search service used here
+ */
+interface WebSearchService extends Service {
+    search(query: string, options: { limit: number; includeAnswer: boolean }): Promise<{
+        answer?: string;
+        results?: { title?: string; url?: string }[];
+    } | null | undefined>;
+}
+
+interface CachedWebSearch {
+    query: string;
+    answer?: string;
+    results: WebSearchResult[];
+    cachedAt: number;
+}
+
+const GREETING_PATTERN = /^(gm|gn|hi|hey|hello|yo|thanks|thank you|thx|ty|lol|lmao|nice|cool|wagmi|ok|okay)\b[\s!.?]*$/i;
+const TIME_SENSITIVE_PATTERN = /\b(today|tonight|yesterday|tomorrow|now|currently|current|latest|recent|recently|news|updates?|this (week|month|year)|prices?|market|launch(ed|es)?|released?|announce(d|ment)?|20\d\d)\b/i;
+const PERSONAL_PATTERN = /\b(you|your|yours|yourself)\b/i;
+const MENTION_PATTERN = /@\w+/g;
+
+/** questions with fewer words are completed from the thread */
+const MIN_QUERY_WORDS = 4;
+const MAX_CONTEXT_WORDS = 6;
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * the web search mode from ALFAFRENS_WEB_SEARCH_MODE (default auto)
+ */
+export function loadWebSearchMode(runtime: IAgentRuntime): WebSearchMode {
+    const mode = runtime.getSetting("ALFAFRENS_WEB_SEARCH_MODE")?.toLowerCase();
+    return mode === "always" || mode === "off" ? mode : "auto";
+}
+
+/**
+ * whether a message is worth a web search: time-sensitive, or a factual
+ * question rather than a greeting or a question about the bot itself
+ * @param message message text
+ */
+export function shouldSearchWeb(message: string): boolean {
+    const text = message.replace(MENTION_PATTERN, "").trim();
+    if (!text || GREETING_PATTERN.test(text)) return false;
+    if (TIME_SENSITIVE_PATTERN.test(text)) return true;
+
+    return isQuestion(text) && !PERSONAL_PATTERN.test(text) && tokenize(text).length >= 3;
+}
+
+/**
+ * the search query for a message, completed with words from the latest thread
+ * messages when the message alone is too short to search for, e.g. `and the fees?`
+ * @param message message text
+ * @param history thread the message belongs to, oldest first
+ */
+export function rewriteSearchQuery(message: string, history: AlfaFrensMessage[] = []): string {
+    const text = message.replace(MENTION_PATTERN, "").replace(/\s+/g, " ").trim();
+    const words = new Set(tokenize(text));
+
+    const context: string[] = [];
+    if (words.size < MIN_QUERY_WORDS) {
+        for (const previous of history.slice(-2).reverse()) {
+            for (const word of tokenize(previous.content || "")) {
+                if (context.length >= MAX_CONTEXT_WORDS) break;
+                if (!words.has(word)) {
+                    words.add(word);
+                    context.push(word);
+                }
+            }
+        }
+    }
+
+    return [text, ...context].join(" ").substring(0, MAX_QUERY_LENGTH).trim();
+}
+
+/**
+ * cache key part of a query: its words sorted, so wording and order don't matter
+ */
+export function normalizeSearchQuery(query: string): string {
+    return [...new Set(tokenize(query))].sort().join(" ");
+}
+
+/**
+ * web search for messages, gated, with rewritten queries and cached results
+ *
+ * Results are cached by normalised query for ALFAFRENS_WEB_SEARCH_CACHE_TTL_SECONDS
+ * (default 3600), so the same question asked again doesn't search again.
+ */
+export class AlfaFrensWebSearch {
+    private runtime: IAgentRuntime;
+    private limit: number;
+    private ttlMs: number;
+
+    constructor(runtime: IAgentRuntime, options: AlfaFrensWebSearchOptions = {}) {
+        this.runtime = runtime;
+        this.limit = options.limit ?? 3;
+
+        const ttlSeconds = parseInt(runtime.getSetting("ALFAFRENS_WEB_SEARCH_CACHE_TTL_SECONDS") ?? "", 10);
+        this.ttlMs = (isNaN(ttlSeconds) ? 3600 : Math.max(0, ttlSeconds)) * 1000;
+    }
+
+    /**
+     * search the web for a message
+     * @param message message text
+     * @param history thread the message belongs to, oldest first
+     * @returns the results, null if the message isn't searched or the search failed
+     */
+    async search(message: string, history: AlfaFrensMessage[] = []): Promise<WebSearchResponse | null> {
+        const mode = loadWebSearchMode(this.runtime);
+        if (mode === "off") return null;
+        if (mode === "auto" && !shouldSearchWeb(message)) {
+            elizaLogger.debug("[AlfaFrensWebSearch] Message isn't time-sensitive or a factual question, not searching");
+            return null;
+        }
+
+        const service = this.runtime.getService<WebSearchService>(ServiceType.WEB_SEARCH);
+        if (!service) {
+            elizaLogger.warn("[AlfaFrensWebSearch] Web search service not found");
+            return null;
+        }
+
+        const query = rewriteSearchQuery(message, history);
+        const normalized = normalizeSearchQuery(query);
+        if (!normalized) return null;
+
+        const cacheKey = `alfafrens/websearch/${normalized}`;
+
+        try {
+            const cached = await this.runtime.cacheManager.get<CachedWebSearch>(cacheKey);
+            if (cached?.results && Date.now() - cached.cachedAt < this.ttlMs) {
+                elizaLogger.debug(`[AlfaFrensWebSearch] Using cached results for "${normalized}"`);
+                return { query: cached.query, answer: cached.answer, results: cached.results, cached: true };
+            }
+
+            elizaLogger.info(`[AlfaFrensWebSearch] Searching the web for: ${query}`);
+            const response = await service.search(query, {
+                limit: this.limit,
+                includeAnswer: true
+            });
+
+            const results: WebSearchResult[] = (response?.results || []).flatMap(result =>
+                result?.url ? [{ title: result.title || result.url, url: result.url }] : []
+            );
+            const entry: CachedWebSearch = { query, answer: response?.answer || undefined, results, cachedAt: Date.now() };
+
+            if (this.ttlMs > 0) {
+                await this.runtime.cacheManager.set(cacheKey, entry, { expires: entry.cachedAt + this.ttlMs });
+            }
+            elizaLogger.info(`[AlfaFrensWebSearch] Found ${results.length} web search result(s)`);
+            return { query, answer: entry.answer, results, cached: false };
+        } catch (error) {
+            elizaLogger.error("[AlfaFrensWebSearch] Error using web search service:", error);
+            return null;
+        }
+    }
+}
+
+/**
+ * web search results as prompt context items, the answer first
+ */
+export function formatWebSearchItems(response: WebSearchResponse | null): string[] {
+    if (!response) return [];
+
+    return [
+        ...(response.answer ? [response.answer] : []),
+        ...response.results.map((result, i) => `${i + 1}. ${result.title} - ${result.url}`)
+    ];
+}
+
+/**
+ * source line for a reply, listing the URLs of the results given to the model
+ * @param response web search results
+ * @param context the web search context of the prompt, only results in it are listed
+ */
+export function formatSourceAttribution(response: WebSearchResponse | null, context: string): string {
+    const urls = [...new Set((response?.results || []).map(result => result.url).filter(url => context.includes(url)))];
+    return urls.length > 0 ? `Sources: ${urls.join(", ")}` : "";
+}
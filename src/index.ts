@@ -12,6 +12,9 @@ export type { AlfaFrensConfig } from "./environment";
 // Re-export the API client
 export { AlfaFrensApi } from "./api";
 
+// Re-export API errors
+export * from "./errors";
+
 // Re-export extensions (optional AI capabilities)
 export * as Extensions from "./extensions";
 
@@ -20,6 +20,83 @@ export interface AlfaFrensConfig {
     postIntervalMin: number;
     /** maximum interval between posts in seconds */
     postIntervalMax: number;
+    /** base URL of the AlfaFrens API */
+    baseUrl?: string;
+    /** channel-specific template for evaluating whether to respond */
+    evaluationTemplate?: string;
+    /** channel-specific template for generating responses */
+    responseTemplate?: string;
+    /** channel-specific template for generating posts */
+    postTemplate?: string;
+    /** daily period without automated posts, as "HH:mm-HH:mm" */
+    postQuietHours?: string;
+    /** IANA time zone for post scheduling, defaults to the system time zone */
+    postTimeZone?: string;
+}
+
+/**
+ * retry policy for requests to the AlfaFrens API
+ */
+export interface AlfaFrensRetryPolicy {
+    /** maximum number of attempts per request, including the first one */
+    maxAttempts: number;
+    /** base delay for the exponential backoff in milliseconds */
+    baseDelayMs: number;
+    /** upper bound for a single backoff delay in milliseconds */
+    maxDelayMs: number;
+    /** total time budget for a request including all retries in milliseconds */
+    deadlineMs: number;
+    /** timeout for a single attempt in milliseconds */
+    requestTimeoutMs: number;
+}
+
+/**
+ * how a startup or shutdown announcement is produced
+ */
+export type AlfaFrensAnnouncementMode = "text" | "generate" | "off";
+
+/**
+ * configuration of a startup or shutdown announcement
+ */
+export interface AlfaFrensAnnouncementConfig {
+    /** send fixed text, generate the message from a template, or send nothing */
+    mode: AlfaFrensAnnouncementMode;
+    /** message sent in text mode, and the fallback if generation fails */
+    text: string;
+    /** template used in generate mode */
+    template: string;
+    /** skip the announcement if one was sent to the channel within this many seconds */
+    windowSeconds: number;
+}
+
+/**
+ * what to do with content calendar slots missed while the bot was offline
+ * - skip: drop them
+ * - once: post once for all missed slots
+ * - all: post once per missed slot
+ */
+export type AlfaFrensMissedSlotPolicy = "skip" | "once" | "all";
+
+/**
+ * scheduled post of the content calendar
+ */
+export interface AlfaFrensContentCalendarEntry {
+    /** stable ID, used to remember when the entry last ran */
+    id: string;
+    /** five-field cron expression, e.g. "0 17 * * MON" */
+    cron: string;
+    /** template to generate the post from */
+    template?: string;
+    /** fixed post text, used instead of a template */
+    text?: string;
+    /** model class for generating the post */
+    modelClass?: ModelClass;
+    /** whether the entry is active */
+    enabled: boolean;
+    /** channel to post to (defaults to the primary channel) */
+    channelId?: string;
+    /** IANA time zone of the cron expression */
+    timeZone?: string;
 }
 
 /**
@@ -99,6 +176,29 @@ export interface AlfaFrensMemoryContent {
     sourceUserId?: string;
     /** username of the source */
     sourceUserName?: string;
+    /** how a reply was grounded in the knowledge */
+    grounding?: AlfaFrensGroundingDecision;
+}
+
+/**
+ * what a reply did after checking the knowledge for support
+ * - answer: answered normally
+ * - hedge: answered, but told to say it isn't sure
+ * - refuse: sent the fallback message instead of an answer
+ */
+export type AlfaFrensGroundingAction = "answer" | "hedge" | "refuse";
+
+/**
+ * whether a reply is backed by the knowledge, attached to the reply's memory
+ */
+export interface AlfaFrensGroundingDecision {
+    action: AlfaFrensGroundingAction;
+    /** whether the message was classified as a question about AlfaFrens */
+    productQuestion: boolean;
+    /** IDs of the knowledge chunks supporting the answer, e.g. `faq:AF token > What are the tokenomics > Tradability` */
+    supportingChunkIds: string[];
+    /** similarity of the best matching chunk, 0 if none was found */
+    similarity: number;
 }
 
 /**